@@ -3,10 +3,19 @@ import { Routes, Route, useLocation, useParams } from 'react-router-dom';
 import { LogoOverlay } from './components/LogoOverlay';
 import { Gallery } from './components/Gallery';
 import { ContactModal } from './components/ContactModal';
-import { AppSettings, DEFAULT_SETTINGS, ImageRecord } from './types';
-import { fetchImageList, fetchImageById } from './services/api';
+import { UnlockScreen } from './components/UnlockScreen';
+import { AppSettings, Collection, DEFAULT_SETTINGS, ImageRecord, PlaylistWeight } from './types';
+import { fetchImagePage, fetchImageById, fetchCollection, unlockImage } from './services/api';
 import { preloadMedia } from './services/preload';
-import { ID_REGEX, MUSIC_PATH } from './constants';
+import { getPreloadUrl } from './services/media';
+import { createPlaylist, Playlist } from './services/playlist';
+import { ID_REGEX, MUSIC_PATH, PLAYLIST_WEIGHT } from './constants';
+
+// Fallback pool for when the playlist can't be reached (and the admin backdrop)
+const IMAGE_PAGE_SIZE = 100;
+
+// Viewer keys of protected records, kept for the tab so a reload doesn't ask again
+const viewerKeyStorage = (id: string) => `archive_key_${id}`;
 
 // Lazy load admin to avoid bundle bloat
 const AdminPanel = React.lazy(() => import('./components/AdminPanel'));
@@ -23,18 +32,28 @@ const GalleryRouteHandler: React.FC<{
   introComplete: boolean;
   images: ImageRecord[];
   onFirstCycleComplete: () => void;
-}> = ({ settings, introComplete, images, onFirstCycleComplete }) => {
+  sequential?: boolean; // Collections: start at the first item and play in order
+  playlist?: Playlist; // Archive: follow the server-side shuffle, `images` only as a fallback
+}> = ({ settings, introComplete, images, onFirstCycleComplete, sequential = false, playlist }) => {
   const { id } = useParams();
   const location = useLocation();
-  const singleMode = Boolean(id && ID_REGEX.test(id));
+  // `/:id?seed=` is a shared playlist link: start at that record and keep playing the shuffle
+  const sharedSeed = new URLSearchParams(location.search).get('seed');
+  const singleMode = Boolean(id && ID_REGEX.test(id) && !sharedSeed);
 
   const handleImageChange = useCallback((imageId: string) => {
-    if (singleMode) return;
-    const nextPath = `/${imageId}`;
-    if (location.pathname !== nextPath) {
-      window.history.replaceState(null, '', nextPath);
+    // Collection URLs stay as shared; only the full archive tracks the current ID (and its seed, so the address can be shared)
+    if (singleMode || sequential) return;
+    const params = new URLSearchParams(window.location.search);
+    const query = new URLSearchParams();
+    const seed = playlist?.seed();
+    if (seed) query.set('seed', seed);
+    if (params.get('weight')) query.set('weight', params.get('weight')!);
+    const nextUrl = query.toString() ? `/${imageId}?${query}` : `/${imageId}`;
+    if (`${window.location.pathname}${window.location.search}` !== nextUrl) {
+      window.history.replaceState(null, '', nextUrl);
     }
-  }, [location.pathname, singleMode]);
+  }, [singleMode, sequential, playlist]);
 
 
   // We hold the pre-resolved start sequence here
@@ -44,10 +63,16 @@ const GalleryRouteHandler: React.FC<{
   } | null>(null);
 
   const [notFound, setNotFound] = useState(false);
+  // Protected record and no valid key yet: show the unlock screen
+  const [locked, setLocked] = useState<{ passphrase: boolean } | null>(null);
+  const [viewerKey, setViewerKey] = useState<string | null>(null);
+
+  // The playlist fetches its own pages; without one we need the list first
+  const hasImages = images.length > 0 || Boolean(playlist);
 
   // Preloading Logic: Runs immediately when component mounts (during Intro)
   useEffect(() => {
-    if (images.length === 0) return;
+    if (!hasImages) return;
 
     let isCancelled = false;
 
@@ -66,22 +91,45 @@ const GalleryRouteHandler: React.FC<{
 
       // 1. Resolve Start Image
       if (id && ID_REGEX.test(id)) {
-        startRecord = await fetchImageById(id);
+        // A key from the unlock screen, a signed link (`/:id?key=`) or an earlier unlock in this tab
+        const key = viewerKey
+          ?? new URLSearchParams(window.location.search).get('key')
+          ?? sessionStorage.getItem(viewerKeyStorage(id));
+        const result = await fetchImageById(id, key);
+        if (result && 'locked' in result) {
+          if (key) sessionStorage.removeItem(viewerKeyStorage(id));
+          if (!isCancelled) setLocked({ passphrase: result.passphrase });
+          return;
+        }
+        startRecord = result;
+        if (key && startRecord) sessionStorage.setItem(viewerKeyStorage(startRecord.id), key);
         if (!startRecord) {
           if (!isCancelled) setNotFound(true);
           return;
         }
+        // Old IDs of reassigned records redirect server-side; show the current ID in the address bar
+        if (startRecord.id !== id) {
+          window.history.replaceState(null, '', `/${startRecord.id}${window.location.search}`);
+        }
+      } else if (sequential) {
+        startRecord = images[0];
       } else {
-        startRecord = pickRandom(images);
+        startRecord = (playlist && await playlist.next()) || pickRandom(images);
       }
+      if (!startRecord) return;
 
       // 2. Resolve Next Image (only when not locked to a single ID)
-      const nextRecord = id && ID_REGEX.test(id)
+      let fromPlaylist = !singleMode && !sequential && playlist ? await playlist.next() : null;
+      // A shared link's record may also open the shuffle; don't show it twice in a row
+      if (fromPlaylist && fromPlaylist.id === startRecord.id) fromPlaylist = await playlist!.next();
+      const nextRecord = singleMode
         ? startRecord
-        : pickRandom(images, startRecord.id);
+        : sequential
+          ? images[1] ?? startRecord
+          : fromPlaylist || pickRandom(images, startRecord.id);
 
-      if (startRecord.mediaType === 'IMAGE') {
-        addPreloadLink(startRecord.url);
+      if (startRecord.mediaType === 'IMAGE' || startRecord.posterUrl) {
+        addPreloadLink(getPreloadUrl(startRecord));
       }
 
       if (!isCancelled) {
@@ -91,14 +139,14 @@ const GalleryRouteHandler: React.FC<{
       // 3. Preload first image in background (do not block render)
       // Ensures Step 7 can render immediately when cache is ready
       try {
-        void preloadMedia(startRecord.url);
+        void preloadMedia(getPreloadUrl(startRecord));
       } catch (e) {
         console.warn('Preload warning', e);
       }
 
       // 4. Preload next image in background (non-blocking)
       try {
-        void preloadMedia(nextRecord.url);
+        void preloadMedia(getPreloadUrl(nextRecord));
       } catch {
         // ignore
       }
@@ -107,12 +155,26 @@ const GalleryRouteHandler: React.FC<{
     prepareAssets();
 
     return () => { isCancelled = true; };
-  }, [id, images]);
+    // Later pages only grow the pool; the start sequence is chosen once
+  }, [id, hasImages, sequential, singleMode, viewerKey]);
+
+  const handleUnlock = async (passphrase: string) => {
+    if (!id) return { ok: false };
+    const result = await unlockImage(id, passphrase);
+    if (result.ok && result.key) {
+      setLocked(null);
+      setViewerKey(result.key);
+    }
+    return result;
+  };
 
 
   // If assets aren't ready yet, show nothing (covered by LogoOverlay)
   // Or if intro is done but data failed, show error
   if (!readyData) {
+    if (locked && id && introComplete) {
+      return <UnlockScreen recordId={id} passphrase={locked.passphrase} onUnlock={handleUnlock} />;
+    }
     if (notFound && introComplete) {
       return <div className="fixed inset-0 flex items-center justify-center bg-black text-white/30 text-sm font-serif tracking-widest">ARCHIVE RECORD NOT FOUND</div>;
     }
@@ -135,11 +197,63 @@ const GalleryRouteHandler: React.FC<{
       active={introComplete}
       onFirstCycleComplete={onFirstCycleComplete}
       singleMode={singleMode}
+      sequential={sequential}
+      playlist={singleMode ? undefined : playlist}
       onImageChange={handleImageChange}
     />
   );
 };
 
+/** /c/:slug — the gallery restricted to one collection, played in its curated order */
+const CollectionRouteHandler: React.FC<{
+  settings: AppSettings;
+  introComplete: boolean;
+  onFirstCycleComplete: () => void;
+}> = ({ settings, introComplete, onFirstCycleComplete }) => {
+  const { slug } = useParams();
+  const [collection, setCollection] = useState<Collection | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setCollection(null);
+    setNotFound(false);
+    fetchCollection(slug ?? '').then(data => {
+      if (isCancelled) return;
+      if (data && data.images.length) {
+        setCollection(data);
+      } else {
+        setNotFound(true);
+      }
+    });
+    return () => { isCancelled = true; };
+  }, [slug]);
+
+  useEffect(() => {
+    if (!collection) return;
+    const previousTitle = document.title;
+    document.title = `${collection.title} — ${previousTitle}`;
+    return () => { document.title = previousTitle; };
+  }, [collection]);
+
+  if (!collection) {
+    if (notFound && introComplete) {
+      return <div className="fixed inset-0 flex items-center justify-center bg-black text-white/30 text-sm font-serif tracking-widest">COLLECTION NOT FOUND</div>;
+    }
+    return null;
+  }
+
+  return (
+    <GalleryRouteHandler
+      settings={settings}
+      introComplete={introComplete}
+      images={collection.images}
+      onFirstCycleComplete={onFirstCycleComplete}
+      sequential
+    />
+  );
+};
+
 export default function App() {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [introComplete, setIntroComplete] = useState(false);
@@ -150,6 +264,15 @@ export default function App() {
   const [contactOpen, setContactOpen] = useState(false);
   const location = useLocation();
   const audioRef = React.useRef<HTMLAudioElement | null>(null);
+  // One shuffle per visit; `?seed=` replays a shared order, `?weight=` overrides the weighting
+  const [playlist] = useState(() => {
+    const params = new URLSearchParams(window.location.search);
+    const weight = params.get('weight') || PLAYLIST_WEIGHT;
+    return createPlaylist({
+      seed: params.get('seed'),
+      weight: ['none', 'recent', 'featured'].includes(weight) ? weight as PlaylistWeight : undefined,
+    });
+  });
 
   useEffect(() => {
     // Performance: Parallel fetch for settings and images (non-blocking)
@@ -170,10 +293,11 @@ export default function App() {
 
     // Performance Requirement: Fetch immediately on mount
     // Do NOT wait for idle callback - critical for TTFB < 0.1s
-    const imagesPromise = fetchImageList()
-      .then(data => {
-        console.log('[App] Images loaded:', data.length);
-        setImages(data);
+    // The slideshow itself streams from the playlist; this first page is only the fallback pool
+    const imagesPromise = fetchImagePage({ limit: IMAGE_PAGE_SIZE })
+      .then(page => {
+        console.log('[App] Images loaded:', page.items.length);
+        setImages(page.items);
       })
       .catch(err => {
         console.error('[App] Failed to load images:', err);
@@ -255,6 +379,14 @@ export default function App() {
             settings={settings}
             introComplete={introComplete}
             images={images}
+            playlist={playlist}
+            onFirstCycleComplete={() => setFirstCycleComplete(true)}
+          />
+        } />
+        <Route path="/c/:slug" element={
+          <CollectionRouteHandler
+            settings={settings}
+            introComplete={introComplete}
             onFirstCycleComplete={() => setFirstCycleComplete(true)}
           />
         } />
@@ -263,6 +395,7 @@ export default function App() {
             settings={settings}
             introComplete={introComplete}
             images={images}
+            playlist={playlist}
             onFirstCycleComplete={() => setFirstCycleComplete(true)}
           />
         } />
@@ -1,6 +1,103 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { loginAdmin, fetchAdminSettings, updateAdminSettings, refreshAdminSync, deactivateAdminImage, fetchAdminImages, activateAdminImage, uploadAdminFiles, deleteAdminImage, uploadAdminMusic } from '../services/api';
-import { AppSettings, AdminImageRecord } from '../types';
+import { loginAdmin, fetchAdminSettings, updateAdminSettings, refreshAdminSync, deactivateAdminImage, fetchAdminImages, activateAdminImage, uploadAdminFileDirect, uploadAdminFileResumable, getPendingResumableUploads, deleteAdminImage, uploadAdminMusic, reprocessAdminImage, fetchAdminIdCapacity, reassignAdminImage, fetchAdminReservedIds, reserveAdminIds, releaseAdminReservedId, fetchAdminSyncRuns, fetchAdminSyncRun, fetchAdminCollections, createAdminCollection, updateAdminCollection, deleteAdminCollection, searchAdminImages, fetchAdminTags, updateAdminImageDetails, createAdminShareLink } from '../services/api';
+import { AppSettings, AdminCollection, AdminImageRecord, IdCapacity, ReservedId, SyncRun, SyncRunDetail, Visibility } from '../types';
+import { getDisplayUrl } from '../services/media';
+import { DIRECT_UPLOAD_THRESHOLD_BYTES } from '../constants';
+
+/** One-line summary of extracted metadata: dimensions, duration, capture date, camera */
+const describeMedia = (img: AdminImageRecord): string => {
+  const parts: string[] = [];
+  if (img.width && img.height) parts.push(`${img.width}×${img.height}`);
+  if (img.durationSec) parts.push(`${img.durationSec.toFixed(1)}s`);
+  if (img.capturedAt) parts.push(new Date(img.capturedAt).toLocaleString());
+  const camera = [img.cameraMake, img.cameraModel].filter(Boolean).join(' ');
+  if (camera) parts.push(camera);
+  if (img.lensModel) parts.push(img.lensModel);
+  return parts.join(' · ');
+};
+
+/** Compact counts for a sync history row, e.g. "+3 NEW · 1 ERROR" */
+const describeSyncRun = (run: SyncRun): string => {
+  const parts: string[] = [];
+  if (run.newCount) parts.push(`+${run.newCount} new`);
+  if (run.updatedCount) parts.push(`~${run.updatedCount} updated`);
+  if (run.reactivatedCount) parts.push(`+${run.reactivatedCount} reactivated`);
+  if (run.deactivatedCount) parts.push(`-${run.deactivatedCount} deactivated`);
+  if (run.errorCount) parts.push(`${run.errorCount} error${run.errorCount === 1 ? '' : 's'}`);
+  if (run.skippedCount) parts.push(`${run.skippedCount} skipped`);
+  if (!parts.length) parts.push('no changes');
+  if (run.complete === false) parts.push('partial');
+  return parts.join(' · ');
+};
+
+/** Collection being edited; member IDs are kept as text so they can be pasted and reordered */
+interface CollectionDraft {
+  id: number;
+  title: string;
+  slug: string;
+  description: string;
+  coverImageId: string;
+  imageIds: string;
+}
+
+const parseIdList = (text: string) => text.split(/[\s,]+/).map(v => v.trim()).filter(Boolean);
+
+/** Search form state; empty strings mean "any" */
+interface SearchForm {
+  q: string;
+  mediaType: '' | 'IMAGE' | 'VIDEO';
+  active: '' | 'true' | 'false';
+  from: string; // yyyy-mm-dd
+  to: string;
+  tag: string;
+}
+
+const EMPTY_SEARCH: SearchForm = { q: '', mediaType: '', active: '', from: '', to: '', tag: '' };
+
+/** Caption, tags, publishing window and access being edited for one image; tags as comma-separated text */
+interface DetailsDraft {
+  id: string;
+  caption: string;
+  tags: string;
+  publishAt: string; // datetime-local value, '' for none
+  expireAt: string;
+  visibility: Visibility;
+  passphrase: string | null; // '' keeps the current one, null removes it
+}
+
+/** ISO timestamp → `<input type="datetime-local">` value in the browser's time zone */
+const toLocalInput = (iso?: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+/** SCHEDULED / EXPIRES / EXPIRED label for an image's publishing window, if it has one */
+const describeSchedule = (img: AdminImageRecord): { label: string; title: string; color: string } | null => {
+  const now = Date.now();
+  const publishAt = img.publishAt ? new Date(img.publishAt) : null;
+  const expireAt = img.expireAt ? new Date(img.expireAt) : null;
+  if (expireAt && expireAt.getTime() <= now) {
+    return { label: 'EXPIRED', title: `Expired ${expireAt.toLocaleString()}`, color: 'rgba(252,165,165,0.95)' };
+  }
+  if (publishAt && publishAt.getTime() > now) {
+    return { label: 'SCHEDULED', title: `Goes live ${publishAt.toLocaleString()}`, color: 'rgba(147,197,253,0.95)' };
+  }
+  if (expireAt) {
+    return { label: 'EXPIRES', title: `Expires ${expireAt.toLocaleString()}`, color: 'rgba(253,224,71,0.85)' };
+  }
+  return null;
+};
+
+/** Progress of one direct-to-bucket upload */
+interface UploadProgress {
+  name: string;
+  loaded: number;
+  total: number;
+  status: 'uploading' | 'done' | 'error';
+}
 
 interface AdminPanelProps {
   onUpdate: (settings: AppSettings) => void;
@@ -23,12 +120,33 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
   const [syncMessage, setSyncMessage] = useState('');
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'done' | 'error'>('idle');
   const [uploadMessage, setUploadMessage] = useState('');
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress[]>([]);
+  // Uploads interrupted by a reload; picking the same files again resumes them
+  const [pendingUploads, setPendingUploads] = useState<string[]>(() => getPendingResumableUploads());
   const [musicStatus, setMusicStatus] = useState<'idle' | 'uploading' | 'done' | 'error'>('idle');
   const [musicMessage, setMusicMessage] = useState('');
   const [musicUrl, setMusicUrl] = useState<string | null>(null);
   const [images, setImages] = useState<AdminImageRecord[]>([]);
   const [imagesLoading, setImagesLoading] = useState(false);
   const [imagesError, setImagesError] = useState('');
+  const [idCapacity, setIdCapacity] = useState<IdCapacity | null>(null);
+  const [uploadId, setUploadId] = useState('');
+  const [uploadPublishAt, setUploadPublishAt] = useState('');
+  const [reservedIds, setReservedIds] = useState<ReservedId[]>([]);
+  const [reserveInput, setReserveInput] = useState('');
+  const [reserveMessage, setReserveMessage] = useState('');
+  const [collections, setCollections] = useState<AdminCollection[]>([]);
+  const [newCollectionTitle, setNewCollectionTitle] = useState('');
+  const [collectionDraft, setCollectionDraft] = useState<CollectionDraft | null>(null);
+  const [collectionMessage, setCollectionMessage] = useState('');
+  const [search, setSearch] = useState<SearchForm>(EMPTY_SEARCH);
+  // Match count while the list shows search results; null for the full list
+  const [searchTotal, setSearchTotal] = useState<number | null>(null);
+  const [tagCounts, setTagCounts] = useState<{ tag: string; count: number }[]>([]);
+  const [detailsDraft, setDetailsDraft] = useState<DetailsDraft | null>(null);
+  const [syncRuns, setSyncRuns] = useState<SyncRun[]>([]);
+  const [showIdleRuns, setShowIdleRuns] = useState(false);
+  const [expandedRun, setExpandedRun] = useState<SyncRunDetail | null>(null);
   const uploadInputRef = useRef<HTMLInputElement>(null);
   const musicInputRef = useRef<HTMLInputElement>(null);
 
@@ -40,6 +158,10 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
     }
   }, [token]);
 
+  useEffect(() => {
+    if (token) loadSyncRuns();
+  }, [token, showIdleRuns]);
+
   const loadSettings = async () => {
     try {
       setLoading(true);
@@ -64,8 +186,14 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
     setImagesError('');
     setImagesLoading(true);
     try {
-      const data = await fetchAdminImages();
+      const [data, capacity, reserved, collectionList, tags] = await Promise.all([fetchAdminImages(), fetchAdminIdCapacity(), fetchAdminReservedIds(), fetchAdminCollections(), fetchAdminTags()]);
       setImages(data);
+      setSearch(EMPTY_SEARCH);
+      setSearchTotal(null);
+      setIdCapacity(capacity);
+      setReservedIds(reserved);
+      setCollections(collectionList);
+      setTagCounts(tags);
     } catch (e: any) {
       if (e.message === 'Unauthorized') {
         logout();
@@ -77,6 +205,118 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
     }
   };
 
+  const runSearch = async (form: SearchForm = search) => {
+    setSearch(form);
+    setImagesError('');
+    setImagesLoading(true);
+    try {
+      const result = await searchAdminImages({
+        q: form.q.trim() || undefined,
+        mediaType: form.mediaType || undefined,
+        active: form.active ? form.active === 'true' : undefined,
+        from: form.from ? new Date(`${form.from}T00:00:00`).toISOString() : undefined,
+        // Inclusive: the whole end day
+        to: form.to ? new Date(`${form.to}T23:59:59.999`).toISOString() : undefined,
+        tags: form.tag ? [form.tag] : undefined,
+        limit: 500,
+      });
+      if (result.ok) {
+        setImages(result.images ?? []);
+        setSearchTotal(result.total ?? 0);
+      } else {
+        setImagesError(result.message || 'Search failed');
+      }
+    } catch (e: any) {
+      if (e.message === 'Unauthorized') {
+        logout();
+        return;
+      }
+      setImagesError('Search failed');
+    } finally {
+      setImagesLoading(false);
+    }
+  };
+
+  const handleToggleFeatured = async (image: AdminImageRecord) => {
+    try {
+      const result = await updateAdminImageDetails(image.id, { featured: !image.featured });
+      if (result.ok) {
+        setImages(prev => prev.map(img => img.id === image.id ? { ...img, featured: Boolean(result.featured) } : img));
+      } else {
+        alert(result.message || 'Update failed.');
+      }
+    } catch {
+      logout();
+    }
+  };
+
+  const handleShareLink = async (image: AdminImageRecord) => {
+    try {
+      const result = await createAdminShareLink(image.id);
+      if (result.ok && result.path) {
+        const expires = result.expiresAt ? new Date(result.expiresAt).toLocaleString() : 'never';
+        window.prompt(`Signed link to ${image.id} (expires ${expires}; changing the passphrase or re-protecting the record revokes it):`, `${window.location.origin}${result.path}`);
+      } else {
+        alert(result.message || 'Could not create a link.');
+      }
+    } catch {
+      logout();
+    }
+  };
+
+  const handleSaveDetails = async () => {
+    if (!detailsDraft) return;
+    try {
+      const result = await updateAdminImageDetails(detailsDraft.id, {
+        caption: detailsDraft.caption.trim() || null,
+        tags: detailsDraft.tags.split(',').map(t => t.trim()).filter(Boolean),
+        publishAt: fromLocalInput(detailsDraft.publishAt),
+        expireAt: fromLocalInput(detailsDraft.expireAt),
+        visibility: detailsDraft.visibility,
+        passphrase: detailsDraft.passphrase === '' ? undefined : detailsDraft.passphrase,
+      });
+      if (result.ok) {
+        setImages(prev => prev.map(img => img.id === detailsDraft.id
+          ? {
+            ...img,
+            caption: result.caption ?? null,
+            tags: result.tags ?? [],
+            publishAt: result.publishAt ?? null,
+            expireAt: result.expireAt ?? null,
+            visibility: result.visibility,
+            hasPassphrase: result.hasPassphrase,
+          }
+          : img));
+        setDetailsDraft(null);
+        setTagCounts(await fetchAdminTags());
+      } else {
+        alert(result.message || 'Save failed.');
+      }
+    } catch {
+      logout();
+    }
+  };
+
+  const loadSyncRuns = async () => {
+    try {
+      setSyncRuns(await fetchAdminSyncRuns({ limit: 25, eventful: !showIdleRuns }));
+    } catch (e: any) {
+      if (e.message === 'Unauthorized') logout();
+    }
+  };
+
+  const toggleSyncRun = async (run: SyncRun) => {
+    if (expandedRun?.id === run.id) {
+      setExpandedRun(null);
+      return;
+    }
+    try {
+      setExpandedRun(await fetchAdminSyncRun(run.id));
+    } catch {
+      logout();
+    }
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -125,13 +365,21 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
       const result = await refreshAdminSync();
       if (result.ok) {
         setSyncStatus('done');
-        setSyncMessage(`Sync complete: +${result.newCount ?? 0} new, -${result.deactivatedCount ?? 0} deactivated, +${result.reactivatedCount ?? 0} reactivated`);
+        const label = result.complete === false ? 'Sync partial (continues next run)' : 'Sync complete';
+        setSyncMessage(`${label}: +${result.newCount ?? 0} new, ~${result.updatedCount ?? 0} updated, -${result.deactivatedCount ?? 0} deactivated, +${result.reactivatedCount ?? 0} reactivated`);
         setTimeout(() => setSyncStatus('idle'), 2500);
         setTimeout(() => loadImages(), 1500);
+      } else if (result.alreadyRunning) {
+        setSyncStatus('idle');
+        const running = result.running;
+        setSyncMessage(running
+          ? `Already running (${running.trigger}, since ${new Date(running.startedAt).toLocaleTimeString()}): ${running.scannedCount} scanned, +${running.newCount} new so far`
+          : 'Sync already running');
       } else {
         setSyncStatus('error');
         setSyncMessage(result.reason || 'Sync failed');
       }
+      loadSyncRuns();
     } catch (e: any) {
       if (e.message === 'Unauthorized') {
         logout();
@@ -160,6 +408,146 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
     }
   };
 
+  const handleReprocess = async (image: AdminImageRecord) => {
+    try {
+      const result = await reprocessAdminImage(image.id);
+      if (result.ok) {
+        setImages(prev => prev.map(img => img.id === image.id ? { ...img, processedAt: null, processingError: null } : img));
+      } else {
+        alert(result.message || 'Reprocess failed.');
+      }
+    } catch {
+      logout();
+    }
+  };
+
+  const handleReassign = async (image: AdminImageRecord) => {
+    const input = window.prompt(`New archive ID for ${image.id}? The old ID will keep redirecting here.`, image.id);
+    const newId = input?.trim();
+    if (!newId || newId === image.id) return;
+    try {
+      const result = await reassignAdminImage(image.id, newId);
+      if (result.ok) {
+        setImages(prev => prev.map(img => img.id === image.id ? { ...img, id: newId } : img));
+        setReservedIds(prev => prev.filter(r => r.id !== newId));
+      } else {
+        alert(result.message || 'Reassign failed.');
+      }
+    } catch {
+      logout();
+    }
+  };
+
+  const handleReserve = async () => {
+    const ids = reserveInput.split(/[\s,]+/).map(v => v.trim()).filter(Boolean);
+    if (!ids.length) return;
+    setReserveMessage('');
+    try {
+      const result = await reserveAdminIds(ids);
+      if (result.ok) {
+        setReserveInput('');
+        const rejected = result.rejected ?? [];
+        setReserveMessage(rejected.length ? `Not reserved (in use or invalid): ${rejected.join(', ')}` : `Reserved ${result.reserved?.length ?? 0}`);
+        setReservedIds(await fetchAdminReservedIds());
+      } else {
+        setReserveMessage(result.message || 'Reserve failed');
+      }
+    } catch {
+      logout();
+    }
+  };
+
+  const handleRelease = async (id: string) => {
+    try {
+      const result = await releaseAdminReservedId(id);
+      if (result.ok) {
+        setReservedIds(prev => prev.filter(r => r.id !== id));
+      } else {
+        alert(result.message || 'Release failed.');
+      }
+    } catch {
+      logout();
+    }
+  };
+
+  const handleCreateCollection = async () => {
+    const title = newCollectionTitle.trim();
+    if (!title) return;
+    setCollectionMessage('');
+    try {
+      const result = await createAdminCollection({ title });
+      if (result.ok && result.collection) {
+        setNewCollectionTitle('');
+        setCollections(prev => [result.collection!, ...prev]);
+        editCollection(result.collection);
+      } else {
+        setCollectionMessage(result.message || 'Create failed');
+      }
+    } catch {
+      logout();
+    }
+  };
+
+  const editCollection = (collection: AdminCollection) => {
+    setCollectionMessage('');
+    setCollectionDraft({
+      id: collection.id,
+      title: collection.title,
+      slug: collection.slug,
+      description: collection.description ?? '',
+      coverImageId: collection.coverImageId ?? '',
+      imageIds: collection.imageIds.join(', '),
+    });
+  };
+
+  const toggleDraftImage = (id: string) => {
+    setCollectionDraft(prev => {
+      if (!prev) return prev;
+      const ids = parseIdList(prev.imageIds);
+      const next = ids.includes(id) ? ids.filter(v => v !== id) : [...ids, id];
+      return { ...prev, imageIds: next.join(', ') };
+    });
+  };
+
+  const handleSaveCollection = async () => {
+    if (!collectionDraft) return;
+    setCollectionMessage('');
+    try {
+      const result = await updateAdminCollection(collectionDraft.id, {
+        title: collectionDraft.title.trim(),
+        slug: collectionDraft.slug.trim() || undefined,
+        description: collectionDraft.description.trim() || null,
+        coverImageId: collectionDraft.coverImageId.trim() || null,
+        imageIds: parseIdList(collectionDraft.imageIds),
+      });
+      if (result.ok && result.collection) {
+        setCollections(prev => prev.map(c => c.id === result.collection!.id ? result.collection! : c));
+        setCollectionDraft(null);
+        setCollectionMessage(`Saved /c/${result.collection.slug}`);
+      } else {
+        setCollectionMessage(result.message || 'Save failed');
+      }
+    } catch {
+      logout();
+    }
+  };
+
+  const handleDeleteCollection = async (collection: AdminCollection) => {
+    const confirmed = window.confirm(`Delete collection "${collection.title}"? Its images stay in the archive.`);
+    if (!confirmed) return;
+    try {
+      const result = await deleteAdminCollection(collection.id);
+      if (result.ok) {
+        setCollections(prev => prev.filter(c => c.id !== collection.id));
+        if (collectionDraft?.id === collection.id) setCollectionDraft(null);
+      } else {
+        alert(result.message || 'Delete failed.');
+      }
+    } catch {
+      logout();
+    }
+  };
+
   const handleDelete = async (image: AdminImageRecord) => {
     const confirmed = window.confirm(`Permanently delete image ${image.id}? This will remove it from R2 and the database.`);
     if (!confirmed) return;
@@ -177,19 +565,67 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
 
   const handleUpload = async (files: FileList | null) => {
     if (!files || files.length === 0) return;
+    const all = Array.from(files);
+    // A chosen archive ID only applies when a single file is uploaded
+    const archiveId = all.length === 1 ? uploadId.trim() || undefined : undefined;
+    // Every file of the batch stays hidden until the same moment
+    const publishAt = fromLocalInput(uploadPublishAt) ?? undefined;
+    const updateProgress = (index: number, patch: Partial<UploadProgress>) => {
+      setUploadProgress(prev => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+    };
+
     setUploadStatus('uploading');
     setUploadMessage('');
+    setUploadProgress(all.map(file => ({ name: file.name, loaded: 0, total: file.size, status: 'uploading' })));
     try {
-      const result = await uploadAdminFiles(Array.from(files));
-      if (result.ok) {
-        setUploadStatus('done');
-        setUploadMessage(`Uploaded ${result.uploaded ?? 0}, skipped ${result.skipped ?? 0}`);
-        setTimeout(() => setUploadStatus('idle'), 2500);
-        setTimeout(() => loadImages(), 1500);
-      } else {
+      let uploaded = 0;
+      const ids: string[] = [];
+      const errors: string[] = [];
+      const duplicates: string[] = [];
+      // Cleared once the backend says it can't presign (local storage)
+      let directSupported = true;
+
+      for (const [index, file] of all.entries()) {
+        const onProgress = (loaded: number) => updateProgress(index, { loaded });
+        let result: { ok: boolean; id?: string; duplicateOf?: string; message?: string; unsupported?: boolean } | null = null;
+        // Large files go straight to the bucket; everything else is resumable through the backend
+        if (directSupported && file.size > DIRECT_UPLOAD_THRESHOLD_BYTES) {
+          result = await uploadAdminFileDirect(file, archiveId, onProgress, publishAt);
+          if (result.unsupported) {
+            directSupported = false;
+            result = null;
+          }
+        }
+        if (!result) {
+          result = await uploadAdminFileResumable(file, archiveId, onProgress, publishAt);
+        }
+
+        if (result.ok) {
+          uploaded++;
+          if (result.id) ids.push(result.id);
+          if (result.duplicateOf) duplicates.push(`${file.name} matches ${result.duplicateOf}`);
+          updateProgress(index, { status: 'done', loaded: file.size });
+        } else {
+          errors.push(`${file.name}: ${result.message || 'upload failed'}`);
+          updateProgress(index, { status: 'error' });
+        }
+      }
+
+      setPendingUploads(getPendingResumableUploads());
+      if (uploaded === 0 && errors.length) {
         setUploadStatus('error');
-        setUploadMessage(result.message || 'Upload failed');
+        setUploadMessage(errors.join(' • '));
+        return;
       }
+      setUploadStatus('done');
+      const errorText = errors.length ? ` • ${errors.join(' • ')}` : '';
+      const duplicateText = duplicates.length ? ` • Already archived: ${duplicates.join(', ')}` : '';
+      const idText = ids.length === 1 ? ` as ${ids[0]}` : '';
+      setUploadMessage(`Uploaded ${uploaded}${idText}${duplicateText}${errorText}`);
+      if (ids.length) setUploadId('');
+      setTimeout(() => setUploadStatus('idle'), 2500);
+      setTimeout(() => loadImages(), 1500);
+      if (!errors.length) setTimeout(() => setUploadProgress([]), 2500);
     } catch (e: any) {
       if (e.message === 'Unauthorized') {
         logout();
@@ -376,6 +812,17 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
     cursor: 'pointer',
   };
 
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    background: 'transparent',
+    color: 'rgba(255,255,255,0.86)',
+    border: '1px solid rgba(255,255,255,0.18)',
+    padding: '9px 12px',
+    fontSize: 11,
+    letterSpacing: '0.2em',
+    outline: 'none',
+  };
+
   const dangerButtonStyle: React.CSSProperties = {
     border: '1px solid rgba(239,68,68,0.38)',
     background: 'transparent',
@@ -524,10 +971,26 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
                     ref={uploadInputRef}
                     type="file"
                     multiple
-                    accept=".jpg,.jpeg,.png,.webp,.gif,.avif,.mp4,.webm,.mov"
+                    accept=".jpg,.jpeg,.png,.webp,.gif,.avif,.heic,.heif,.dng,.cr2,.cr3,.nef,.nrw,.arw,.orf,.rw2,.raf,.mp4,.webm,.mov"
                     className="hidden"
                     onChange={(e) => handleUpload(e.target.files)}
                   />
+                  <input
+                    type="text"
+                    value={uploadId}
+                    onChange={(e) => setUploadId(e.target.value)}
+                    placeholder="ARCHIVE ID (OPTIONAL, SINGLE FILE)"
+                    style={inputStyle}
+                  />
+                  <label style={{ display: 'flex', flexDirection: 'column', gap: 6, fontSize: 10, letterSpacing: '0.25em', color: 'rgba(255,255,255,0.45)' }}>
+                    PUBLISH AT (OPTIONAL)
+                    <input
+                      type="datetime-local"
+                      value={uploadPublishAt}
+                      onChange={(e) => setUploadPublishAt(e.target.value)}
+                      style={inputStyle}
+                    />
+                  </label>
                   <button
                     onClick={() => uploadInputRef.current?.click()}
                     type="button"
@@ -564,6 +1027,26 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
                       {uploadMessage}
                     </div>
                   )}
+                  {pendingUploads.length > 0 && uploadStatus !== 'uploading' && (
+                    <div style={{ fontSize: 10, letterSpacing: '0.25em', textTransform: 'uppercase', color: 'rgba(251,191,36,0.95)' }}>
+                      {pendingUploads.length} interrupted upload{pendingUploads.length === 1 ? '' : 's'} ({pendingUploads.join(', ')}) • pick the same file{pendingUploads.length === 1 ? '' : 's'} to resume
+                    </div>
+                  )}
+                  {uploadProgress.map((p, i) => {
+                    const percent = p.total ? Math.min(100, Math.round((p.loaded / p.total) * 100)) : 100;
+                    const barColor = p.status === 'error' ? 'rgba(255,120,120,0.85)' : p.status === 'done' ? 'rgba(255,255,255,0.85)' : 'rgba(255,255,255,0.55)';
+                    return (
+                      <div key={`${p.name}-${i}`} style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12, fontSize: 10, letterSpacing: '0.2em', textTransform: 'uppercase', color: 'rgba(255,255,255,0.45)' }}>
+                          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{p.name}</span>
+                          <span>{p.status === 'error' ? 'FAILED' : `${percent}%`}</span>
+                        </div>
+                        <div style={{ height: 2, background: 'rgba(255,255,255,0.12)' }}>
+                          <div style={{ height: '100%', width: `${percent}%`, background: barColor, transition: 'width 200ms linear' }} />
+                        </div>
+                      </div>
+                    );
+                  })}
                   {musicMessage && (
                     <div style={{ fontSize: 10, letterSpacing: '0.25em', textTransform: 'uppercase', color: 'rgba(255,255,255,0.45)' }}>
                       {musicMessage}
@@ -573,11 +1056,306 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
                 </div>
               </div>
 
-              {/* Images */}
+              {/* Sync history */}
+              <div style={{ paddingTop: 22 }}>
+                <div style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 24, marginBottom: 12 }}>
+                  <div style={smallCapsStyle}>SYNC HISTORY</div>
+                  <div style={{ display: 'flex', gap: 16 }}>
+                    <button onClick={() => setShowIdleRuns(v => !v)} type="button" className="fa-hoverlink" style={linkStyle}>
+                      {showIdleRuns ? 'HIDE IDLE RUNS' : 'SHOW IDLE RUNS'}
+                    </button>
+                    <button onClick={loadSyncRuns} type="button" className="fa-hoverlink" style={linkStyle}>
+                      REFRESH
+                    </button>
+                  </div>
+                </div>
+                <div style={{ border: '1px solid rgba(255,255,255,0.18)' }}>
+                  {syncRuns.length === 0 ? (
+                    <div style={{ padding: 18, textAlign: 'center', fontSize: 11, letterSpacing: '0.25em', color: 'rgba(255,255,255,0.4)' }}>
+                      NO SYNC RUNS
+                    </div>
+                  ) : syncRuns.map((run) => (
+                    <div key={run.id} style={{ borderTop: '1px solid rgba(255,255,255,0.10)' }}>
+                      <button
+                        onClick={() => toggleSyncRun(run)}
+                        type="button"
+                        style={{
+                          display: 'flex',
+                          width: '100%',
+                          gap: 14,
+                          padding: '10px 14px',
+                          background: 'transparent',
+                          border: 'none',
+                          cursor: 'pointer',
+                          textAlign: 'left',
+                          fontSize: 10,
+                          letterSpacing: '0.15em',
+                          color: run.status === 'error' || run.errorCount ? 'rgba(252,165,165,0.95)' : 'rgba(255,255,255,0.65)',
+                        }}
+                      >
+                        <span style={{ flexShrink: 0, width: 150 }}>{new Date(run.startedAt).toLocaleString()}</span>
+                        <span style={{ flexShrink: 0, width: 64, textTransform: 'uppercase' }}>{run.trigger}</span>
+                        <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {run.status === 'running' ? 'running…' : run.status === 'error' ? `failed: ${run.message ?? 'unknown error'}` : describeSyncRun(run)}
+                        </span>
+                        <span style={{ flexShrink: 0 }}>{run.durationMs != null ? `${(run.durationMs / 1000).toFixed(1)}s` : ''}</span>
+                      </button>
+                      {expandedRun?.id === run.id && (
+                        <div style={{ padding: '4px 14px 14px', fontSize: 10, letterSpacing: '0.1em', color: 'rgba(255,255,255,0.55)', wordBreak: 'break-all' }}>
+                          <div>SCANNED {expandedRun.scannedCount} OBJECTS</div>
+                          {(expandedRun.errors ?? []).map((e, i) => (
+                            <div key={`e${i}`} style={{ marginTop: 4, color: 'rgba(252,165,165,0.9)' }}>{e.key}: {e.message}</div>
+                          ))}
+                          {(expandedRun.skipped ?? []).map((e, i) => (
+                            <div key={`s${i}`} style={{ marginTop: 4 }}>{e.key}: {e.reason}</div>
+                          ))}
+                          {expandedRun.errorCount + expandedRun.skippedCount > (expandedRun.errors?.length ?? 0) + (expandedRun.skipped?.length ?? 0) && (
+                            <div style={{ marginTop: 4 }}>…LIST TRUNCATED</div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Reserved IDs */}
               <div style={{ paddingTop: 22 }}>
                 <div style={{ ...smallCapsStyle, marginBottom: 12 }}>
-                  IMAGES ({images.filter(i => i.isActive).length} ACTIVE / {images.length} TOTAL)
+                  RESERVED IDS ({reservedIds.length})
                 </div>
+                <div style={{ display: 'flex', gap: 10, width: '100%', maxWidth: 340 }}>
+                  <input
+                    type="text"
+                    value={reserveInput}
+                    onChange={(e) => setReserveInput(e.target.value)}
+                    placeholder="00001, 19850"
+                    style={inputStyle}
+                  />
+                  <button
+                    onClick={handleReserve}
+                    type="button"
+                    className="fa-btn"
+                    style={{ ...buttonStyle, width: 'auto', padding: '7px 10px', fontSize: 10 }}
+                  >
+                    RESERVE
+                  </button>
+                </div>
+                {reserveMessage && (
+                  <div style={{ marginTop: 10, fontSize: 10, letterSpacing: '0.25em', textTransform: 'uppercase', color: 'rgba(255,255,255,0.45)' }}>
+                    {reserveMessage}
+                  </div>
+                )}
+                {reservedIds.length > 0 && (
+                  <div style={{ marginTop: 12, display: 'flex', flexWrap: 'wrap', gap: 14 }}>
+                    {reservedIds.map((r) => (
+                      <div key={r.id} title={r.reason ?? undefined} style={{ display: 'flex', alignItems: 'center', gap: 8, ...valueStyle }}>
+                        {r.id}
+                        <button onClick={() => handleRelease(r.id)} type="button" className="fa-hoverlink" style={{ ...linkStyle, fontSize: 9 }}>
+                          RELEASE
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Collections */}
+              <div style={{ paddingTop: 22 }}>
+                <div style={{ ...smallCapsStyle, marginBottom: 12 }}>
+                  COLLECTIONS ({collections.length})
+                </div>
+                <div style={{ display: 'flex', gap: 10, width: '100%', maxWidth: 340 }}>
+                  <input
+                    type="text"
+                    value={newCollectionTitle}
+                    onChange={(e) => setNewCollectionTitle(e.target.value)}
+                    placeholder="TITLE, E.G. LISBON 2024"
+                    style={inputStyle}
+                  />
+                  <button
+                    onClick={handleCreateCollection}
+                    type="button"
+                    className="fa-btn"
+                    style={{ ...buttonStyle, width: 'auto', padding: '7px 10px', fontSize: 10 }}
+                  >
+                    CREATE
+                  </button>
+                </div>
+                {collectionMessage && (
+                  <div style={{ marginTop: 10, fontSize: 10, letterSpacing: '0.25em', textTransform: 'uppercase', color: 'rgba(255,255,255,0.45)' }}>
+                    {collectionMessage}
+                  </div>
+                )}
+                {collections.length > 0 && (
+                  <div style={{ marginTop: 12, border: '1px solid rgba(255,255,255,0.18)' }}>
+                    {collections.map((c) => (
+                      <div key={c.id} style={{ borderTop: '1px solid rgba(255,255,255,0.10)', padding: '10px 14px' }}>
+                        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 16 }}>
+                          <div style={{ minWidth: 0 }}>
+                            <div style={{ fontSize: 12, letterSpacing: '0.2em', color: 'rgba(255,255,255,0.86)', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                              {c.title}
+                            </div>
+                            <div style={{ marginTop: 4, fontSize: 10, letterSpacing: '0.15em', color: 'rgba(255,255,255,0.40)' }}>
+                              /c/{c.slug} · {c.imageIds.length} ITEM{c.imageIds.length === 1 ? '' : 'S'}
+                            </div>
+                          </div>
+                          <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexShrink: 0 }}>
+                            <a href={`/c/${c.slug}`} target="_blank" rel="noreferrer" className="fa-hoverlink" style={{ ...linkStyle, fontSize: 10 }}>
+                              OPEN
+                            </a>
+                            <button
+                              onClick={() => (collectionDraft?.id === c.id ? setCollectionDraft(null) : editCollection(c))}
+                              type="button"
+                              className="fa-hoverlink"
+                              style={{ ...linkStyle, fontSize: 10 }}
+                            >
+                              {collectionDraft?.id === c.id ? 'CLOSE' : 'EDIT'}
+                            </button>
+                            <button onClick={() => handleDeleteCollection(c)} className="fa-danger" style={dangerButtonStyle} type="button">
+                              DELETE
+                            </button>
+                          </div>
+                        </div>
+                        {collectionDraft?.id === c.id && (
+                          <div style={{ marginTop: 12, display: 'flex', flexDirection: 'column', gap: 8 }}>
+                            <input
+                              type="text"
+                              value={collectionDraft.title}
+                              onChange={(e) => setCollectionDraft({ ...collectionDraft, title: e.target.value })}
+                              placeholder="TITLE"
+                              style={inputStyle}
+                            />
+                            <input
+                              type="text"
+                              value={collectionDraft.slug}
+                              onChange={(e) => setCollectionDraft({ ...collectionDraft, slug: e.target.value })}
+                              placeholder="SLUG (URL: /c/<slug>)"
+                              style={inputStyle}
+                            />
+                            <textarea
+                              value={collectionDraft.description}
+                              onChange={(e) => setCollectionDraft({ ...collectionDraft, description: e.target.value })}
+                              placeholder="DESCRIPTION (OPTIONAL)"
+                              rows={2}
+                              style={{ ...inputStyle, resize: 'vertical' }}
+                            />
+                            <input
+                              type="text"
+                              value={collectionDraft.coverImageId}
+                              onChange={(e) => setCollectionDraft({ ...collectionDraft, coverImageId: e.target.value })}
+                              placeholder="COVER ID (DEFAULT: FIRST ITEM)"
+                              style={inputStyle}
+                            />
+                            <textarea
+                              value={collectionDraft.imageIds}
+                              onChange={(e) => setCollectionDraft({ ...collectionDraft, imageIds: e.target.value })}
+                              placeholder="IDS IN PLAY ORDER: 00012, 00007, ... (OR USE ADD TO COLLECTION BELOW)"
+                              rows={3}
+                              style={{ ...inputStyle, resize: 'vertical' }}
+                            />
+                            <button
+                              onClick={handleSaveCollection}
+                              type="button"
+                              className="fa-btn"
+                              style={{ ...buttonStyle, maxWidth: 340 }}
+                            >
+                              SAVE COLLECTION
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Images */}
+              <div style={{ paddingTop: 22 }}>
+                <div style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 24, marginBottom: 12 }}>
+                  <div style={smallCapsStyle}>
+                    {searchTotal === null
+                      ? `IMAGES (${images.filter(i => i.isActive).length} ACTIVE / ${images.length} TOTAL)`
+                      : `IMAGES (${searchTotal} MATCH${searchTotal === 1 ? '' : 'ES'}${searchTotal > images.length ? `, FIRST ${images.length} SHOWN` : ''})`}
+                  </div>
+                  {searchTotal !== null && (
+                    <button onClick={loadImages} type="button" className="fa-hoverlink" style={linkStyle}>
+                      CLEAR SEARCH
+                    </button>
+                  )}
+                </div>
+                <form
+                  onSubmit={(e) => { e.preventDefault(); runSearch(); }}
+                  style={{ marginBottom: 12, display: 'flex', flexWrap: 'wrap', gap: 8 }}
+                >
+                  <input
+                    type="search"
+                    value={search.q}
+                    onChange={(e) => setSearch({ ...search, q: e.target.value })}
+                    placeholder="SEARCH CAPTION, TAGS, FILENAME, CAMERA"
+                    style={{ ...inputStyle, flex: '1 1 260px', width: 'auto' }}
+                  />
+                  <select
+                    value={search.mediaType}
+                    onChange={(e) => setSearch({ ...search, mediaType: e.target.value as SearchForm['mediaType'] })}
+                    style={{ ...inputStyle, width: 'auto', background: '#000' }}
+                  >
+                    <option value="">ALL TYPES</option>
+                    <option value="IMAGE">IMAGES</option>
+                    <option value="VIDEO">VIDEOS</option>
+                  </select>
+                  <select
+                    value={search.active}
+                    onChange={(e) => setSearch({ ...search, active: e.target.value as SearchForm['active'] })}
+                    style={{ ...inputStyle, width: 'auto', background: '#000' }}
+                  >
+                    <option value="">ANY STATE</option>
+                    <option value="true">ACTIVE</option>
+                    <option value="false">INACTIVE</option>
+                  </select>
+                  <select
+                    value={search.tag}
+                    onChange={(e) => setSearch({ ...search, tag: e.target.value })}
+                    style={{ ...inputStyle, width: 'auto', background: '#000' }}
+                  >
+                    <option value="">ANY TAG</option>
+                    {tagCounts.map(t => (
+                      <option key={t.tag} value={t.tag}>{t.tag} ({t.count})</option>
+                    ))}
+                  </select>
+                  <input
+                    type="date"
+                    value={search.from}
+                    onChange={(e) => setSearch({ ...search, from: e.target.value })}
+                    title="Taken (or uploaded) on or after"
+                    style={{ ...inputStyle, width: 'auto', colorScheme: 'dark' }}
+                  />
+                  <input
+                    type="date"
+                    value={search.to}
+                    onChange={(e) => setSearch({ ...search, to: e.target.value })}
+                    title="Taken (or uploaded) on or before"
+                    style={{ ...inputStyle, width: 'auto', colorScheme: 'dark' }}
+                  />
+                  <button type="submit" className="fa-btn" style={{ ...buttonStyle, width: 'auto', padding: '7px 10px', fontSize: 10 }}>
+                    SEARCH
+                  </button>
+                </form>
+                {idCapacity && (
+                  <div
+                    style={{
+                      marginBottom: 12,
+                      fontSize: 10,
+                      letterSpacing: '0.25em',
+                      textTransform: 'uppercase',
+                      color: idCapacity.warning ? 'rgba(251,191,36,0.95)' : 'rgba(255,255,255,0.45)',
+                    }}
+                  >
+                    ID SPACE {idCapacity.percentUsed}% USED • {idCapacity.remaining.toLocaleString()} LEFT
+                    {idCapacity.reserved ? ` • ${idCapacity.reserved} RESERVED` : ''}
+                    {idCapacity.warning ? ' — RUNNING LOW: INCREASE ID_LENGTH OR ID_ALPHABET' : ''}
+                  </div>
+                )}
 
                 {imagesLoading && (
                   <div style={{ padding: '40px 0', textAlign: 'center', fontSize: 12, letterSpacing: '0.25em', color: 'rgba(255,255,255,0.4)' }}>
@@ -599,8 +1377,8 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
                     ) : (
                       <div>
                         {images.map((img) => (
+                          <React.Fragment key={img.id}>
                           <div
-                            key={img.id}
                             style={{
                               display: 'flex',
                               alignItems: 'center',
@@ -624,10 +1402,12 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
                                   flexShrink: 0,
                                 }}
                               >
-                                {img.mediaType === 'VIDEO' ? (
+                                {img.mediaType === 'VIDEO' && img.posterUrl ? (
+                                  <img src={img.posterUrl} alt="" loading="lazy" className="w-full h-full object-cover" />
+                                ) : img.mediaType === 'VIDEO' ? (
                                   <video src={img.url} className="w-full h-full object-cover" muted />
                                 ) : (
-                                  <img src={img.url} alt="" className="w-full h-full object-cover" />
+                                  <img src={getDisplayUrl(img, 128)} alt="" loading="lazy" className="w-full h-full object-cover" />
                                 )}
                               </div>
                               <div style={{ minWidth: 0 }}>
@@ -641,7 +1421,62 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
                                   <span style={{ fontSize: 10, letterSpacing: '0.25em', textTransform: 'uppercase', color: img.isActive ? 'rgba(134,239,172,0.95)' : 'rgba(252,165,165,0.95)' }}>
                                     {img.isActive ? 'ACTIVE' : 'INACTIVE'}
                                   </span>
+                                  {img.featured && (
+                                    <span style={{ fontSize: 10, letterSpacing: '0.25em', textTransform: 'uppercase', color: 'rgba(253,224,71,0.85)' }}>
+                                      FEATURED
+                                    </span>
+                                  )}
+                                  {img.visibility && img.visibility !== 'PUBLIC' && (
+                                    <span style={{ fontSize: 10, letterSpacing: '0.25em', textTransform: 'uppercase', color: 'rgba(196,181,253,0.9)' }}>
+                                      {img.visibility}
+                                    </span>
+                                  )}
+                                  {describeSchedule(img) && (
+                                    <span title={describeSchedule(img)!.title} style={{ fontSize: 10, letterSpacing: '0.25em', textTransform: 'uppercase', color: describeSchedule(img)!.color }}>
+                                      {describeSchedule(img)!.label}
+                                    </span>
+                                  )}
+                                  {img.processingError ? (
+                                    <span title={img.processingError} style={{ fontSize: 10, letterSpacing: '0.25em', textTransform: 'uppercase', color: 'rgba(252,165,165,0.95)' }}>
+                                      PROCESSING FAILED
+                                    </span>
+                                  ) : !img.processedAt && (
+                                    <span style={{ fontSize: 10, letterSpacing: '0.25em', textTransform: 'uppercase', color: 'rgba(255,255,255,0.40)' }}>
+                                      PROCESSING
+                                    </span>
+                                  )}
                                 </div>
+                                {describeMedia(img) && (
+                                  <div style={{ marginTop: 6, fontSize: 10, letterSpacing: '0.15em', color: 'rgba(255,255,255,0.35)', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                                    {describeMedia(img)}
+                                  </div>
+                                )}
+                                {img.caption && (
+                                  <div title={img.caption} style={{ marginTop: 6, fontSize: 11, letterSpacing: '0.05em', color: 'rgba(255,255,255,0.6)', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                                    {img.caption}
+                                  </div>
+                                )}
+                                {img.tags && img.tags.length > 0 && (
+                                  <div style={{ marginTop: 6, display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+                                    {img.tags.map(tag => (
+                                      <button
+                                        key={tag}
+                                        onClick={() => runSearch({ ...EMPTY_SEARCH, tag })}
+                                        type="button"
+                                        title={`Show everything tagged ${tag}`}
+                                        className="fa-hoverlink"
+                                        style={{ ...linkStyle, fontSize: 9, letterSpacing: '0.15em', border: '1px solid rgba(255,255,255,0.18)', padding: '2px 6px' }}
+                                      >
+                                        #{tag}
+                                      </button>
+                                    ))}
+                                  </div>
+                                )}
+                                {img.strippedFields && img.strippedFields.length > 0 && (
+                                  <div title={img.strippedFields.join(', ')} style={{ marginTop: 4, fontSize: 10, letterSpacing: '0.15em', color: 'rgba(253,224,71,0.75)', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                                    REMOVED: {img.strippedFields.join(', ')}
+                                  </div>
+                                )}
                               </div>
                             </div>
 
@@ -649,6 +1484,43 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
                               <a href={img.url} target="_blank" rel="noreferrer" className="fa-hoverlink" style={{ ...linkStyle, fontSize: 10 }}>
                                 OPEN
                               </a>
+                              <button onClick={() => handleReassign(img)} type="button" className="fa-hoverlink" style={{ ...linkStyle, fontSize: 10 }}>
+                                CHANGE ID
+                              </button>
+                              <button
+                                onClick={() => setDetailsDraft(detailsDraft?.id === img.id ? null : {
+                                  id: img.id,
+                                  caption: img.caption ?? '',
+                                  tags: (img.tags ?? []).join(', '),
+                                  publishAt: toLocalInput(img.publishAt),
+                                  expireAt: toLocalInput(img.expireAt),
+                                  visibility: img.visibility ?? 'PUBLIC',
+                                  passphrase: '',
+                                })}
+                                type="button"
+                                className="fa-hoverlink"
+                                style={{ ...linkStyle, fontSize: 10 }}
+                              >
+                                {detailsDraft?.id === img.id ? 'CLOSE' : 'DETAILS'}
+                              </button>
+                              <button onClick={() => handleToggleFeatured(img)} type="button" className="fa-hoverlink" style={{ ...linkStyle, fontSize: 10 }}>
+                                {img.featured ? 'UNFEATURE' : 'FEATURE'}
+                              </button>
+                              {img.visibility === 'PROTECTED' && (
+                                <button onClick={() => handleShareLink(img)} type="button" className="fa-hoverlink" style={{ ...linkStyle, fontSize: 10 }}>
+                                  SHARE LINK
+                                </button>
+                              )}
+                              {collectionDraft && (
+                                <button onClick={() => toggleDraftImage(img.id)} type="button" className="fa-hoverlink" style={{ ...linkStyle, fontSize: 10 }}>
+                                  {parseIdList(collectionDraft.imageIds).includes(img.id) ? 'REMOVE FROM COLLECTION' : 'ADD TO COLLECTION'}
+                                </button>
+                              )}
+                              {img.processingError && (
+                                <button onClick={() => handleReprocess(img)} type="button" className="fa-hoverlink" style={{ ...linkStyle, fontSize: 10 }}>
+                                  REPROCESS
+                                </button>
+                              )}
                               <button
                                 onClick={() => handleToggleActive(img)}
                                 type="button"
@@ -662,6 +1534,99 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onUpdate }) => {
               </button>
                             </div>
                           </div>
+                          {detailsDraft?.id === img.id && (
+                            <div style={{ padding: '0 14px 14px', display: 'flex', flexDirection: 'column', gap: 8 }}>
+                              <textarea
+                                value={detailsDraft.caption}
+                                onChange={(e) => setDetailsDraft({ ...detailsDraft, caption: e.target.value })}
+                                placeholder="CAPTION / NOTES"
+                                rows={2}
+                                style={{ ...inputStyle, resize: 'vertical', letterSpacing: '0.05em' }}
+                              />
+                              <input
+                                type="text"
+                                value={detailsDraft.tags}
+                                onChange={(e) => setDetailsDraft({ ...detailsDraft, tags: e.target.value })}
+                                placeholder="TAGS, COMMA SEPARATED"
+                                style={inputStyle}
+                              />
+                              {tagCounts.length > 0 && (
+                                <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+                                  {tagCounts.slice(0, 24).filter(t => !detailsDraft.tags.split(',').map(v => v.trim()).includes(t.tag)).map(t => (
+                                    <button
+                                      key={t.tag}
+                                      onClick={() => setDetailsDraft({ ...detailsDraft, tags: [detailsDraft.tags.trim(), t.tag].filter(Boolean).join(', ') })}
+                                      type="button"
+                                      className="fa-hoverlink"
+                                      style={{ ...linkStyle, fontSize: 9, letterSpacing: '0.15em' }}
+                                    >
+                                      +{t.tag}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12 }}>
+                                <label style={{ display: 'flex', flexDirection: 'column', gap: 6, fontSize: 10, letterSpacing: '0.25em', color: 'rgba(255,255,255,0.45)' }}>
+                                  PUBLISH AT
+                                  <input
+                                    type="datetime-local"
+                                    value={detailsDraft.publishAt}
+                                    onChange={(e) => setDetailsDraft({ ...detailsDraft, publishAt: e.target.value })}
+                                    style={inputStyle}
+                                  />
+                                </label>
+                                <label style={{ display: 'flex', flexDirection: 'column', gap: 6, fontSize: 10, letterSpacing: '0.25em', color: 'rgba(255,255,255,0.45)' }}>
+                                  EXPIRE AT
+                                  <input
+                                    type="datetime-local"
+                                    value={detailsDraft.expireAt}
+                                    onChange={(e) => setDetailsDraft({ ...detailsDraft, expireAt: e.target.value })}
+                                    style={inputStyle}
+                                  />
+                                </label>
+                                <label style={{ display: 'flex', flexDirection: 'column', gap: 6, fontSize: 10, letterSpacing: '0.25em', color: 'rgba(255,255,255,0.45)' }}>
+                                  VISIBILITY
+                                  <select
+                                    value={detailsDraft.visibility}
+                                    onChange={(e) => setDetailsDraft({ ...detailsDraft, visibility: e.target.value as Visibility })}
+                                    style={inputStyle}
+                                  >
+                                    <option value="PUBLIC">PUBLIC</option>
+                                    <option value="UNLISTED">UNLISTED (BY ID ONLY)</option>
+                                    <option value="PROTECTED">PROTECTED (PASSPHRASE / SIGNED LINK)</option>
+                                  </select>
+                                </label>
+                              </div>
+                              {detailsDraft.visibility === 'PROTECTED' && (
+                                <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+                                  <input
+                                    type="password"
+                                    autoComplete="new-password"
+                                    value={detailsDraft.passphrase ?? ''}
+                                    onChange={(e) => setDetailsDraft({ ...detailsDraft, passphrase: e.target.value })}
+                                    placeholder={detailsDraft.passphrase === null
+                                      ? 'PASSPHRASE WILL BE REMOVED'
+                                      : img.hasPassphrase ? 'NEW PASSPHRASE (LEAVE EMPTY TO KEEP)' : 'PASSPHRASE (OPTIONAL, MIN 4)'}
+                                    style={inputStyle}
+                                  />
+                                  {img.hasPassphrase && (
+                                    <button
+                                      onClick={() => setDetailsDraft({ ...detailsDraft, passphrase: detailsDraft.passphrase === null ? '' : null })}
+                                      type="button"
+                                      className="fa-hoverlink"
+                                      style={{ ...linkStyle, fontSize: 10, flexShrink: 0 }}
+                                    >
+                                      {detailsDraft.passphrase === null ? 'KEEP PASSPHRASE' : 'REMOVE PASSPHRASE'}
+                                    </button>
+                                  )}
+                                </div>
+                              )}
+                              <button onClick={handleSaveDetails} type="button" className="fa-btn" style={{ ...buttonStyle, maxWidth: 340 }}>
+                                SAVE DETAILS
+                              </button>
+                            </div>
+                          )}
+                          </React.Fragment>
                         ))}
                       </div>
                     )}
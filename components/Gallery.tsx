@@ -1,12 +1,16 @@
 import React, { useEffect, useRef, useCallback } from 'react';
 import gsap from 'gsap';
 import { AppSettings, ImageRecord } from '../types';
+import { getDisplayUrl, getVideoUrl } from '../services/media';
+import { Playlist } from '../services/playlist';
 
 /**
  * Gallery – smooth Ken-Burns background slideshow
  *
  * Architecture:
- *   Two <img> / <video> layers (A & B) stacked absolutely.
+ *   Two layers (A & B) stacked absolutely, each an <img> under a <video>.
+ *   Images use just the <img>; videos show their poster there and the
+ *   <video> fades in over it once playback starts.
  *   An imperative loop (no React state in the hot path) drives:
  *     1. Load next image into the hidden layer
  *     2. Once decoded, crossfade + zoom
@@ -24,6 +28,8 @@ interface GalleryProps {
   onFirstCycleComplete: () => void;
   active: boolean; 
   singleMode?: boolean;
+  sequential?: boolean; // Play `images` in order (collections) instead of at random
+  playlist?: Playlist; // Server-side shuffle to draw from; `images` is the fallback when it can't be reached
   onImageChange?: (id: string) => void;
 }
 
@@ -35,6 +41,12 @@ const pickRandom = (images: ImageRecord[], excludeId?: string): ImageRecord => {
   return pool[Math.floor(Math.random() * pool.length)];
 };
 
+/** The record after `currentId` in list order, wrapping around */
+const pickFollowing = (images: ImageRecord[], currentId?: string): ImageRecord => {
+  const index = images.findIndex(img => img.id === currentId);
+  return images[(index + 1) % images.length];
+};
+
 /** Preload an image and resolve when fully decoded */
 const preloadImage = (url: string): Promise<void> =>
   new Promise((resolve) => {
@@ -50,6 +62,45 @@ const preloadImage = (url: string): Promise<void> =>
     img.src = url;
   });
 
+type Layer = HTMLDivElement;
+
+/**
+ * Load a record into a layer; resolves when it can be shown. For a video that's
+ * once the poster is decoded (so the crossfade shows it instantly); the video
+ * fades in over it when frames play.
+ */
+const loadLayer = (layer: Layer, record: ImageRecord): Promise<void> => {
+  const still = layer.querySelector('img');
+  const video = layer.querySelector('video');
+  if (!still || !video) return Promise.resolve();
+
+  gsap.killTweensOf(video);
+  gsap.set(video, { autoAlpha: 0 });
+  video.onplaying = null;
+
+  if (record.mediaType !== 'VIDEO') {
+    // Drop whatever video this layer played last so it stops downloading
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    const url = getDisplayUrl(record);
+    still.style.visibility = 'visible';
+    still.src = url;
+    return preloadImage(url);
+  }
+
+  video.onplaying = () => {
+    gsap.to(video, { autoAlpha: 1, duration: 0.8, ease: 'power1.out' });
+  };
+  video.src = getVideoUrl(record);
+  video.play().catch(() => { /* autoplay blocked: the poster stays up */ });
+
+  still.style.visibility = record.posterUrl ? 'visible' : 'hidden';
+  if (!record.posterUrl) return Promise.resolve();
+  still.src = record.posterUrl;
+  return preloadImage(record.posterUrl);
+};
+
 /* ── component ───────────────────────────────────────────── */
 
 export const Gallery: React.FC<GalleryProps> = ({ 
@@ -60,11 +111,13 @@ export const Gallery: React.FC<GalleryProps> = ({
   onFirstCycleComplete,
   active,
   singleMode = false,
+  sequential = false,
+  playlist,
   onImageChange,
 }) => {
   /* DOM refs for the two layers */
-  const layerARef = useRef<HTMLImageElement | HTMLVideoElement | null>(null);
-  const layerBRef = useRef<HTMLImageElement | HTMLVideoElement | null>(null);
+  const layerARef = useRef<Layer | null>(null);
+  const layerBRef = useRef<Layer | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
   /* Mutable state that must NOT trigger re-renders */
@@ -103,20 +156,7 @@ export const Gallery: React.FC<GalleryProps> = ({
     }
 
     /* ── Show the very first image ─────────────────────── */
-    const firstUrl = currentRecord.current.url;
-    const isFirstVideo = currentRecord.current.mediaType === 'VIDEO';
-
-    // Set source on front layer
-    if (!isFirstVideo && frontLayer instanceof HTMLImageElement) {
-      frontLayer.src = firstUrl;
-    } else if (isFirstVideo && frontLayer instanceof HTMLVideoElement) {
-      frontLayer.src = firstUrl;
-        }
-        
-    // Preload first image
-    if (!isFirstVideo) {
-      await preloadImage(firstUrl);
-    }
+    await loadLayer(frontLayer, currentRecord.current);
     if (cancelled.current) return;
 
     // Report URL
@@ -171,18 +211,18 @@ export const Gallery: React.FC<GalleryProps> = ({
     }
 
     /* ── Continuous loop ───────────────────────────────── */
+    const pickNext = async (currentId: string): Promise<ImageRecord> => {
+      const fromPlaylist = playlist ? await playlist.next() : null;
+      // Offline with an empty fallback list: hold the current record rather than break the loop
+      return fromPlaylist ?? (sequential ? pickFollowing : pickRandom)(imagesRef.current, currentId) ?? currentRecord.current;
+    };
     while (!cancelled.current) {
       // Pick next image
-      const next = nextRecordRef.current || pickRandom(imagesRef.current, currentRecord.current.id);
-
-      // Set source on back layer (hidden)
-      if (backLayer instanceof HTMLImageElement) {
-        backLayer.src = next.url;
-      }
+      const next = nextRecordRef.current || await pickNext(currentRecord.current.id);
 
-      // Preload next image while current is still showing
-      if (next.mediaType === 'IMAGE') {
-        await preloadImage(next.url);
+      // Load it into the back layer (hidden) while current is still showing
+      if (backLayer) {
+        await loadLayer(backLayer, next);
       }
       if (cancelled.current) break;
 
@@ -226,6 +266,9 @@ export const Gallery: React.FC<GalleryProps> = ({
       await tl;
       if (cancelled.current) break;
 
+      // The faded-out layer may hold a video; stop it decoding in the background
+      frontLayer?.querySelector('video')?.pause();
+
       // Report new image URL
       if (next.id !== lastReportedId.current) {
         lastReportedId.current = next.id;
@@ -234,7 +277,7 @@ export const Gallery: React.FC<GalleryProps> = ({
 
       // Update records
       currentRecord.current = next;
-      nextRecordRef.current = pickRandom(imagesRef.current, next.id);
+      nextRecordRef.current = await pickNext(next.id);
 
       // Now back layer is visible — zoom it for the full display duration
       // Front layer is hidden, swap z-indices
@@ -263,7 +306,7 @@ export const Gallery: React.FC<GalleryProps> = ({
     }
 
     running.current = false;
-  }, [singleMode]);
+  }, [singleMode, sequential, playlist]);
 
   /* ── Start / stop the loop based on `active` ───────── */
   useEffect(() => {
@@ -301,6 +344,17 @@ export const Gallery: React.FC<GalleryProps> = ({
     WebkitBackfaceVisibility: 'hidden',
   };
 
+  /* The still and the video fill their layer */
+  const fillStyle: React.CSSProperties = {
+    position: 'absolute',
+    inset: 0,
+    width: '100%',
+    height: '100%',
+    objectFit: 'cover',
+    objectPosition: 'center center',
+    display: 'block',
+  };
+
   return (
     <div 
       ref={containerRef} 
@@ -318,50 +372,17 @@ export const Gallery: React.FC<GalleryProps> = ({
       }}
     >
       {/* Layer A */}
-      {startRecord.mediaType === 'VIDEO' ? (
-          <video
-          ref={(el) => { layerARef.current = el; }}
-          style={layerStyle}
-            muted
-            playsInline
-            loop
-            autoPlay
-            preload="metadata"
-          />
-        ) : (
-        <img
-          ref={(el) => { layerARef.current = el; }}
-          alt=""
-          draggable={false}
-          style={layerStyle}
-            decoding="async"
-          loading="eager"
-          fetchPriority="high"
-          />
-      )}
-      
+      <div ref={(el) => { layerARef.current = el; }} style={layerStyle}>
+        <img alt="" draggable={false} style={fillStyle} decoding="async" loading="eager" fetchPriority="high" />
+        <video style={{ ...fillStyle, opacity: 0, visibility: 'hidden' }} muted playsInline loop preload="auto" />
+      </div>
+
       {/* Layer B */}
       {!singleMode && (
-        nextRecord.mediaType === 'VIDEO' ? (
-          <video
-            ref={(el) => { layerBRef.current = el; }}
-            style={layerStyle}
-            muted
-            playsInline
-            loop
-            autoPlay
-            preload="metadata"
-          />
-        ) : (
-        <img
-            ref={(el) => { layerBRef.current = el; }}
-          alt=""
-          draggable={false}
-            style={layerStyle}
-            decoding="async"
-            loading="eager"
-          />
-        )
+        <div ref={(el) => { layerBRef.current = el; }} style={layerStyle}>
+          <img alt="" draggable={false} style={fillStyle} decoding="async" loading="eager" />
+          <video style={{ ...fillStyle, opacity: 0, visibility: 'hidden' }} muted playsInline loop preload="auto" />
+        </div>
       )}
     </div>
   );
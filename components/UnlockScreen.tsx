@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+
+type Props = {
+  recordId: string;
+  passphrase: boolean; // Whether the record can be opened with a passphrase at all
+  onUnlock: (passphrase: string) => Promise<{ ok: boolean; message?: string }>;
+};
+
+/** Shown at /:id for a protected record until the viewer enters its passphrase or opens a signed link */
+export const UnlockScreen: React.FC<Props> = ({ recordId, passphrase, onUnlock }) => {
+  const [value, setValue] = useState('');
+  const [status, setStatus] = useState<'idle' | 'checking' | 'error'>('idle');
+  const [errorText, setErrorText] = useState('');
+
+  const canSubmit = value.trim().length > 0 && status !== 'checking';
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setStatus('checking');
+    setErrorText('');
+    const res = await onUnlock(value);
+    if (!res.ok) {
+      setErrorText(res.message || 'Wrong passphrase.');
+      setStatus('error');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black p-6 text-white"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 16,
+        backgroundColor: '#000',
+        color: '#fff',
+      }}
+    >
+      <div style={{ width: '100%', maxWidth: 360, display: 'flex', flexDirection: 'column', gap: 16 }}>
+        <div
+          className="text-[11px] uppercase tracking-[0.25em] text-white/60"
+          style={{ fontSize: 11, letterSpacing: '0.25em', textTransform: 'uppercase', color: 'rgba(255,255,255,0.6)', textAlign: 'center' }}
+        >
+          Archive record {recordId} is private
+        </div>
+
+        {passphrase ? (
+          <form onSubmit={submit} style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+            <input
+              type="password"
+              autoFocus
+              autoComplete="off"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="Passphrase"
+              className="bg-black border border-white/10 p-3 text-[12px] tracking-widest outline-none focus:border-white/40 placeholder:text-white/20"
+              style={{
+                width: '100%',
+                background: 'rgba(0,0,0,0.75)',
+                border: '1px solid rgba(255,255,255,0.14)',
+                padding: 12,
+                fontSize: 12,
+                letterSpacing: '0.16em',
+                color: '#fff',
+                outline: 'none',
+              }}
+            />
+
+            {status === 'error' && (
+              <div
+                className="text-[11px] tracking-widest text-red-500/80"
+                style={{ fontSize: 11, letterSpacing: '0.16em', color: 'rgba(248,113,113,0.9)' }}
+              >
+                {errorText}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className="w-full border border-white/20 bg-white text-black py-3 text-[11px] font-bold uppercase tracking-[0.3em] disabled:opacity-40 disabled:cursor-not-allowed hover:bg-white/90 transition-colors"
+              style={{
+                width: '100%',
+                border: '1px solid rgba(255,255,255,0.2)',
+                background: '#fff',
+                color: '#000',
+                padding: '12px 16px',
+                fontSize: 11,
+                fontWeight: 700,
+                letterSpacing: '0.3em',
+                textTransform: 'uppercase',
+                cursor: canSubmit ? 'pointer' : 'not-allowed',
+                opacity: canSubmit ? 1 : 0.4,
+                transition: 'opacity 150ms ease, background 150ms ease',
+              }}
+            >
+              {status === 'checking' ? 'Checking...' : 'Unlock'}
+            </button>
+          </form>
+        ) : (
+          <div
+            className="text-[11px] tracking-widest text-white/30"
+            style={{ fontSize: 11, letterSpacing: '0.16em', color: 'rgba(255,255,255,0.3)', textAlign: 'center' }}
+          >
+            Open it with the link you were given.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,3 +1,9 @@
 export const LOGO_PATH = '/final-archive.svg'; // Client's SVG logo in public folder
-export const ID_REGEX = /^\d{5}$/; // Exact 5 digits
-export const MUSIC_PATH = '/ambient.mp3'; // Optional: add this file in /public to enable background music
\ No newline at end of file
+// Legacy 5-digit IDs always match; set VITE_ID_PATTERN (e.g. "[0-9a-z]{7}") when the backend uses a different ID_ALPHABET/ID_LENGTH
+const ID_PATTERN = (import.meta as any).env?.VITE_ID_PATTERN as string | undefined;
+export const ID_REGEX = ID_PATTERN ? new RegExp(`^(?:\\d{5}|${ID_PATTERN})$`) : /^\d{5}$/;
+export const MUSIC_PATH = '/ambient.mp3'; // Optional: add this file in /public to enable background music
+// Admin uploads above this size go straight to the bucket via presigned URLs (with progress bars)
+export const DIRECT_UPLOAD_THRESHOLD_BYTES = 20 * 1024 * 1024;
+// Playlist weighting (none | recent | featured); with nothing featured, 'featured' is a plain shuffle. `?weight=` overrides per visit
+export const PLAYLIST_WEIGHT = ((import.meta as any).env?.VITE_PLAYLIST_WEIGHT as string | undefined) || 'featured';
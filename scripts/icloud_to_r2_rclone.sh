@@ -39,7 +39,10 @@ echo "  From: ${ICLOUD_DIR}"
 echo "  To:   ${DEST}"
 
 rclone sync "${ICLOUD_DIR}" "${DEST}" \
+  --ignore-case \
   --include "*.jpg" --include "*.jpeg" --include "*.png" --include "*.webp" --include "*.gif" --include "*.avif" \
+  --include "*.heic" --include "*.heif" --include "*.dng" --include "*.cr2" --include "*.cr3" --include "*.nef" \
+  --include "*.nrw" --include "*.arw" --include "*.orf" --include "*.rw2" --include "*.raf" \
   --include "*.mp4" --include "*.webm" --include "*.mov" \
   --exclude "*" \
   --progress
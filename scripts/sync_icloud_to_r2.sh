@@ -47,14 +47,26 @@ if [[ -n "$R2_PREFIX" ]]; then
     DEST="$DEST/$R2_PREFIX"
 fi
 
-# Sync images and videos only
+# Sync images and videos only (HEIC and camera RAW are converted for display by the backend)
 rclone sync "$ICLOUD_DIR" "$DEST" \
+    --ignore-case \
     --include "*.jpg" \
     --include "*.jpeg" \
     --include "*.png" \
     --include "*.webp" \
     --include "*.gif" \
     --include "*.avif" \
+    --include "*.heic" \
+    --include "*.heif" \
+    --include "*.dng" \
+    --include "*.cr2" \
+    --include "*.cr3" \
+    --include "*.nef" \
+    --include "*.nrw" \
+    --include "*.arw" \
+    --include "*.orf" \
+    --include "*.rw2" \
+    --include "*.raf" \
     --include "*.mp4" \
     --include "*.webm" \
     --include "*.mov" \
@@ -1,4 +1,4 @@
-import { AppSettings, ImageRecord, AdminImageRecord } from '../types';
+import { AppSettings, ImageRecord, ImagePage, PlaylistPage, PlaylistWeight, AdminImageRecord, AdminSearchParams, AdminCollection, Collection, IdCapacity, ReservedId, SyncRun, SyncRunDetail, SyncRunProgress, LockedRecord, Visibility } from '../types';
 
 // Get API base URL from environment or use relative path as fallback
 const getApiOrigin = () => {
@@ -40,10 +40,38 @@ export const fetchImageList = async (): Promise<ImageRecord[]> => {
   }
 };
 
-export const fetchImageById = async (id: string): Promise<ImageRecord | null> => {
+export const fetchImagePage = async (params: { limit?: number; cursor?: string | null; mediaType?: 'IMAGE' | 'VIDEO'; collection?: string } = {}): Promise<ImagePage> => {
+  const query = new URLSearchParams({ limit: String(params.limit ?? 100) });
+  if (params.cursor) query.set('cursor', params.cursor);
+  if (params.mediaType) query.set('mediaType', params.mediaType);
+  if (params.collection) query.set('collection', params.collection);
+  const res = await fetch(`${API_BASE}/images?${query}`);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch images: ${res.status} ${res.statusText}`);
+  }
+  return res.json();
+};
+
+export const fetchPlaylistPage = async (params: { seed?: string | null; weight?: PlaylistWeight; offset?: number; limit?: number }): Promise<PlaylistPage> => {
+  const query = new URLSearchParams({ offset: String(params.offset ?? 0), limit: String(params.limit ?? 50) });
+  if (params.seed) query.set('seed', params.seed);
+  if (params.weight) query.set('weight', params.weight);
+  const res = await fetch(`${API_BASE}/playlist?${query}`);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch playlist: ${res.status} ${res.statusText}`);
+  }
+  return res.json();
+};
+
+export const fetchImageById = async (id: string, key?: string | null): Promise<ImageRecord | LockedRecord | null> => {
   try {
-    const res = await fetch(`${API_BASE}/images/${id}`);
+    const query = key ? `?key=${encodeURIComponent(key)}` : '';
+    const res = await fetch(`${API_BASE}/images/${id}${query}`);
     if (res.status === 404 || res.status === 410) return null;
+    if (res.status === 401) {
+      const data = await res.json().catch(() => ({}));
+      return { locked: true, passphrase: Boolean(data?.passphrase) };
+    }
     if (!res.ok) throw new Error('Failed to fetch image');
     return await res.json();
   } catch (err) {
@@ -52,6 +80,34 @@ export const fetchImageById = async (id: string): Promise<ImageRecord | null> =>
   }
 };
 
+/** Trade a protected record's passphrase for a viewer key (pass it to fetchImageById) */
+export const unlockImage = async (id: string, passphrase: string): Promise<{ ok: boolean; key?: string; message?: string }> => {
+  try {
+    const res = await fetch(`${API_BASE}/images/${id}/unlock`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ passphrase })
+    });
+    const data = await res.json().catch(() => ({}));
+    if (res.status === 429) return { ok: false, message: 'Too many attempts. Try again in a minute.' };
+    return res.ok ? { ok: true, key: data.key } : { ok: false, message: data?.message || 'Unlock failed' };
+  } catch {
+    return { ok: false, message: 'Unlock failed' };
+  }
+};
+
+export const fetchCollection = async (slug: string): Promise<Collection | null> => {
+  try {
+    const res = await fetch(`${API_BASE}/collections/${encodeURIComponent(slug)}`);
+    if (res.status === 404 || res.status === 400) return null;
+    if (!res.ok) throw new Error('Failed to fetch collection');
+    return await res.json();
+  } catch (err) {
+    console.warn(err);
+    return null;
+  }
+};
+
 export const fetchPublicSettings = async (): Promise<{ displayDurationSec: number; cropPercent: number; musicUrl?: string | null } | null> => {
   try {
     const res = await fetch(`${API_BASE}/settings`);
@@ -115,6 +171,111 @@ export const fetchAdminImages = async (): Promise<AdminImageRecord[]> => {
   }
 };
 
+export const searchAdminImages = async (params: AdminSearchParams): Promise<{ ok: boolean; total?: number; images?: AdminImageRecord[]; message?: string }> => {
+  try {
+    const query = new URLSearchParams();
+    if (params.q) query.set('q', params.q);
+    if (params.mediaType) query.set('mediaType', params.mediaType);
+    if (params.active !== undefined) query.set('active', String(params.active));
+    if (params.from) query.set('from', params.from);
+    if (params.to) query.set('to', params.to);
+    if (params.tags?.length) query.set('tags', params.tags.join(','));
+    if (params.limit) query.set('limit', String(params.limit));
+    if (params.offset) query.set('offset', String(params.offset));
+    const res = await fetch(`${API_BASE}/admin/search?${query}`, {
+      headers: getAuthHeaders()
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    const data = await res.json().catch(() => ({}));
+    return res.ok ? { ok: true, ...data } : { ok: false, message: data?.message };
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return { ok: false, message: 'Request failed' };
+  }
+};
+
+export const fetchAdminTags = async (): Promise<{ tag: string; count: number }[]> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/tags`, {
+      headers: getAuthHeaders()
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    if (!res.ok) return [];
+    return await res.json();
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return [];
+  }
+};
+
+export const updateAdminImageDetails = async (
+  id: string,
+  details: {
+    caption?: string | null;
+    tags?: string[];
+    featured?: boolean;
+    publishAt?: string | null;
+    expireAt?: string | null;
+    visibility?: Visibility;
+    passphrase?: string | null;
+  }
+): Promise<{
+  ok: boolean;
+  caption?: string | null;
+  tags?: string[];
+  featured?: boolean;
+  publishAt?: string | null;
+  expireAt?: string | null;
+  visibility?: Visibility;
+  hasPassphrase?: boolean;
+  message?: string;
+}> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/images/${id}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(details)
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    const data = await res.json().catch(() => ({}));
+    return res.ok ? { ok: true, ...data } : { ok: false, message: data?.message };
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return { ok: false, message: 'Request failed' };
+  }
+};
+
+/** Signed link (site-relative path) that opens a protected record without the passphrase */
+export const createAdminShareLink = async (id: string, expiresInHours?: number): Promise<{ ok: boolean; path?: string; expiresAt?: string; message?: string }> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/images/${id}/share-link`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ expiresInHours })
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    const data = await res.json().catch(() => ({}));
+    return res.ok ? { ok: true, ...data } : { ok: false, message: data?.message };
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return { ok: false, message: 'Request failed' };
+  }
+};
+
+export const fetchAdminIdCapacity = async (): Promise<IdCapacity | null> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/ids/capacity`, {
+      headers: getAuthHeaders()
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    if (!res.ok) return null;
+    return await res.json();
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return null;
+  }
+};
+
 export const updateAdminSettings = async (settings: { displayDurationSec: number; cropPercent: number }): Promise<boolean> => {
   try {
     const res = await fetch(`${API_BASE}/admin/settings`, {
@@ -130,7 +291,7 @@ export const updateAdminSettings = async (settings: { displayDurationSec: number
   }
 };
 
-export const refreshAdminSync = async (): Promise<{ ok: boolean; newCount?: number; deactivatedCount?: number; reactivatedCount?: number; reason?: string; skipped?: boolean }> => {
+export const refreshAdminSync = async (): Promise<{ ok: boolean; newCount?: number; updatedCount?: number; deactivatedCount?: number; reactivatedCount?: number; complete?: boolean; reason?: string; skipped?: boolean; alreadyRunning?: boolean; running?: SyncRunProgress | null }> => {
   try {
     const res = await fetch(`${API_BASE}/admin/refresh`, {
       method: 'POST',
@@ -145,6 +306,38 @@ export const refreshAdminSync = async (): Promise<{ ok: boolean; newCount?: numb
   }
 };
 
+export const fetchAdminSyncRuns = async (params: { limit?: number; before?: number; eventful?: boolean } = {}): Promise<SyncRun[]> => {
+  try {
+    const query = new URLSearchParams();
+    if (params.limit) query.set('limit', String(params.limit));
+    if (params.before) query.set('before', String(params.before));
+    if (params.eventful) query.set('eventful', 'true');
+    const res = await fetch(`${API_BASE}/admin/sync-runs?${query.toString()}`, {
+      headers: getAuthHeaders()
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    if (!res.ok) return [];
+    return await res.json();
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return [];
+  }
+};
+
+export const fetchAdminSyncRun = async (id: number): Promise<SyncRunDetail | null> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/sync-runs/${id}`, {
+      headers: getAuthHeaders()
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    if (!res.ok) return null;
+    return await res.json();
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return null;
+  }
+};
+
 export const deactivateAdminImage = async (id: string): Promise<{ ok: boolean; message?: string }> => {
   try {
     const res = await fetch(`${API_BASE}/admin/images/${id}/deactivate`, {
@@ -175,10 +368,14 @@ export const activateAdminImage = async (id: string): Promise<{ ok: boolean; mes
   }
 };
 
-export const uploadAdminFiles = async (files: File[]): Promise<{ ok: boolean; uploaded?: number; skipped?: number; message?: string }> => {
+export const uploadAdminFiles = async (files: File[], archiveId?: string, publishAt?: string): Promise<{ ok: boolean; uploaded?: number; skipped?: { name: string; reason: string }[]; ids?: string[]; files?: { name: string; id: string; size: number; sha256: string; duplicateOf?: string }[]; errors?: string[]; message?: string }> => {
   try {
     const form = new FormData();
+    // Applies to every file after it, so it goes first
+    if (publishAt) form.append('publishAt', publishAt);
     files.forEach(file => {
+      // A chosen archive ID applies to the file that follows it
+      if (archiveId && files.length === 1) form.append('id', archiveId);
       form.append('files', file, file.name);
     });
     const res = await fetch(`${API_BASE}/admin/upload`, {
@@ -195,6 +392,275 @@ export const uploadAdminFiles = async (files: File[]): Promise<{ ok: boolean; up
   }
 };
 
+type DirectUploadPlan =
+  | { mode: 'put'; key: string; url: string; headers: Record<string, string> }
+  | { mode: 'multipart'; key: string; uploadId: string; partSize: number; parts: { partNumber: number; url: string }[] };
+
+/** Send a request with upload progress (fetch can't report it); resolves on any HTTP status, rejects on network errors. */
+const xhrSend = (method: string, url: string, body: Blob | null, headers: Record<string, string>, onProgress: (loaded: number) => void): Promise<XMLHttpRequest> => {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (e) => onProgress(e.loaded);
+    xhr.onload = () => resolve(xhr);
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.send(body);
+  });
+};
+
+/** PUT a blob to a presigned URL, reporting bytes sent; resolves with the response ETag. */
+const putWithProgress = async (url: string, body: Blob, headers: Record<string, string>, onProgress: (loaded: number) => void): Promise<string | null> => {
+  const xhr = await xhrSend('PUT', url, body, headers, onProgress);
+  if (xhr.status < 200 || xhr.status >= 300) {
+    throw new Error(`Storage rejected the upload (${xhr.status})`);
+  }
+  // Needs the bucket's CORS policy to expose ETag
+  return xhr.getResponseHeader('ETag');
+};
+
+/**
+ * Upload one file straight to the bucket with presigned URLs, then register it.
+ * `unsupported` means the backend can't issue presigned URLs (local storage); use uploadAdminFiles instead.
+ */
+export const uploadAdminFileDirect = async (
+  file: File,
+  archiveId: string | undefined,
+  onProgress: (loaded: number) => void,
+  publishAt?: string
+): Promise<{ ok: boolean; id?: string; duplicateOf?: string; message?: string; unsupported?: boolean }> => {
+  let plan: DirectUploadPlan | null = null;
+  try {
+    const res = await fetch(`${API_BASE}/admin/uploads/direct`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ filename: file.name, size: file.size, contentType: file.type || undefined, id: archiveId, publishAt })
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    const data = await res.json().catch(() => ({}));
+    if (res.status === 501) return { ok: false, unsupported: true };
+    if (!res.ok) return { ok: false, message: data?.message || 'Upload failed' };
+    plan = data as DirectUploadPlan;
+
+    let parts: { partNumber: number; etag: string }[] | undefined;
+    if (plan.mode === 'put') {
+      await putWithProgress(plan.url, file, plan.headers, onProgress);
+    } else {
+      parts = [];
+      for (const part of plan.parts) {
+        const start = (part.partNumber - 1) * plan.partSize;
+        const etag = await putWithProgress(part.url, file.slice(start, start + plan.partSize), {}, (loaded) => onProgress(start + loaded));
+        if (!etag) throw new Error('Storage did not return an ETag (check the bucket CORS ExposeHeaders)');
+        parts.push({ partNumber: part.partNumber, etag });
+      }
+    }
+    onProgress(file.size);
+
+    const done = await fetch(`${API_BASE}/admin/uploads/direct/complete`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ key: plan.key, uploadId: plan.mode === 'multipart' ? plan.uploadId : undefined, parts, id: archiveId })
+    });
+    if (done.status === 401) throw new Error('Unauthorized');
+    const result = await done.json().catch(() => ({}));
+    return done.ok ? { ok: true, id: result.id, duplicateOf: result.duplicateOf } : { ok: false, message: result?.message || 'Upload failed' };
+  } catch (e: any) {
+    if (plan?.mode === 'multipart') {
+      const { key, uploadId } = plan;
+      fetch(`${API_BASE}/admin/uploads/direct/abort`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ key, uploadId })
+      }).catch(() => undefined);
+    }
+    if (e.message === 'Unauthorized') throw e;
+    return { ok: false, message: e?.message || 'Upload failed' };
+  }
+};
+
+// --- Resumable (tus) uploads ---
+
+const TUS_CHUNK_SIZE = 5 * 1024 * 1024;
+const TUS_STORE_KEY = 'tus_uploads';
+// Matches the backend's default TUS_EXPIRE_HOURS
+const TUS_STORE_TTL_MS = 24 * 60 * 60 * 1000;
+const TUS_RETRY_DELAYS_MS = [1000, 3000, 5000, 10000, 20000, 30000];
+
+type TusStore = Record<string, { url: string; createdAt: number }>;
+
+/** Same file picked again (even after a reload) maps to the same unfinished upload */
+const tusFingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+const loadTusStore = (): TusStore => {
+  try {
+    const store: TusStore = JSON.parse(localStorage.getItem(TUS_STORE_KEY) || '{}');
+    const cutoff = Date.now() - TUS_STORE_TTL_MS;
+    return Object.fromEntries(Object.entries(store).filter(([, entry]) => entry.createdAt > cutoff));
+  } catch {
+    return {};
+  }
+};
+
+const saveTusStore = (store: TusStore) => {
+  localStorage.setItem(TUS_STORE_KEY, JSON.stringify(store));
+};
+
+/** Names of uploads interrupted earlier (e.g. by a reload) that can be resumed by picking the same files */
+export const getPendingResumableUploads = (): string[] => {
+  return Object.keys(loadTusStore()).map(fingerprint => fingerprint.split(':').slice(0, -2).join(':'));
+};
+
+const tusBase64 = (value: string) => btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+
+const tusHeaders = (extra: Record<string, string> = {}) => ({ ...getAuthHeaders(false), 'Tus-Resumable': '1.0.0', ...extra });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** How long a 429 asks us to wait: Retry-After in seconds or as an HTTP date, else the first retry delay */
+const retryAfterMs = (value: string | null) => {
+  if (value && /^\d+$/.test(value)) return Number(value) * 1000;
+  const date = value ? Date.parse(value) : NaN;
+  return Number.isNaN(date) ? TUS_RETRY_DELAYS_MS[0] : Math.max(0, date - Date.now());
+};
+
+/** fetch, waiting out rate limiting (429) for as long as the server asks */
+const fetchPatiently = async (url: string, init: RequestInit): Promise<Response> => {
+  while (true) {
+    const res = await fetch(url, init);
+    if (res.status !== 429) return res;
+    await sleep(retryAfterMs(res.headers.get('Retry-After')));
+  }
+};
+
+/** Wait out a network drop: the retry delay, then until the browser reports being online */
+const waitForNetwork = async (attempt: number) => {
+  await sleep(TUS_RETRY_DELAYS_MS[Math.min(attempt, TUS_RETRY_DELAYS_MS.length - 1)]);
+  if (!navigator.onLine) {
+    await new Promise(resolve => window.addEventListener('online', resolve, { once: true }));
+  }
+};
+
+/**
+ * Upload one file with the tus protocol (/api/admin/tus). Survives network loss (waits and resumes
+ * from the server's offset) and page reloads (picking the same file again continues where it stopped).
+ */
+export const uploadAdminFileResumable = async (
+  file: File,
+  archiveId: string | undefined,
+  onProgress: (loaded: number) => void,
+  publishAt?: string
+): Promise<{ ok: boolean; id?: string; duplicateOf?: string; message?: string }> => {
+  const fingerprint = tusFingerprint(file);
+  const forget = () => {
+    const store = loadTusStore();
+    delete store[fingerprint];
+    saveTusStore(store);
+  };
+
+  // Current server offset, or null if the upload is unknown/expired
+  const head = async (url: string): Promise<{ offset: number; id: string | null } | null> => {
+    const res = await fetchPatiently(url, { method: 'HEAD', headers: tusHeaders() });
+    if (res.status === 401) throw new Error('Unauthorized');
+    if (!res.ok) return null;
+    return { offset: Number(res.headers.get('Upload-Offset') || 0), id: res.headers.get('X-Archive-Id') };
+  };
+
+  try {
+    let url: string | null = loadTusStore()[fingerprint]?.url ?? null;
+    let offset = 0;
+    if (url) {
+      const state = await head(url).catch(() => null);
+      if (state?.id) {
+        forget();
+        onProgress(file.size);
+        return { ok: true, id: state.id };
+      }
+      if (state) offset = state.offset;
+      else url = null;
+    }
+
+    if (!url) {
+      const metadata = [['filename', file.name], ['filetype', file.type], ['archiveId', archiveId ?? ''], ['publishAt', publishAt ?? '']]
+        .filter(([, value]) => value)
+        .map(([key, value]) => `${key} ${tusBase64(value)}`)
+        .join(',');
+      const res = await fetchPatiently(`${API_BASE}/admin/tus`, {
+        method: 'POST',
+        headers: tusHeaders({ 'Upload-Length': String(file.size), 'Upload-Metadata': metadata })
+      });
+      if (res.status === 401) throw new Error('Unauthorized');
+      const location = res.headers.get('Location');
+      if (!res.ok || !location) {
+        const data = await res.json().catch(() => ({}));
+        return { ok: false, message: data?.message || 'Upload failed' };
+      }
+      url = new URL(location, API_ORIGIN || window.location.origin).toString();
+      saveTusStore({ ...loadTusStore(), [fingerprint]: { url, createdAt: Date.now() } });
+    }
+
+    let attempt = 0;
+    while (true) {
+      onProgress(offset);
+      const chunk = file.slice(offset, offset + TUS_CHUNK_SIZE);
+      let xhr: XMLHttpRequest | null = null;
+      try {
+        xhr = await xhrSend('PATCH', url, chunk, tusHeaders({
+          'Upload-Offset': String(offset),
+          'Content-Type': 'application/offset+octet-stream'
+        }), (loaded) => onProgress(offset + loaded));
+      } catch {
+        // Network error: fall through to the retry below
+      }
+
+      if (xhr?.status === 401) throw new Error('Unauthorized');
+      if (xhr?.status === 429) {
+        // Rate limited before the chunk was read: wait as asked and send it again
+        await sleep(retryAfterMs(xhr.getResponseHeader('Retry-After')));
+        continue;
+      }
+      if (xhr?.status === 204) {
+        attempt = 0;
+        offset = Number(xhr.getResponseHeader('Upload-Offset') || offset + chunk.size);
+        const id = xhr.getResponseHeader('X-Archive-Id');
+        if (id) {
+          forget();
+          onProgress(file.size);
+          return { ok: true, id, duplicateOf: xhr.getResponseHeader('X-Duplicate-Of') || undefined };
+        }
+        continue;
+      }
+      if (xhr && (xhr.status === 404 || xhr.status === 410)) {
+        forget();
+        return { ok: false, message: 'Upload expired, please try again' };
+      }
+      if (xhr && xhr.status >= 400 && xhr.status < 500 && xhr.status !== 409) {
+        let message = 'Upload failed';
+        try {
+          message = JSON.parse(xhr.responseText)?.message || message;
+        } catch { }
+        forget();
+        return { ok: false, message };
+      }
+
+      // Network loss, 5xx or offset conflict: wait, ask the server where it got to, continue from there
+      if (attempt >= TUS_RETRY_DELAYS_MS.length * 2) {
+        return { ok: false, message: 'Connection lost; pick the same file again to resume' };
+      }
+      await waitForNetwork(attempt++);
+      const state = await head(url).catch(() => null);
+      if (state?.id) {
+        forget();
+        onProgress(file.size);
+        return { ok: true, id: state.id };
+      }
+      if (state) offset = state.offset;
+    }
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return { ok: false, message: 'Upload failed; pick the same file again to resume' };
+  }
+};
+
 export const uploadAdminMusic = async (file: File): Promise<{ ok: boolean; musicUrl?: string; message?: string }> => {
   try {
     const form = new FormData();
@@ -213,6 +679,82 @@ export const uploadAdminMusic = async (file: File): Promise<{ ok: boolean; music
   }
 };
 
+export const reprocessAdminImage = async (id: string): Promise<{ ok: boolean; message?: string }> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/images/${id}/reprocess`, {
+      method: 'POST',
+      headers: getAuthHeaders(false)
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    const data = await res.json().catch(() => ({}));
+    return res.ok ? { ok: true } : { ok: false, message: data?.message };
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return { ok: false, message: 'Request failed' };
+  }
+};
+
+export const reassignAdminImage = async (id: string, newId: string): Promise<{ ok: boolean; id?: string; message?: string }> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/images/${id}/reassign`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ newId })
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    const data = await res.json().catch(() => ({}));
+    return res.ok ? { ok: true, ...data } : { ok: false, message: data?.message };
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return { ok: false, message: 'Request failed' };
+  }
+};
+
+export const fetchAdminReservedIds = async (): Promise<ReservedId[]> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/ids/reserved`, {
+      headers: getAuthHeaders()
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    if (!res.ok) return [];
+    return await res.json();
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return [];
+  }
+};
+
+export const reserveAdminIds = async (ids: string[], reason?: string): Promise<{ ok: boolean; reserved?: string[]; rejected?: string[]; message?: string }> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/ids/reserved`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ ids, reason })
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    const data = await res.json().catch(() => ({}));
+    return res.ok ? { ok: true, ...data } : { ok: false, message: data?.message };
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return { ok: false, message: 'Request failed' };
+  }
+};
+
+export const releaseAdminReservedId = async (id: string): Promise<{ ok: boolean; message?: string }> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/ids/reserved/${id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(false)
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    const data = await res.json().catch(() => ({}));
+    return res.ok ? { ok: true } : { ok: false, message: data?.message };
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return { ok: false, message: 'Request failed' };
+  }
+};
+
 export const deleteAdminImage = async (id: string): Promise<{ ok: boolean; message?: string }> => {
   try {
     const res = await fetch(`${API_BASE}/admin/images/${id}`, {
@@ -228,6 +770,69 @@ export const deleteAdminImage = async (id: string): Promise<{ ok: boolean; messa
   }
 };
 
+export const fetchAdminCollections = async (): Promise<AdminCollection[]> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/collections`, {
+      headers: getAuthHeaders()
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    if (!res.ok) return [];
+    return await res.json();
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return [];
+  }
+};
+
+type CollectionFields = { title: string; slug?: string; description?: string | null; coverImageId?: string | null; imageIds?: string[] };
+
+export const createAdminCollection = async (fields: CollectionFields): Promise<{ ok: boolean; collection?: AdminCollection; message?: string }> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/collections`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(fields)
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    const data = await res.json().catch(() => ({}));
+    return res.ok ? { ok: true, ...data } : { ok: false, message: data?.message };
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return { ok: false, message: 'Request failed' };
+  }
+};
+
+export const updateAdminCollection = async (id: number, fields: Partial<CollectionFields>): Promise<{ ok: boolean; collection?: AdminCollection; message?: string }> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/collections/${id}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(fields)
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    const data = await res.json().catch(() => ({}));
+    return res.ok ? { ok: true, ...data } : { ok: false, message: data?.message };
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return { ok: false, message: 'Request failed' };
+  }
+};
+
+export const deleteAdminCollection = async (id: number): Promise<{ ok: boolean; message?: string }> => {
+  try {
+    const res = await fetch(`${API_BASE}/admin/collections/${id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(false)
+    });
+    if (res.status === 401) throw new Error('Unauthorized');
+    const data = await res.json().catch(() => ({}));
+    return res.ok ? { ok: true } : { ok: false, message: data?.message };
+  } catch (e: any) {
+    if (e.message === 'Unauthorized') throw e;
+    return { ok: false, message: 'Request failed' };
+  }
+};
+
 // --- Contact ---
 export const sendContact = async (data: { email: string; message: string }): Promise<{ ok: boolean; error?: string }> => {
   try {
@@ -0,0 +1,58 @@
+import { ImageRecord, ImageVariant } from '../types';
+
+// 1x1 AVIF probe; until it resolves we assume no support and serve WebP
+let avifSupported = false;
+let webmSupported = false;
+if (typeof window !== 'undefined') {
+  webmSupported = document.createElement('video').canPlayType('video/webm; codecs="vp9, opus"') !== '';
+  const probe = new Image();
+  probe.onload = () => { avifSupported = probe.width > 0; };
+  probe.onerror = () => { avifSupported = false; };
+  probe.src = 'data:image/avif;base64,AAAAIGZ0eXBhdmlmAAAAAGF2aWZtaWYxbWlhZk1BMUIAAADybWV0YQAAAAAAAAAoaGRscgAAAAAAAAAAcGljdAAAAAAAAAAAAAAAAGxpYmF2aWYAAAAADnBpdG0AAAAAAAEAAAAeaWxvYwAAAABEAAABAAEAAAABAAABGgAAAB0AAAAoaWluZgAAAAAAAQAAABppbmZlAgAAAAABAABhdjAxQ29sb3IAAAAAamlwcnAAAABLaXBjbwAAABRpc3BlAAAAAAAAAAIAAAACAAAAEHBpeGkAAAAAAwgICAAAAAxhdjFDgQ0MAAAAABNjb2xybmNseAACAAIAAYAAAAAXaXBtYQAAAAAAAAABAAEEAQKDBAAAACVtZGF0EgAKCBgANogQEAwgMg8f8D///8WfhwB8+ErK42A=';
+}
+
+const formatPreference = (): string[] =>
+  avifSupported ? ['avif', 'webp', 'jpeg'] : ['webp', 'jpeg'];
+
+/** Physical pixel width of the viewport (what a full-bleed slide needs). */
+export const viewportPixelWidth = (): number => {
+  if (typeof window === 'undefined') return 1920;
+  return Math.round(window.innerWidth * (window.devicePixelRatio || 1));
+};
+
+/**
+ * Picks the best-fitting derivative for a record.
+ * - Prefers AVIF when the browser decodes it, then WebP, then JPEG.
+ * - Chooses the smallest width that still covers the requested size.
+ * - Falls back to the original URL when no variants exist yet (or for videos).
+ */
+export const selectVariant = (record: ImageRecord, targetWidth: number): ImageVariant | null => {
+  const variants = record.variants ?? [];
+  if (record.mediaType !== 'IMAGE' || variants.length === 0) return null;
+
+  for (const format of formatPreference()) {
+    const candidates = variants
+      .filter(v => v.format === format)
+      .sort((a, b) => a.width - b.width);
+    if (!candidates.length) continue;
+    return candidates.find(v => v.width >= targetWidth) ?? candidates[candidates.length - 1];
+  }
+  return null;
+};
+
+export const getDisplayUrl = (record: ImageRecord, targetWidth = viewportPixelWidth()): string => {
+  return selectVariant(record, targetWidth)?.url ?? record.url;
+};
+
+/** Web rendition to play (WebM when available and supported, else H.264/MP4); the original until one exists. */
+export const getVideoUrl = (record: ImageRecord): string => {
+  const renditions = record.renditions ?? [];
+  const rendition = (webmSupported && renditions.find(r => r.format === 'webm')) || renditions.find(r => r.format === 'mp4');
+  return rendition?.url ?? record.url;
+};
+
+/** What to fetch first for a record: a video's poster (shows instantly), otherwise the display image. */
+export const getPreloadUrl = (record: ImageRecord): string => {
+  if (record.mediaType === 'VIDEO') return record.posterUrl ?? getVideoUrl(record);
+  return getDisplayUrl(record);
+};
@@ -0,0 +1,55 @@
+import { ImageRecord, PlaylistWeight } from '../types';
+import { fetchPlaylistPage } from './api';
+
+const PAGE_SIZE = 50;
+// Fetch the next page once fewer than this many items are left, so the slideshow never waits
+const LOW_WATER = 10;
+
+export interface Playlist {
+  /** The seed in use (server-chosen unless one was given); null until the first page arrives */
+  seed: () => string | null;
+  /** Next item of the shuffle, or null when the server can't be reached (callers fall back to the local list) */
+  next: () => Promise<ImageRecord | null>;
+}
+
+/**
+ * Client side of GET /api/playlist: walks the seeded shuffle page by page, fetching ahead
+ * in the background. Every item is shown once before anything repeats.
+ */
+export const createPlaylist = (options: { seed?: string | null; weight?: PlaylistWeight } = {}): Playlist => {
+  let seed = options.seed ?? null;
+  let offset = 0;
+  let empty = false;
+  let pending: Promise<void> | null = null;
+  const buffer: ImageRecord[] = [];
+
+  const fill = (): Promise<void> => {
+    if (!pending && !empty) {
+      pending = fetchPlaylistPage({ seed, weight: options.weight, offset, limit: PAGE_SIZE })
+        .then(page => {
+          seed = page.seed;
+          offset = page.nextOffset;
+          buffer.push(...page.items);
+          // Nothing active in the archive; stop asking
+          if (!page.total) empty = true;
+        })
+        .catch(err => {
+          console.warn('[Playlist] Failed to fetch page:', err);
+        })
+        .finally(() => {
+          pending = null;
+        });
+    }
+    return pending ?? Promise.resolve();
+  };
+
+  return {
+    seed: () => seed,
+    next: async () => {
+      if (!buffer.length) await fill();
+      const item = buffer.shift() ?? null;
+      if (buffer.length < LOW_WATER) void fill();
+      return item;
+    },
+  };
+};
@@ -4,12 +4,16 @@ import cors from '@fastify/cors';
 import rateLimit from '@fastify/rate-limit';
 import jwt from '@fastify/jwt';
 import multipart from '@fastify/multipart';
+import fastifyStatic from '@fastify/static';
 import { serializerCompiler, validatorCompiler, ZodTypeProvider } from 'fastify-type-provider-zod';
 import { env } from './config/env';
 import { publicRoutes } from './routes/public';
 import { adminRoutes } from './routes/admin';
 import { webhookRoutes } from './routes/webhook';
 import { contactRoutes } from './routes/contact';
+import { getStorageDriver } from './services/storage';
+import { LocalStorageDriver } from './services/localStorage';
+import { R2Service } from './services/r2';
 
 export const buildApp = () => {
     const app = fastify({
@@ -31,7 +35,9 @@ export const buildApp = () => {
                 'https://finalarchivemedia.com',
                 'https://www.finalarchivemedia.com'
             ],
-        credentials: true
+        credentials: true,
+        // Read by the admin panel's resumable (tus) and direct uploads
+        exposedHeaders: ['Location', 'Upload-Offset', 'Upload-Length', 'Upload-Expires', 'Tus-Resumable', 'X-Archive-Id', 'X-Duplicate-Of', 'Retry-After'],
     });
     app.register(rateLimit, {
         max: 100,
@@ -40,9 +46,11 @@ export const buildApp = () => {
 
     app.register(multipart, {
         limits: {
-            fileSize: 50 * 1024 * 1024, // 50MB per file
-            files: 25
-        }
+            fileSize: env.UPLOAD_MAX_FILE_MB * 1024 * 1024,
+            files: env.UPLOAD_MAX_FILES
+        },
+        // Upload routes report oversized files individually instead of failing the whole request
+        throwFileSizeLimit: false,
     });
 
     // Auth
@@ -53,6 +61,31 @@ export const buildApp = () => {
         },
     });
 
+    // Local storage driver: serve stored files the way the CDN would in production
+    const storage = getStorageDriver();
+    if (storage instanceof LocalStorageDriver) {
+        // LOCAL_STORAGE_PUBLIC_URL may be absolute (http://host/api/media); only its path is routed here
+        const mediaPath = new URL(env.LOCAL_STORAGE_PUBLIC_URL, 'http://localhost').pathname;
+        app.register(fastifyStatic, {
+            root: storage.root,
+            prefix: `${mediaPath.replace(/\/$/, '')}/`,
+            decorateReply: false,
+            // Originals kept back by the privacy step and unassembled tus chunks share the root but are
+            // never served. `send` URL-decodes the path once more, so check what it will actually open.
+            allowedPath: (pathName) => {
+                try {
+                    return R2Service.isServableKey(decodeURIComponent(pathName));
+                } catch {
+                    return false;
+                }
+            },
+            setHeaders: (res) => {
+                // Allow the frontend dev server (different origin) to embed media
+                res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+            },
+        });
+    }
+
     // Routes
     app.register(publicRoutes, { prefix: '/api' });
     app.register(contactRoutes, { prefix: '/api' });
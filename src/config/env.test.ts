@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseEnv } from './env';
+
+const base = {
+    DATABASE_URL: 'postgresql://test@localhost:5432/test',
+    ADMIN_PASSWORD: 'a',
+    JWT_SECRET: 'b',
+    WEBHOOK_SECRET: 'c',
+};
+
+const r2 = {
+    ...base,
+    ENABLE_R2_SYNC: 'true',
+    STORAGE_DRIVER: 'r2',
+    R2_ENDPOINT: 'https://account.r2.cloudflarestorage.com',
+    R2_ACCESS_KEY_ID: 'key',
+    R2_SECRET_ACCESS_KEY: 'secret',
+    R2_BUCKET: 'public-bucket',
+    R2_PRIVATE_BUCKET: 'private-bucket',
+    CDN_BASE_URL: 'https://cdn.example.com',
+};
+
+describe('parseEnv', () => {
+    it('accepts a complete R2 configuration', () => {
+        assert.equal(parseEnv(r2).R2_PRIVATE_BUCKET, 'private-bucket');
+    });
+
+    it('refuses to start on R2 without a private bucket', () => {
+        const { R2_PRIVATE_BUCKET: _, ...withoutPrivate } = r2;
+        assert.throws(() => parseEnv(withoutPrivate), /R2_PRIVATE_BUCKET/);
+        assert.throws(() => parseEnv({ ...r2, R2_PRIVATE_BUCKET: '' }), /R2_PRIVATE_BUCKET/);
+    });
+
+    it('does not need R2 settings with the local driver', () => {
+        assert.equal(parseEnv({ ...base, STORAGE_DRIVER: 'local' }).R2_PRIVATE_BUCKET, undefined);
+    });
+});
@@ -11,6 +11,12 @@ const baseSchema = z.object({
     ADMIN_PASSWORD: z.string().min(1),
     JWT_SECRET: z.string().min(1),
     WEBHOOK_SECRET: z.string().min(1),
+    // Previous secret, still accepted while senders rotate to WEBHOOK_SECRET
+    WEBHOOK_SECRET_PREVIOUS: z.string().min(1).optional(),
+    // 'signed' = HMAC signatures only; 'either' also accepts the legacy static x-webhook-secret header (opt in while migrating senders)
+    WEBHOOK_AUTH_MODE: z.enum(['signed', 'either']).default('signed'),
+    // Max clock skew (seconds) between a signed webhook's timestamp and now
+    WEBHOOK_TOLERANCE_SEC: z.string().default('300').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(1)),
     // Comma-separated list of allowed origins for CORS (frontend domains)
     CORS_ORIGINS: z.string().optional().transform((s) => {
         if (!s) return undefined;
@@ -19,6 +25,68 @@ const baseSchema = z.object({
     }),
     // Default to false if not provided or anything other than 'true'
     ENABLE_R2_SYNC: z.string().default('false').transform(s => s === 'true'),
+    // Storage backend: 'r2' (Cloudflare R2 / any S3 API) or 'local' (filesystem, for dev/CI)
+    STORAGE_DRIVER: z.enum(['r2', 'local']).default('r2'),
+    LOCAL_STORAGE_DIR: z.string().default('./storage'),
+    // Public URL prefix the local files are served from (relative works through the Vite proxy)
+    LOCAL_STORAGE_PUBLIC_URL: z.string().default('/api/media'),
+
+    // Admin uploads are streamed to storage; limits apply per request (files) and per file (size)
+    UPLOAD_MAX_FILE_MB: z.string().default('50').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(1)),
+    UPLOAD_MAX_FILES: z.string().default('25').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(1)),
+    // S3 multipart part size; also the most memory one upload holds at a time (S3 minimum is 5)
+    UPLOAD_PART_SIZE_MB: z.string().default('8').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(5)),
+
+    // Direct-to-bucket (presigned) uploads. Capped below 2 GiB because images.sizeBytes is a 32-bit column.
+    DIRECT_UPLOAD_MAX_MB: z.string().default('2000').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(1).max(2047)),
+    DIRECT_UPLOAD_PART_SIZE_MB: z.string().default('64').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(5)),
+    DIRECT_UPLOAD_URL_TTL_SEC: z.string().default('3600').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(60).max(604800)),
+
+    // tus resumable uploads: max size (same 32-bit limit) and how long an idle upload can be resumed
+    TUS_MAX_SIZE_MB: z.string().default('2000').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(1).max(2047)),
+    TUS_EXPIRE_HOURS: z.string().default('24').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(1)),
+
+    // Each sync run lists at most this many pages of 1000 keys, resuming from a saved cursor next run
+    SYNC_PAGES_PER_RUN: z.string().default('10').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(1)),
+    // Webhook events are retried with exponential backoff, then dead-lettered after this many attempts
+    WEBHOOK_MAX_ATTEMPTS: z.string().default('8').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(1)),
+    // Sync history older than this is pruned
+    SYNC_RUN_RETENTION_DAYS: z.string().default('30').transform((val) => parseInt(val, 10)),
+
+    // Image derivatives: comma-separated target widths and output formats (see services/derivatives.ts)
+    DERIVATIVE_WIDTHS: z.string().default('320,640,1280,1920,2560').transform((s) => {
+        return s.split(',').map(v => parseInt(v.trim(), 10)).filter(n => Number.isFinite(n) && n > 0).sort((a, b) => a - b);
+    }),
+    DERIVATIVE_FORMATS: z.string().default('avif,webp').transform((s) => {
+        return s.split(',').map(v => v.trim().toLowerCase()).filter((v): v is 'avif' | 'webp' | 'jpeg' => ['avif', 'webp', 'jpeg'].includes(v));
+    }),
+    // Video renditions (see services/videoRenditions.ts): shorter side cap, peak bitrate, optional VP9/WebM copy
+    VIDEO_RENDITION_SIZE: z.string().default('1080').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(144)),
+    VIDEO_MAX_BITRATE_KBPS: z.string().default('4000').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(100)),
+    VIDEO_WEBM: z.string().default('false').transform(s => s === 'true'),
+    // Duplicates (see services/duplicates.ts): what uploads do when the file is already archived, and the
+    // perceptual-hash distance (out of 64 bits) up to which two images count as the same picture
+    DUPLICATE_UPLOAD_POLICY: z.enum(['off', 'warn', 'skip', 'link']).default('off'),
+    DUPLICATE_PHASH_DISTANCE: z.string().default('6').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(0).max(64)),
+    // Playlist weighting (see services/playlist.ts): how much more likely a featured or brand-new item is
+    // to come early in each pass, and how fast the "recent" boost fades
+    PLAYLIST_WEIGHT_BOOST: z.string().default('3').transform((val) => parseFloat(val)).pipe(z.number().min(1)),
+    PLAYLIST_RECENT_HALF_LIFE_DAYS: z.string().default('30').transform((val) => parseFloat(val)).pipe(z.number().positive()),
+    // Protected records (see services/visibility.ts): how long an unlock by passphrase lasts
+    PROTECTED_UNLOCK_HOURS: z.string().default('24').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(1)),
+    // EXIF privacy policy applied before an original is published
+    PRIVACY_STRIP_GPS: z.string().default('true').transform(s => s === 'true'),
+    PRIVACY_STRIP_SERIALS: z.string().default('true').transform(s => s === 'true'),
+    PRIVACY_KEEP_CAPTURE_DATE: z.string().default('true').transform(s => s === 'true'),
+
+    // Archive IDs (see services/idGenerator.ts). Defaults match the original 5-digit scheme.
+    ID_LENGTH: z.string().default('5').transform((val) => parseInt(val, 10)).pipe(z.number().int().min(3).max(16)),
+    ID_ALPHABET: z.string().default('0123456789')
+        .refine(s => /^[0-9A-Za-z]+$/.test(s), 'ID_ALPHABET may only contain letters and digits')
+        .refine(s => s.length >= 2 && new Set(s).size === s.length, 'ID_ALPHABET needs at least 2 distinct characters'),
+    // Warn in the admin panel once this share of the ID space is used or reserved
+    ID_CAPACITY_WARN_PERCENT: z.string().default('80').transform((val) => parseFloat(val)),
+
     VITE_API_BASE_URL: z.string().url().optional(), // For frontend mostly, but good to know
 
     // Contact / Email (Resend recommended)
@@ -32,13 +100,16 @@ const r2Schema = z.object({
     R2_ACCESS_KEY_ID: z.string().min(1),
     R2_SECRET_ACCESS_KEY: z.string().min(1),
     R2_BUCKET: z.string().min(1),
+    // Separate bucket (no public access) for originals that must never be served: metadata the privacy
+    // policy strips, HEIC/RAW sources, hidden records. Required, so ingest can't fail on it later.
+    R2_PRIVATE_BUCKET: z.string().min(1),
     R2_PREFIX: z.string().optional().default(''),
     CDN_BASE_URL: z.string().url(),
 });
 
 // Combine and refine
 const envSchema = baseSchema.and(r2Schema.partial()).superRefine((data, ctx) => {
-    if (data.ENABLE_R2_SYNC) {
+    if (data.ENABLE_R2_SYNC && data.STORAGE_DRIVER === 'r2') {
         const result = r2Schema.safeParse(data);
         if (!result.success) {
             result.error.issues.forEach((issue) => {
@@ -48,8 +119,15 @@ const envSchema = baseSchema.and(r2Schema.partial()).superRefine((data, ctx) =>
     }
 });
 
-export const env = envSchema.parse(process.env) as z.infer<typeof baseSchema> & Partial<z.infer<typeof r2Schema>>;
+export type Env = z.infer<typeof baseSchema> & Partial<z.infer<typeof r2Schema>>;
+
+/** Validate a set of variables; throws (stopping startup) on anything missing or malformed. */
+export const parseEnv = (source: NodeJS.ProcessEnv): Env => envSchema.parse(source) as Env;
+
+export const env = parseEnv(process.env);
 
-if (!env.ENABLE_R2_SYNC) {
+if (env.STORAGE_DRIVER === 'local') {
+    console.warn(`⚠️  Using LOCAL storage driver at ${env.LOCAL_STORAGE_DIR}. Not for production.`);
+} else if (!env.ENABLE_R2_SYNC) {
     console.warn('⚠️  R2 Sync is DISABLED. Images will not be synced and webhook is inactive.');
 }
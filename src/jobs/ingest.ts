@@ -0,0 +1,162 @@
+import cron from 'node-cron';
+import { prisma } from '../utils/prisma';
+import { streamToBuffer } from '../utils/stream';
+import { DerivativeService } from '../services/derivatives';
+import { DuplicateService } from '../services/duplicates';
+import { ImageConverter } from '../services/imageConversion';
+import { MediaValidator } from '../services/mediaValidation';
+import { MetadataService } from '../services/metadata';
+import { PrivacyService } from '../services/privacy';
+import { VideoRenditionService } from '../services/videoRenditions';
+import { VisibilityService } from '../services/visibility';
+import { isStorageEnabled } from '../services/storage';
+
+// Give up on a record after this many failed pipeline runs (admin can reprocess manually)
+const MAX_ATTEMPTS = 3;
+
+// Synced and webhook-registered files that aren't what they claim to be: quarantined, not retried
+const invalidMedia = (reason: string) => Object.assign(new Error(`Invalid media: ${reason}`), { invalid: true });
+
+const queue: string[] = [];
+const inFlight = new Set<string>();
+let draining = false;
+
+/**
+ * Run the ingestion pipeline for a single record: metadata extraction, EXIF privacy (and, for hidden
+ * records, moving the original out of public reach), then derivatives (poster frame and transcoded
+ * renditions for videos).
+ * Errors are recorded on the row instead of thrown so one bad file can't stall the queue; a file that
+ * fails content validation is also deactivated (quarantined).
+ */
+export const processImage = async (imageId: string) => {
+    try {
+        const image = await prisma.image.findUnique({
+            where: { id: imageId },
+            select: {
+                originalKey: true, privateKey: true, mediaType: true, quarantinedAt: true,
+                visibility: true, publishAt: true, mediaToken: true,
+            },
+        });
+        if (!image) return;
+
+        // Hidden records from before media tokens: files are regenerated under one below
+        if (!image.mediaToken && VisibilityService.isHidden(image)) {
+            await prisma.image.update({ where: { id: imageId }, data: { mediaToken: VisibilityService.newMediaToken() } });
+        }
+
+        if (image.mediaType === 'IMAGE') {
+            // Download once and share the bytes between steps
+            const original = await streamToBuffer(await PrivacyService.openOriginal(image));
+            // Synced and webhook-registered files skip the upload checks; validate and record the real type here
+            const validated = await MediaValidator.checkImage(image.originalKey, original);
+            if (!validated.ok) {
+                throw invalidMedia(validated.reason);
+            }
+            // HEIC/RAW: every later step works on a converted JPEG; the original is never modified
+            const source = await ImageConverter.toDisplayable(image.originalKey, original);
+            await prisma.image.update({
+                where: { id: imageId },
+                data: {
+                    contentType: validated.detected.contentType,
+                    sha256: DuplicateService.contentHash(original),
+                    phash: await DuplicateService.perceptualHash(source),
+                },
+            });
+            await MetadataService.extractAndStore(imageId, original, source);
+            await PrivacyService.applyToImage(imageId, original, source);
+            await DerivativeService.generateForImage(imageId, source);
+        } else {
+            const validated = await MediaValidator.checkStream(image.originalKey, await PrivacyService.openOriginal(image));
+            if (!validated.ok) {
+                throw invalidMedia(validated.reason);
+            }
+            await prisma.image.update({ where: { id: imageId }, data: { contentType: validated.detected.contentType } });
+            await PrivacyService.applyToVideo(imageId);
+            await MetadataService.extractAndStore(imageId);
+            await VideoRenditionService.generateForVideo(imageId);
+        }
+
+        await prisma.image.update({
+            where: { id: imageId },
+            data: {
+                processedAt: new Date(),
+                processingError: null,
+                processingAttempts: { increment: 1 },
+                // A replacement for a quarantined file passed: it's back
+                ...(image.quarantinedAt ? { quarantinedAt: null, isActive: true } : {}),
+            },
+        });
+    } catch (err: any) {
+        console.error(`Ingest failed for image ${imageId}:`, err);
+        await prisma.image.updateMany({
+            where: { id: imageId },
+            data: {
+                processingError: String(err?.message ?? err).slice(0, 500),
+                // Retrying won't change the file; sync/webhooks leave it inactive until it's replaced
+                ...(err?.invalid
+                    ? { isActive: false, quarantinedAt: new Date(), processingAttempts: MAX_ATTEMPTS }
+                    : { processingAttempts: { increment: 1 } }),
+            },
+        }).catch(() => { /* record may have been deleted meanwhile */ });
+    }
+};
+
+const drain = async () => {
+    if (draining) return;
+    draining = true;
+    try {
+        while (queue.length) {
+            const imageId = queue.shift()!;
+            inFlight.add(imageId);
+            try {
+                await processImage(imageId);
+            } finally {
+                inFlight.delete(imageId);
+            }
+        }
+    } finally {
+        draining = false;
+    }
+};
+
+/** Queue an image for background processing. Processing is sequential to keep memory bounded. */
+export const enqueueIngest = (imageId: string) => {
+    if (queue.includes(imageId) || inFlight.has(imageId)) return;
+    queue.push(imageId);
+    void drain();
+};
+
+/** Pick up records that were never processed (e.g. created before a restart, or before this pipeline existed). */
+export const processPendingIngest = async (limit = 10): Promise<number> => {
+    const pending = await prisma.image.findMany({
+        where: {
+            processingAttempts: { lt: MAX_ATTEMPTS },
+            // Images processed before the privacy step existed stay off public routes until it has run;
+            // hidden records from before media tokens still have files at keys derived from their ID
+            OR: [
+                { processedAt: null },
+                { mediaType: 'IMAGE', privacyCheckedAt: null },
+                { mediaToken: null, visibility: { not: 'PUBLIC' } },
+                { mediaToken: null, publishAt: { gt: new Date() } },
+            ],
+        },
+        select: { id: true },
+        orderBy: { createdAt: 'asc' },
+        take: limit,
+    });
+    pending.forEach((img) => enqueueIngest(img.id));
+    return pending.length;
+};
+
+export const startIngestScheduler = () => {
+    if (!isStorageEnabled()) {
+        return;
+    }
+    // Sweep every 2 minutes; small batches keep a single instance responsive
+    cron.schedule('*/2 * * * *', () => {
+        if (queue.length || inFlight.size) return;
+        void processPendingIngest().catch((err) => {
+            console.error('Error sweeping pending ingest:', err);
+        });
+    });
+};
@@ -0,0 +1,17 @@
+import cron from 'node-cron';
+import { ScheduleService } from '../services/schedule';
+
+export const startScheduleWatcher = () => {
+    // Every minute: record records going live or expiring (visibility itself never waits for this)
+    cron.schedule('* * * * *', () => {
+        void ScheduleService.recordTransitions()
+            .then((result) => {
+                if (result && (result.published || result.expired)) {
+                    console.log(`Schedule: ${result.published} published, ${result.expired} expired`);
+                }
+            })
+            .catch((err) => {
+                console.error('Error recording schedule transitions:', err);
+            });
+    });
+};
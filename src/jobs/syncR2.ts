@@ -1,126 +1,405 @@
 import cron from 'node-cron';
+import { Prisma } from '@prisma/client';
 import { R2Service } from '../services/r2';
 import { prisma } from '../utils/prisma';
 import { IdGenerator } from '../services/idGenerator';
 import { env } from '../config/env';
+import { isStorageEnabled, StorageObject } from '../services/storage';
+import { SyncRunRecorder, SyncTrigger } from '../services/syncRuns';
+import { Lease } from '../services/lease';
+import { ScheduleService } from '../services/schedule';
+import { VisibilityService } from '../services/visibility';
+import { enqueueIngest } from './ingest';
 
 export interface SyncResult {
     ok: boolean;
     skipped?: boolean;
     reason?: string;
     newCount: number;
+    updatedCount: number;
     deactivatedCount: number;
     reactivatedCount: number;
+    scannedCount?: number;
+    runId?: number;
+    // Set when another sync (in this or another instance) was already in progress
+    alreadyRunning?: boolean;
+    running?: SyncRunProgress | null;
+    // False when the run stopped at SYNC_PAGES_PER_RUN; the next run resumes from the cursor
+    complete?: boolean;
 }
 
-export const runSync = async (): Promise<SyncResult> => {
-    if (!env.ENABLE_R2_SYNC) {
-        console.log('Skipping R2 Sync (DISABLED)');
-        return {
-            ok: false,
-            skipped: true,
-            reason: 'R2 sync disabled',
-            newCount: 0,
-            deactivatedCount: 0,
-            reactivatedCount: 0,
-        };
+export interface SyncRunProgress {
+    id: number;
+    trigger: string;
+    startedAt: string;
+    scannedCount: number;
+    newCount: number;
+    updatedCount: number;
+    errorCount: number;
+}
+
+/** Persisted between runs in the settings table. */
+interface SyncCursor {
+    startAfter?: string;
+    lastCompletedAt?: string;
+}
+
+const SYNC_CURSOR_KEY = 'syncCursor';
+const SYNC_LEASE = 'sync';
+// Renewed every third of this while a run is active; a crashed holder blocks syncs for at most this long
+const SYNC_LEASE_TTL_MS = 90_000;
+const PAGE_SIZE = 1000;
+// Rows per statement/transaction when writing sync results
+const WRITE_BATCH = 200;
+
+const emptyResult = (fields: Partial<SyncResult>): SyncResult => ({
+    ok: false,
+    newCount: 0,
+    updatedCount: 0,
+    deactivatedCount: 0,
+    reactivatedCount: 0,
+    ...fields,
+});
+
+const chunk = <T>(items: T[], size = WRITE_BATCH): T[][] => {
+    const out: T[][] = [];
+    for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+    return out;
+};
+
+const loadCursor = async (): Promise<SyncCursor> => {
+    const setting = await prisma.settings.findUnique({ where: { key: SYNC_CURSOR_KEY } });
+    return (setting?.value as SyncCursor | undefined) ?? {};
+};
+
+const saveCursor = async (cursor: SyncCursor) => {
+    const value = cursor as Prisma.InputJsonObject;
+    await prisma.settings.upsert({
+        where: { key: SYNC_CURSOR_KEY },
+        update: { value },
+        create: { key: SYNC_CURSOR_KEY, value },
+    });
+};
+
+/** Whether a listed key is archive media; unsupported files are noted on the run so admins can see why they're missing. */
+const isSyncableKey = (key: string, run: SyncRunRecorder) => {
+    if (env.R2_PREFIX && !key.startsWith(env.R2_PREFIX)) return false;
+    if (key.endsWith('/') || R2Service.isInternalKey(key)) return false;
+    if (R2Service.getMediaType(key) === null) {
+        run.skip(key, 'Unsupported file type');
+        return false;
     }
+    return true;
+};
 
-    console.log('Starting R2 Sync...');
+/**
+ * Apply per-row updates in one transaction per batch. If a batch fails, retry its rows one by
+ * one so a single bad row is reported against its key instead of sinking the whole batch.
+ */
+const updateInBatches = async (
+    items: { id: string; obj: StorageObject }[],
+    data: (obj: StorageObject) => Prisma.ImageUpdateInput,
+    run: SyncRunRecorder,
+): Promise<string[]> => {
+    const updated: string[] = [];
+    for (const batch of chunk(items)) {
+        try {
+            await prisma.$transaction(batch.map(({ id, obj }) => prisma.image.update({ where: { id }, data: data(obj) })));
+            updated.push(...batch.map(item => item.id));
+        } catch {
+            for (const { id, obj } of batch) {
+                try {
+                    await prisma.image.update({ where: { id }, data: data(obj) });
+                    updated.push(id);
+                } catch (err) {
+                    run.error(obj.key, err);
+                }
+            }
+        }
+    }
+    return updated;
+};
+
+/**
+ * Reconcile the bucket with the images table.
+ *
+ * Each run lists up to SYNC_PAGES_PER_RUN pages starting after the saved cursor, so a large
+ * bucket is walked over several runs. Only rows whose keys fall inside the listed range are
+ * considered for deactivation. ETags are stored per object: a changed ETag on a known key means
+ * the file was replaced, and the record is sent back through the ingestion pipeline.
+ */
+const syncWindow = async (run: SyncRunRecorder, lease: Lease): Promise<SyncResult> => {
     const r2 = new R2Service();
+    // Stop before writing if we stalled long enough for another instance to take over
+    const assertLease = () => {
+        if (lease.isLost) throw new Error('Sync lease lost to another instance');
+    };
 
     try {
-        const objects = await r2.listAllObjects(env.R2_PREFIX);
-
-        // Get all existing images from database
-        const existingImages = await prisma.image.findMany({
-            select: { originalKey: true, isActive: true }
-        });
-        const existingKeys = new Set(existingImages.map(i => i.originalKey));
-        
-        // Get all keys currently in R2
-        const r2Keys = new Set<string>();
-        for (const obj of objects) {
-            if (!obj.Key) continue;
-            if (env.R2_PREFIX && !obj.Key.startsWith(env.R2_PREFIX)) continue;
-            const mediaType = R2Service.getMediaType(obj.Key);
-            if (!mediaType) continue;
-            r2Keys.add(obj.Key);
+        const cursor = await loadCursor();
+        const rangeStart = cursor.startAfter;
+
+        // Taken before listing, so rows registered by a webhook mid-run are never mistaken for missing objects
+        const listedAt = new Date();
+
+        // 1. List one window of the bucket
+        const listed: StorageObject[] = [];
+        let startAfter = rangeStart;
+        let pages = 0;
+        do {
+            const page = await r2.listObjectsPage(env.R2_PREFIX, startAfter, PAGE_SIZE);
+            listed.push(...page.objects);
+            startAfter = page.nextStartAfter && R2Service.skipInternalDir(page.nextStartAfter);
+            pages++;
+        } while (startAfter && pages < env.SYNC_PAGES_PER_RUN);
+
+        const complete = !startAfter;
+        const rangeEnd = complete ? undefined : startAfter;
+
+        const objects = listed.filter(obj => isSyncableKey(obj.key, run));
+        await run.progress({ scannedCount: listed.length });
+        const seenKeys = objects.map(obj => obj.key);
+
+        const existingByKey = new Map<string, { id: string; privateKey: string | null; isActive: boolean; quarantinedAt: Date | null; etag: string | null }>();
+        for (const keys of chunk(seenKeys, PAGE_SIZE)) {
+            const rows = await prisma.image.findMany({
+                where: { originalKey: { in: keys } },
+                select: { id: true, originalKey: true, privateKey: true, isActive: true, quarantinedAt: true, etag: true },
+            });
+            rows.forEach(({ originalKey, ...img }) => existingByKey.set(originalKey, img));
         }
 
-        let newCount = 0;
-        let deactivatedCount = 0;
-        let reactivatedCount = 0;
+        // 2. Diff against the database
+        const toCreate: StorageObject[] = [];
+        const toReactivate: string[] = [];
+        const replaced: { id: string; obj: StorageObject }[] = [];
+        const touched: { id: string; obj: StorageObject }[] = [];
+        const resurfaced: string[] = [];
 
-        // Add new images from R2
         for (const obj of objects) {
-            if (!obj.Key) continue;
-
-            if (env.R2_PREFIX && !obj.Key.startsWith(env.R2_PREFIX)) continue;
-
-            const mediaType = R2Service.getMediaType(obj.Key);
-            if (!mediaType) continue;
-
-            if (!existingKeys.has(obj.Key)) {
-                // We trust env.CDN_BASE_URL is present because of refine logic + ENABLE_R2_SYNC check
-                const url = `${env.CDN_BASE_URL}/${obj.Key}`;
-                await IdGenerator.createImageRecord({
-                    originalKey: obj.Key,
-                    url: url,
-                    mediaType,
-                    sizeBytes: obj.Size,
-                });
-                newCount++;
-            } else {
-                // Reactivate if it was previously deactivated but now exists in R2
-                const existing = existingImages.find(img => img.originalKey === obj.Key);
-                if (existing && !existing.isActive) {
-                    await prisma.image.updateMany({
-                        where: { originalKey: obj.Key },
-                        data: { isActive: true }
+            const existing = existingByKey.get(obj.key);
+            if (!existing) {
+                toCreate.push(obj);
+                continue;
+            }
+            // Reactivate if it was previously deactivated but now exists in R2 (a quarantined file only via ingest, once replaced)
+            if (!existing.isActive && !existing.quarantinedAt) {
+                toReactivate.push(existing.id);
+            }
+            if (existing.etag && obj.etag && existing.etag !== obj.etag) {
+                replaced.push({ id: existing.id, obj });
+            } else if (existing.privateKey) {
+                // The privacy step moved this original to the private store. The same file put back
+                // (e.g. by a sync client) is removed again; one we can't compare is re-processed.
+                if (existing.etag && existing.etag === obj.etag) {
+                    resurfaced.push(obj.key);
+                } else {
+                    replaced.push({ id: existing.id, obj });
+                }
+            } else if (!existing.etag && obj.etag) {
+                // Rows created before ETags were tracked (or by upload/webhook): record without reprocessing
+                touched.push({ id: existing.id, obj });
+            }
+        }
+
+        // Active rows in the listed range whose object is gone. COLLATE "C" compares UTF-8 bytes like
+        // bucket listings do; originals moved to the private store are missing by design.
+        const missing = await prisma.$queryRaw<{ id: string }[]>`
+            SELECT "id" FROM "images"
+            WHERE "isActive" AND "privateKey" IS NULL AND "createdAt" <= ${listedAt}
+                ${rangeStart ? Prisma.sql`AND "originalKey" COLLATE "C" > ${rangeStart}` : Prisma.empty}
+                ${rangeEnd ? Prisma.sql`AND "originalKey" COLLATE "C" <= ${rangeEnd}` : Prisma.empty}
+                AND NOT ("originalKey" = ANY(${seenKeys}))
+        `;
+        const toDeactivate = missing.map(img => img.id);
+
+        // 3. Write in batches
+        assertLease();
+        let newCount = 0;
+        for (const batch of chunk(toCreate)) {
+            const data: Prisma.ImageCreateManyInput[] = [];
+            // Admin uploads the sync gets to before their own completion call
+            const staged = await ScheduleService.stagedPublishAt(batch.map(obj => obj.key));
+            for (const obj of batch) {
+                const publishAt = staged.get(obj.key);
+                try {
+                    data.push({
+                        id: await IdGenerator.allocateId(),
+                        originalKey: obj.key,
+                        url: r2.getPublicUrl(obj.key),
+                        mediaType: R2Service.getMediaType(obj.key)!,
+                        sizeBytes: obj.size,
+                        etag: obj.etag,
+                        lastModified: obj.lastModified,
+                        publishAt,
+                        scheduleState: publishAt ? ScheduleService.stateFor(publishAt, null) : undefined,
+                        mediaToken: VisibilityService.newMediaToken(),
                     });
-                    reactivatedCount++;
+                } catch (err) {
+                    run.error(obj.key, err);
+                }
+            }
+            try {
+                // skipDuplicates: a webhook may have registered the same key meanwhile
+                const created = await prisma.image.createMany({ data, skipDuplicates: true });
+                newCount += created.count;
+            } catch {
+                for (const row of data) {
+                    try {
+                        await prisma.image.create({ data: row });
+                        newCount++;
+                    } catch (err) {
+                        run.error(row.originalKey, err);
+                    }
                 }
             }
         }
+        if (toCreate.length) {
+            const pending = await prisma.image.findMany({
+                where: { originalKey: { in: toCreate.map(obj => obj.key) }, processedAt: null },
+                select: { id: true },
+            });
+            pending.forEach(img => enqueueIngest(img.id));
+        }
+
+        await run.progress({ scannedCount: listed.length, newCount });
+        assertLease();
+
+        let reactivatedCount = 0;
+        for (const ids of chunk(toReactivate)) {
+            const result = await prisma.image.updateMany({ where: { id: { in: ids } }, data: { isActive: true } });
+            reactivatedCount += result.count;
+        }
 
-        // Deactivate images that no longer exist in R2
-        for (const img of existingImages) {
-            if (!r2Keys.has(img.originalKey) && img.isActive) {
-                await prisma.image.updateMany({
-                    where: { originalKey: img.originalKey },
-                    data: { isActive: false }
-                });
-                deactivatedCount++;
+        let deactivatedCount = 0;
+        for (const ids of chunk(toDeactivate)) {
+            const result = await prisma.image.updateMany({ where: { id: { in: ids } }, data: { isActive: false } });
+            deactivatedCount += result.count;
+        }
+
+        const updatedIds = await updateInBatches(replaced, (obj) => ({
+            etag: obj.etag,
+            lastModified: obj.lastModified,
+            sizeBytes: obj.size,
+            metadataExtractedAt: null,
+            sha256: null,
+            phash: null,
+            processedAt: null,
+            processingError: null,
+            processingAttempts: 0,
+        }), run);
+        updatedIds.forEach(id => enqueueIngest(id));
+
+        await updateInBatches(touched, (obj) => ({
+            etag: obj.etag,
+            lastModified: obj.lastModified,
+            sizeBytes: obj.size,
+        }), run);
+
+        for (const key of resurfaced) {
+            try {
+                await r2.deleteObject(key);
+            } catch (err) {
+                run.error(key, err);
             }
         }
 
-        console.log(`Sync complete. Registered ${newCount} new images. Deactivated ${deactivatedCount} missing images. Reactivated ${reactivatedCount} images.`);
-        return {
-            ok: true,
+        assertLease();
+        await saveCursor(complete
+            ? { lastCompletedAt: new Date().toISOString() }
+            : { startAfter: rangeEnd, lastCompletedAt: cursor.lastCompletedAt });
+
+        const counts = {
             newCount,
+            updatedCount: updatedIds.length,
             deactivatedCount,
             reactivatedCount,
+            scannedCount: listed.length,
+            complete,
         };
+        await run.finish(counts);
+
+        console.log(`Sync ${complete ? 'complete' : `paused at ${rangeEnd}`}. Scanned ${listed.length} objects. Registered ${newCount} new images. Updated ${counts.updatedCount} replaced images. Deactivated ${deactivatedCount} missing images. Reactivated ${reactivatedCount} images.`);
+        return { ok: true, runId: run.id, ...counts };
 
     } catch (err) {
         console.error('Error during R2 Sync:', err);
-        return {
-            ok: false,
-            reason: 'Error during R2 Sync',
-            newCount: 0,
-            deactivatedCount: 0,
-            reactivatedCount: 0,
-        };
+        await run.finish({}, err);
+        return emptyResult({ reason: 'Error during R2 Sync', runId: run.id });
+    }
+};
+
+const findProgress = async (runId?: number | null): Promise<SyncRunProgress | null> => {
+    if (!runId) return null;
+    const run = await prisma.syncRun.findUnique({ where: { id: runId } });
+    if (!run) return null;
+    return {
+        id: run.id,
+        trigger: run.trigger,
+        startedAt: run.startedAt.toISOString(),
+        scannedCount: run.scannedCount,
+        newCount: run.newCount,
+        updatedCount: run.updatedCount,
+        errorCount: run.errorCount,
+    };
+};
+
+const alreadyRunning = async (runId?: number | null): Promise<SyncResult> => {
+    const running = await findProgress(runId).catch(() => null);
+    return emptyResult({ skipped: true, alreadyRunning: true, reason: 'Sync already running', running });
+};
+
+// Sync started by this process, if any (avoids a DB round-trip for overlapping local triggers)
+let localRunId: number | null | undefined;
+
+/**
+ * Run one sync pass unless another is already in progress anywhere in the cluster.
+ * Overlapping triggers (cron ticks, manual refreshes) are coalesced: they return immediately
+ * with `alreadyRunning` and the in-flight run's progress rather than queueing another pass.
+ */
+export const runSync = async (trigger: SyncTrigger = 'manual'): Promise<SyncResult> => {
+    if (!isStorageEnabled()) {
+        console.log('Skipping R2 Sync (DISABLED)');
+        return emptyResult({ skipped: true, reason: 'R2 sync disabled' });
+    }
+
+    if (localRunId !== undefined) {
+        return alreadyRunning(localRunId);
+    }
+    localRunId = null;
+
+    let lease: Lease | null = null;
+    try {
+        lease = await Lease.acquire(SYNC_LEASE, SYNC_LEASE_TTL_MS);
+        if (!lease) {
+            const holder = await Lease.inspect(SYNC_LEASE);
+            return alreadyRunning(holder?.runId);
+        }
+        lease.keepAlive();
+        if (lease.abandonedRunId) {
+            await SyncRunRecorder.markAbandoned(lease.abandonedRunId);
+        }
+
+        console.log('Starting R2 Sync...');
+        const run = await SyncRunRecorder.start(trigger);
+        localRunId = run.id;
+        await lease.attachRun(run.id);
+        return await syncWindow(run, lease);
+    } catch (err) {
+        console.error('Error during R2 Sync:', err);
+        return emptyResult({ reason: 'Error during R2 Sync' });
+    } finally {
+        localRunId = undefined;
+        await lease?.release();
     }
 };
 
 export const startScheduler = () => {
-    if (!env.ENABLE_R2_SYNC) {
+    if (!isStorageEnabled()) {
         return;
     }
     // Run every minute
     cron.schedule('* * * * *', () => {
-        void runSync();
+        void runSync('cron');
     });
 };
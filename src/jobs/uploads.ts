@@ -0,0 +1,19 @@
+import cron from 'node-cron';
+import { prisma } from '../utils/prisma';
+import { isStorageEnabled } from '../services/storage';
+import { ResumableUploads } from '../services/resumableUploads';
+
+export const startUploadCleanup = () => {
+    if (!isStorageEnabled()) {
+        return;
+    }
+    // Hourly: drop resumable uploads nobody came back for (TUS_EXPIRE_HOURS), and stale direct upload plans
+    cron.schedule('30 * * * *', () => {
+        void ResumableUploads.pruneExpired().catch((err) => {
+            console.error('Error pruning resumable uploads:', err);
+        });
+        void prisma.directUpload.deleteMany({ where: { expiresAt: { lt: new Date() } } }).catch((err) => {
+            console.error('Error pruning direct uploads:', err);
+        });
+    });
+};
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extractEvents } from './webhookEvents';
+
+const r2Notification = (action: string, key = 'photos/a.jpg') => ({
+    account: 'abc',
+    bucket: 'archive',
+    action,
+    object: { key, size: 2048, eTag: '"d41d8cd98f00b204"' },
+    eventTime: '2026-03-01T12:00:00.000Z',
+});
+
+const s3Notification = {
+    Records: [
+        {
+            eventName: 'ObjectCreated:Put',
+            eventTime: '2026-03-01T12:00:00.000Z',
+            s3: { object: { key: 'photos/summer+trip/%C3%A9t%C3%A9.jpg', size: 1024, eTag: 'abc123' } },
+        },
+        { eventName: 'ObjectRemoved:Delete', s3: { object: { key: 'photos/old.jpg' } } },
+        { eventName: 'ObjectRestore:Post', s3: { object: { key: 'photos/archived.jpg' } } },
+    ],
+};
+
+describe('extractEvents', () => {
+    it('reads R2 event notifications', () => {
+        assert.deepEqual(extractEvents(r2Notification('PutObject')), [{
+            key: 'photos/a.jpg',
+            change: 'created',
+            name: 'PutObject',
+            size: 2048,
+            etag: 'd41d8cd98f00b204',
+            eventTime: new Date('2026-03-01T12:00:00.000Z'),
+        }]);
+        assert.equal(extractEvents(r2Notification('LifecycleDeletion'))?.[0].change, 'removed');
+        assert.equal(extractEvents(r2Notification('CreateMultipartUpload'))?.[0].change, 'ignored');
+        // R2 keys are sent as-is, not URL-encoded
+        assert.equal(extractEvents(r2Notification('PutObject', 'photos/50%+off.jpg'))?.[0].key, 'photos/50%+off.jpg');
+    });
+
+    it('reads S3 notifications, decoding their keys', () => {
+        const events = extractEvents(s3Notification);
+        assert.deepEqual(events?.map(event => [event.key, event.change]), [
+            ['photos/summer trip/été.jpg', 'created'],
+            ['photos/old.jpg', 'removed'],
+            ['photos/archived.jpg', 'ignored'],
+        ]);
+        assert.equal(events?.[0].size, 1024);
+        assert.equal(events?.[0].etag, 'abc123');
+        assert.deepEqual(events?.[0].eventTime, new Date('2026-03-01T12:00:00.000Z'));
+    });
+
+    it('reads the simple { key } shape, defaulting to a creation', () => {
+        assert.deepEqual(extractEvents({ key: 'photos/b.jpg' }), [{ key: 'photos/b.jpg', change: 'created', name: undefined, size: undefined, etag: undefined, eventTime: undefined }]);
+        assert.equal(extractEvents({ key: 'photos/b.jpg', eventName: 'ObjectRemoved:Delete' })?.[0].change, 'removed');
+    });
+
+    it('flattens arrays and queue batches, including JSON-encoded bodies', () => {
+        const batch = {
+            messages: [
+                { id: '1', body: r2Notification('PutObject', 'photos/1.jpg') },
+                { id: '2', body: JSON.stringify(r2Notification('DeleteObject', 'photos/2.jpg')) },
+                { id: '3', body: s3Notification },
+            ],
+        };
+        assert.deepEqual(extractEvents(batch)?.map(event => event.key), ['photos/1.jpg', 'photos/2.jpg', 'photos/summer trip/été.jpg', 'photos/old.jpg', 'photos/archived.jpg']);
+        assert.deepEqual(extractEvents([{ key: 'a.jpg' }, { key: 'b.jpg' }])?.map(event => event.key), ['a.jpg', 'b.jpg']);
+        assert.deepEqual(extractEvents([]), []);
+    });
+
+    it('drops malformed sizes, etags and times instead of failing', () => {
+        const [event] = extractEvents({ key: 'a.jpg', size: -1, etag: 42, eventTime: 'yesterday' }) ?? [];
+        assert.equal(event.size, undefined);
+        assert.equal(event.etag, undefined);
+        assert.equal(event.eventTime, undefined);
+    });
+
+    it('rejects payloads it does not understand', () => {
+        for (const payload of [null, undefined, 42, '{not json', {}, { key: 7 }, { action: 'PutObject', object: {} }, { hello: 'world' }]) {
+            assert.equal(extractEvents(payload), null, JSON.stringify(payload));
+        }
+        // One bad message fails the whole batch rather than being silently dropped
+        assert.equal(extractEvents({ messages: [{ body: { key: 'a.jpg' } }, { body: 'garbage' }] }), null);
+        assert.equal(extractEvents([{ key: 'a.jpg' }, { nope: true }]), null);
+    });
+});
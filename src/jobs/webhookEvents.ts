@@ -0,0 +1,401 @@
+import cron from 'node-cron';
+import { Prisma } from '@prisma/client';
+import { env } from '../config/env';
+import { prisma } from '../utils/prisma';
+import { IdGenerator } from '../services/idGenerator';
+import { R2Service } from '../services/r2';
+import { ScheduleService } from '../services/schedule';
+import { isStorageEnabled } from '../services/storage';
+import { SyncRunRecorder, SyncRunCounts } from '../services/syncRuns';
+import { WebhookAuth } from '../services/webhookAuth';
+import { enqueueIngest } from './ingest';
+
+// Backoff: 10s, 20s, 40s ... capped at an hour
+const RETRY_BASE_MS = 10_000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+// A claimed event whose worker died becomes due again after this long
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 20;
+// Processed events are kept this long for inspection; dead ones stay until replayed or deleted
+const DONE_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+
+const retryDelay = (attempts: number) => {
+    const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+    // Jitter so a burst of failures doesn't retry in lockstep
+    return delay + Math.floor(Math.random() * delay * 0.2);
+};
+
+const normalizeKey = (rawKey: string) => {
+    try {
+        return decodeURIComponent(rawKey.replace(/\+/g, ' '));
+    } catch {
+        return rawKey;
+    }
+};
+
+/** One object change, normalized from whichever payload shape delivered it. */
+export interface ObjectEvent {
+    key: string;
+    change: 'created' | 'removed' | 'ignored';
+    /** Original event/action name, for logs and skip reasons. */
+    name?: string;
+    size?: number;
+    etag?: string;
+    eventTime?: Date;
+}
+
+// R2 event notification actions (https://developers.cloudflare.com/r2/buckets/event-notifications/)
+const R2_CREATE_ACTIONS = new Set(['PutObject', 'CopyObject', 'CompleteMultipartUpload']);
+const R2_REMOVE_ACTIONS = new Set(['DeleteObject', 'LifecycleDeletion']);
+
+const cleanEtag = (value: unknown) => typeof value === 'string' && value ? value.replace(/"/g, '') : undefined;
+const cleanSize = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+const parseTime = (value: unknown) => {
+    if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const s3Change = (eventName?: string): ObjectEvent['change'] => {
+    if (eventName?.includes('ObjectRemoved')) return 'removed';
+    return !eventName || eventName.includes('ObjectCreated') ? 'created' : 'ignored';
+};
+
+/**
+ * Pull object events out of the supported payload shapes:
+ *  - `{ key, eventName? }`
+ *  - AWS S3 notifications (`Records[]`, keys URL-encoded)
+ *  - R2 event notifications (`{ action, object: { key, size, eTag }, eventTime }`)
+ *  - batches of the above: a JSON array, or a queue batch `{ messages: [{ body }] }`
+ */
+export const extractEvents = (body: any): ObjectEvent[] | null => {
+    if (typeof body === 'string') {
+        try {
+            return extractEvents(JSON.parse(body));
+        } catch {
+            return null;
+        }
+    }
+
+    // Batch envelopes: recurse into each message body
+    const batch = Array.isArray(body) ? body
+        : Array.isArray(body?.messages) ? body.messages.map((message: any) => message?.body ?? message)
+            : null;
+    if (batch) {
+        const events: ObjectEvent[] = [];
+        for (const item of batch) {
+            const extracted = extractEvents(item);
+            if (!extracted) return null;
+            events.push(...extracted);
+        }
+        return events;
+    }
+
+    // R2 event notification
+    if (typeof body?.action === 'string' && typeof body?.object?.key === 'string') {
+        return [{
+            key: body.object.key,
+            change: R2_CREATE_ACTIONS.has(body.action) ? 'created'
+                : R2_REMOVE_ACTIONS.has(body.action) ? 'removed' : 'ignored',
+            name: body.action,
+            size: cleanSize(body.object.size),
+            etag: cleanEtag(body.object.eTag),
+            eventTime: parseTime(body.eventTime),
+        }];
+    }
+    // Simple { key: "..." }
+    if (body?.key && typeof body.key === 'string') {
+        return [{
+            key: normalizeKey(body.key),
+            change: s3Change(body.eventName),
+            name: body.eventName,
+            size: cleanSize(body.size),
+            etag: cleanEtag(body.etag ?? body.eTag),
+            eventTime: parseTime(body.eventTime),
+        }];
+    }
+    // AWS S3 Event (may include multiple records)
+    if (Array.isArray(body?.Records)) {
+        return body.Records
+            .filter((record: any) => typeof record?.s3?.object?.key === 'string')
+            .map((record: any): ObjectEvent => ({
+                key: normalizeKey(record.s3.object.key),
+                change: s3Change(record.eventName),
+                name: record.eventName,
+                size: cleanSize(record.s3.object.size),
+                etag: cleanEtag(record.s3.object.eTag),
+                eventTime: parseTime(record.eventTime),
+            }));
+    }
+    return null;
+};
+
+type Counts = Required<Pick<SyncRunCounts, 'scannedCount' | 'newCount' | 'updatedCount' | 'deactivatedCount' | 'reactivatedCount'>>;
+
+const handleEvent = async (event: ObjectEvent, counts: Counts, run: SyncRunRecorder) => {
+    const { key } = event;
+
+    if (event.change === 'removed') {
+        // A late delete (e.g. a retried delivery) must not hide an object re-uploaded after it
+        const result = await prisma.image.updateMany({
+            where: {
+                originalKey: key,
+                isActive: true,
+                // The privacy step deletes originals it moved to the private store; that's not a removal
+                privateKey: null,
+                ...(event.eventTime && { OR: [{ lastModified: null }, { lastModified: { lte: event.eventTime } }] }),
+            },
+            data: { isActive: false }
+        });
+        counts.deactivatedCount += result.count;
+        return;
+    }
+
+    if (event.change !== 'created') return;
+
+    if (R2Service.isInternalKey(key)) return;
+    const mediaType = R2Service.getMediaType(key);
+    if (!mediaType) {
+        console.log(`Skipping unsupported file: ${key}`);
+        run.skip(key, 'Unsupported file type');
+        return;
+    }
+
+    const existing = await prisma.image.findUnique({
+        where: { originalKey: key }
+    });
+
+    if (existing) {
+        if (event.eventTime && existing.lastModified && existing.lastModified > event.eventTime) {
+            run.skip(key, `Stale ${event.name ?? 'create'} event`);
+            return;
+        }
+
+        if (existing.privateKey && existing.etag && existing.etag === event.etag) {
+            // An original the privacy step moved to the private store was put back as-is: remove it again
+            await new R2Service().deleteObject(key);
+            return;
+        }
+
+        const data: Prisma.ImageUpdateInput = {};
+        // A quarantined file stays inactive until ingest accepts a replacement
+        if (!existing.isActive && !existing.quarantinedAt) {
+            data.isActive = true;
+            counts.reactivatedCount++;
+        }
+        // A moved original reappearing with a different (or unknown) ETag is new content
+        const replaced = Boolean(existing.etag && event.etag && existing.etag !== event.etag)
+            || Boolean(existing.privateKey);
+        if (event.etag && existing.etag !== event.etag) {
+            data.etag = event.etag;
+            data.sizeBytes = event.size ?? existing.sizeBytes;
+            data.lastModified = event.eventTime ?? existing.lastModified;
+        }
+        if (replaced) {
+            // Same reset the sync applies to replaced objects: re-run ingestion on the new content
+            Object.assign(data, {
+                metadataExtractedAt: null,
+                sha256: null,
+                phash: null,
+                processedAt: null,
+                processingError: null,
+                processingAttempts: 0,
+            });
+        }
+        if (Object.keys(data).length) {
+            await prisma.image.update({
+                where: { id: existing.id },
+                data
+            });
+        }
+        if (replaced) {
+            enqueueIngest(existing.id);
+            counts.updatedCount++;
+        }
+        return;
+    }
+
+    const url = new R2Service().getPublicUrl(key);
+    const staged = await ScheduleService.stagedPublishAt([key]);
+    const record = await IdGenerator.createImageRecord({
+        originalKey: key,
+        url: url,
+        mediaType,
+        sizeBytes: event.size,
+        etag: event.etag,
+        lastModified: event.eventTime,
+        publishAt: staged.get(key),
+    });
+    enqueueIngest(record.id);
+    counts.newCount++;
+
+    console.log(`Successfully registered media from webhook: ${key} (${mediaType})`);
+};
+
+/**
+ * Apply one webhook payload. Every key is attempted; if any fail, the whole event throws so it's
+ * retried (the per-key operations are idempotent). Each attempt is recorded as a 'webhook' sync run.
+ */
+export const processWebhookPayload = async (payload: unknown) => {
+    const run = await SyncRunRecorder.start('webhook');
+    const counts: Counts = { scannedCount: 0, newCount: 0, updatedCount: 0, deactivatedCount: 0, reactivatedCount: 0 };
+
+    const events = extractEvents(payload);
+    if (!events) {
+        // Retrying won't help; dead-letter straight away
+        const err = Object.assign(new Error('Unknown payload format'), { permanent: true });
+        await run.finish(counts, err);
+        throw err;
+    }
+
+    const failures: string[] = [];
+    for (const event of events) {
+        counts.scannedCount++;
+        if (event.change === 'ignored') {
+            run.skip(event.key, `Unhandled event ${event.name ?? ''}`.trim());
+            continue;
+        }
+        try {
+            await handleEvent(event, counts, run);
+        } catch (err) {
+            console.error(`Error processing webhook key ${event.key}:`, err);
+            run.error(event.key, err);
+            failures.push(event.key);
+        }
+    }
+
+    if (failures.length) {
+        const err = new Error(`Failed to process ${failures.length} key(s): ${failures.slice(0, 5).join(', ')}`);
+        await run.finish(counts, err);
+        throw err;
+    }
+    await run.finish(counts);
+};
+
+/** Claim a due event for this worker; false if another worker got it first. */
+const claim = async (id: number): Promise<boolean> => {
+    const now = new Date();
+    const claimed = await prisma.webhookEvent.updateMany({
+        where: { id, status: { in: ['pending', 'processing'] }, nextAttemptAt: { lte: now } },
+        data: {
+            status: 'processing',
+            attempts: { increment: 1 },
+            nextAttemptAt: new Date(now.getTime() + CLAIM_TIMEOUT_MS),
+        },
+    });
+    return claimed.count === 1;
+};
+
+const processEvent = async (id: number) => {
+    if (!(await claim(id))) return;
+    const event = await prisma.webhookEvent.findUnique({ where: { id } });
+    if (!event) return;
+
+    try {
+        await processWebhookPayload(event.payload);
+        await prisma.webhookEvent.update({
+            where: { id },
+            data: { status: 'done', processedAt: new Date(), lastError: null },
+        });
+    } catch (err: any) {
+        const dead = Boolean(err?.permanent) || event.attempts >= env.WEBHOOK_MAX_ATTEMPTS;
+        await prisma.webhookEvent.update({
+            where: { id },
+            data: {
+                status: dead ? 'dead' : 'pending',
+                lastError: String(err?.message ?? err).slice(0, 1000),
+                nextAttemptAt: new Date(Date.now() + retryDelay(event.attempts)),
+            },
+        });
+        if (dead) {
+            console.error(`Webhook event ${id} dead-lettered after ${event.attempts} attempts:`, err);
+        }
+    }
+};
+
+let draining = false;
+let drainRequested = false;
+
+/** Process every due event. Safe to call often; concurrent calls in one process collapse into one. */
+export const drainWebhookEvents = async () => {
+    if (draining) {
+        drainRequested = true;
+        return;
+    }
+    draining = true;
+    try {
+        while (true) {
+            drainRequested = false;
+            const due = await prisma.webhookEvent.findMany({
+                where: { status: { in: ['pending', 'processing'] }, nextAttemptAt: { lte: new Date() } },
+                select: { id: true },
+                orderBy: { id: 'asc' },
+                take: BATCH_SIZE,
+            });
+            if (due.length === 0) break;
+            for (const event of due) {
+                await processEvent(event.id);
+            }
+            if (due.length < BATCH_SIZE && !drainRequested) break;
+        }
+    } finally {
+        draining = false;
+    }
+};
+
+/** Persist a delivery. Throws if the database is unavailable so the sender can retry. */
+export const enqueueWebhookEvent = async (payload: unknown, nonce?: string) => {
+    const create = prisma.webhookEvent.create({
+        data: { payload: (payload ?? {}) as Prisma.InputJsonValue },
+    });
+    // A signed delivery's nonce is stored with the event: if either insert fails, a retry with the same id still goes through
+    const event = nonce
+        ? (await prisma.$transaction([prisma.webhookNonce.create({ data: { nonce } }), create]))[1]
+        : await create;
+    void drainWebhookEvents().catch((err) => {
+        console.error('Error draining webhook events:', err);
+    });
+    return event;
+};
+
+/** Put a dead (or finished) event back in the queue for immediate processing. */
+export const replayWebhookEvent = async (id: number) => {
+    const result = await prisma.webhookEvent.updateMany({
+        where: { id, status: { in: ['dead', 'done'] } },
+        data: { status: 'pending', attempts: 0, nextAttemptAt: new Date(), lastError: null, processedAt: null },
+    });
+    if (result.count) {
+        void drainWebhookEvents().catch((err) => {
+            console.error('Error draining webhook events:', err);
+        });
+    }
+    return result.count > 0;
+};
+
+const pruneWebhookEvents = async () => {
+    await prisma.webhookEvent.deleteMany({
+        where: { status: 'done', processedAt: { lt: new Date(Date.now() - DONE_RETENTION_MS) } },
+    });
+};
+
+export const startWebhookWorker = () => {
+    if (!isStorageEnabled()) {
+        return;
+    }
+    // Every 15 seconds: picks up retries and anything left behind by a restart
+    cron.schedule('*/15 * * * * *', () => {
+        void drainWebhookEvents().catch((err) => {
+            console.error('Error draining webhook events:', err);
+        });
+    });
+    cron.schedule('0 * * * *', () => {
+        void WebhookAuth.pruneNonces().catch((err) => {
+            console.error('Error pruning webhook nonces:', err);
+        });
+    });
+    cron.schedule('0 4 * * *', () => {
+        void pruneWebhookEvents().catch((err) => {
+            console.error('Error pruning webhook events:', err);
+        });
+    });
+};
@@ -1,18 +1,129 @@
 import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../utils/prisma';
 import { env } from '../config/env';
 import bcrypt from 'bcryptjs';
+import { Readable, Transform } from 'stream';
+import type { MultipartFile } from '@fastify/multipart';
 
 import { runSync } from '../jobs/syncR2';
 import { R2Service } from '../services/r2';
 import { IdGenerator } from '../services/idGenerator';
+import { isStorageEnabled } from '../services/storage';
+import { DerivativeService } from '../services/derivatives';
+import { DuplicateService } from '../services/duplicates';
+import { PrivacyService } from '../services/privacy';
+import { VideoRenditionService } from '../services/videoRenditions';
+import { CollectionService, SLUG_REGEX } from '../services/collections';
+import { SearchService, TAG_MAX_LENGTH } from '../services/search';
+import { ScheduleService } from '../services/schedule';
+import { VisibilityService } from '../services/visibility';
+import { MediaValidator, SNIFF_BYTES } from '../services/mediaValidation';
+import { enqueueIngest } from '../jobs/ingest';
+import { replayWebhookEvent } from '../jobs/webhookEvents';
+import { tusRoutes } from './tus';
+import { peekStream } from '../utils/stream';
+
+// A planned direct upload is remembered this long past its URLs' expiry: the last part may still be in flight
+const DIRECT_UPLOAD_GRACE_MS = 24 * 60 * 60 * 1000;
 
 // Manual sync function logic (reused for job)
 export const syncR2Logic = async () => {
-    return await runSync();
+    return await runSync('manual');
+};
+
+/**
+ * The part's file stream, but erroring at the end if the per-file size limit cut it short (busboy
+ * otherwise just ends the stream early) so the storage write is aborted instead of keeping a truncated file.
+ */
+const limitedFileStream = (part: MultipartFile): Readable => {
+    const guarded = new Transform({
+        transform(chunk, _encoding, callback) {
+            callback(null, chunk);
+        },
+        flush(callback) {
+            callback(part.file.truncated ? new Error(`exceeds the ${env.UPLOAD_MAX_FILE_MB} MB limit`) : null);
+        },
+    });
+    // The storage driver may not be reading yet when this fires; it still sees the error when it does
+    guarded.on('error', () => undefined);
+    return part.file.pipe(guarded);
 };
 
+const isAdminUploadKey = (key: string) => {
+    return key.startsWith(R2Service.withPrefix('admin/'))
+        && !key.includes('..')
+        && !R2Service.isInternalKey(key)
+        && !key.startsWith(R2Service.withPrefix('admin/music/'));
+};
+
+/**
+ * Delete every file a record is served from and move its original out of public reach, so URLs handed
+ * out before a revoke stop working now; ingest then publishes new copies under the new media token.
+ */
+const withdrawFiles = async (id: string) => {
+    await DerivativeService.deleteForImage(id);
+    await VideoRenditionService.deleteForVideo(id);
+    await prisma.imageVariant.deleteMany({ where: { imageId: id } });
+    await prisma.videoRendition.deleteMany({ where: { imageId: id } });
+    await prisma.image.update({ where: { id }, data: { posterKey: null, posterUrl: null } });
+    await PrivacyService.withdraw(id);
+};
+
+/** Request-level multipart limits (too many files, etc.) end the loop but keep what was already stored. */
+const isMultipartLimitError = (err: any) => {
+    return ['FST_FILES_LIMIT', 'FST_PARTS_LIMIT', 'FST_FIELDS_LIMIT'].includes(err?.code);
+};
+
+// Admin list/search record: everything the panel shows about a file
+const adminImageSelect = {
+    id: true,
+    url: true,
+    mediaType: true,
+    createdAt: true,
+    isActive: true,
+    originalKey: true,
+    width: true,
+    height: true,
+    sizeBytes: true,
+    contentType: true,
+    caption: true,
+    tags: true,
+    featured: true,
+    publishAt: true,
+    expireAt: true,
+    visibility: true,
+    passphraseHash: true,
+    orientation: true,
+    cameraMake: true,
+    cameraModel: true,
+    lensModel: true,
+    capturedAt: true,
+    durationSec: true,
+    posterUrl: true,
+    exif: true,
+    strippedFields: true,
+    privacyCheckedAt: true,
+    processedAt: true,
+    processingError: true,
+    variants: {
+        select: { url: true, width: true, height: true, format: true },
+        orderBy: { width: 'asc' as const },
+    },
+} satisfies Prisma.ImageSelect;
+
+const toAdminImage = ({ passphraseHash, ...img }: Prisma.ImageGetPayload<{ select: typeof adminImageSelect }>) => ({
+    ...img,
+    hasPassphrase: Boolean(passphraseHash),
+    createdAt: img.createdAt.toISOString(),
+    publishAt: img.publishAt?.toISOString() ?? null,
+    expireAt: img.expireAt?.toISOString() ?? null,
+    capturedAt: img.capturedAt?.toISOString() ?? null,
+    privacyCheckedAt: img.privacyCheckedAt?.toISOString() ?? null,
+    processedAt: img.processedAt?.toISOString() ?? null,
+});
+
 export const adminRoutes: FastifyPluginAsyncZod = async (app) => {
 
     // POST /api/admin/login
@@ -61,6 +172,9 @@ export const adminRoutes: FastifyPluginAsyncZod = async (app) => {
         }
     });
 
+    // Resumable uploads (tus); registered after the hook so it applies
+    app.register(tusRoutes, { prefix: '/tus' });
+
     // GET /api/admin/settings
     app.get('/settings', async (req, reply) => {
         const durationSetting = await prisma.settings.findUnique({ where: { key: 'displayDurationSec' } });
@@ -77,21 +191,76 @@ export const adminRoutes: FastifyPluginAsyncZod = async (app) => {
     // GET /api/admin/images
     app.get('/images', async (req, reply) => {
         const images = await prisma.image.findMany({
-            select: {
-                id: true,
-                url: true,
-                mediaType: true,
-                createdAt: true,
-                isActive: true,
-                originalKey: true,
-            },
+            select: adminImageSelect,
             orderBy: { createdAt: 'desc' },
         });
+        return images.map(toAdminImage);
+    });
 
-        return images.map((img) => ({
-            ...img,
-            createdAt: img.createdAt.toISOString(),
-        }));
+    // GET /api/admin/search
+    // Full-text search over caption, tags, filename and EXIF, with filters; same record shape as /images
+    app.get('/search', {
+        schema: {
+            querystring: z.object({
+                q: z.string().trim().max(200).optional(),
+                mediaType: z.enum(['IMAGE', 'VIDEO']).optional(),
+                active: z.enum(['true', 'false']).transform(v => v === 'true').optional(),
+                from: z.coerce.date().optional(),
+                to: z.coerce.date().optional(),
+                // Comma-separated; records must carry all of them
+                tags: z.string().transform(v => v.split(',')).optional(),
+                limit: z.coerce.number().int().min(1).max(500).default(100),
+                offset: z.coerce.number().int().min(0).default(0),
+            })
+        }
+    }, async (req) => {
+        const { ids, total } = await SearchService.search(req.query);
+        const images = await prisma.image.findMany({ where: { id: { in: ids } }, select: adminImageSelect });
+        const byId = new Map(images.map(img => [img.id, img]));
+        return {
+            ok: true,
+            total,
+            images: ids.flatMap(id => (byId.has(id) ? [toAdminImage(byId.get(id)!)] : [])),
+        };
+    });
+
+    // GET /api/admin/tags
+    app.get('/tags', async () => {
+        return SearchService.tagCounts();
+    });
+
+    // GET /api/admin/schedule
+    // Records with a publish or expiry time still ahead, and the latest transitions the schedule job logged
+    app.get('/schedule', {
+        schema: {
+            querystring: z.object({
+                limit: z.coerce.number().int().min(1).max(500).default(100),
+            })
+        }
+    }, async (req) => {
+        return ScheduleService.overview(req.query.limit);
+    });
+
+    // GET /api/admin/duplicates
+    // Records that share bytes (exact) or look the same (similar, within `distance` bits of perceptual hash)
+    app.get('/duplicates', {
+        schema: {
+            querystring: z.object({
+                distance: z.coerce.number().int().min(0).max(64).optional(),
+            })
+        }
+    }, async (req) => {
+        const groups = await DuplicateService.findGroups(req.query.distance);
+        const unhashed = await prisma.image.count({ where: { sha256: null } });
+        return {
+            ok: true,
+            groups: groups.map(group => ({
+                ...group,
+                images: group.images.map(img => ({ ...img, createdAt: img.createdAt.toISOString() })),
+            })),
+            // Records created before hashing existed (run `npm run db:backfill-hashes`) or not yet ingested
+            unhashed,
+        };
     });
 
     // PUT /api/admin/settings
@@ -123,20 +292,153 @@ export const adminRoutes: FastifyPluginAsyncZod = async (app) => {
     // POST /api/admin/refresh
     app.post('/refresh', async (req, reply) => {
         const result = await syncR2Logic();
+        if (result.alreadyRunning) {
+            return reply.code(409).send(result);
+        }
         if (result.skipped) {
             return reply.code(400).send(result);
         }
         return result;
     });
 
+    // GET /api/admin/sync-runs
+    app.get('/sync-runs', {
+        schema: {
+            querystring: z.object({
+                limit: z.coerce.number().int().min(1).max(200).default(50),
+                before: z.coerce.number().int().optional(),
+                trigger: z.enum(['cron', 'manual', 'webhook']).optional(),
+                status: z.enum(['running', 'ok', 'error']).optional(),
+                // Only runs that changed something or hit errors (hides idle cron passes)
+                eventful: z.enum(['true', 'false']).optional(),
+            })
+        }
+    }, async (req, reply) => {
+        const { limit, before, trigger, status, eventful } = req.query;
+        const runs = await prisma.syncRun.findMany({
+            where: {
+                ...(before ? { id: { lt: before } } : {}),
+                ...(trigger ? { trigger } : {}),
+                ...(status ? { status } : {}),
+                ...(eventful === 'true' ? {
+                    OR: [
+                        { newCount: { gt: 0 } },
+                        { updatedCount: { gt: 0 } },
+                        { deactivatedCount: { gt: 0 } },
+                        { reactivatedCount: { gt: 0 } },
+                        { errorCount: { gt: 0 } },
+                        { status: { not: 'ok' } },
+                    ],
+                } : {}),
+            },
+            orderBy: { id: 'desc' },
+            take: limit,
+            // Key lists are only returned by the detail endpoint
+            select: {
+                id: true,
+                trigger: true,
+                status: true,
+                startedAt: true,
+                finishedAt: true,
+                durationMs: true,
+                scannedCount: true,
+                newCount: true,
+                updatedCount: true,
+                deactivatedCount: true,
+                reactivatedCount: true,
+                errorCount: true,
+                skippedCount: true,
+                complete: true,
+                message: true,
+            },
+        });
+
+        return runs.map((run) => ({
+            ...run,
+            startedAt: run.startedAt.toISOString(),
+            finishedAt: run.finishedAt?.toISOString() ?? null,
+        }));
+    });
+
+    // GET /api/admin/sync-runs/:id
+    app.get('/sync-runs/:id', {
+        schema: {
+            params: z.object({
+                id: z.coerce.number().int()
+            })
+        }
+    }, async (req, reply) => {
+        const run = await prisma.syncRun.findUnique({ where: { id: req.params.id } });
+        if (!run) {
+            return reply.code(404).send({ ok: false, message: 'Sync run not found' } as any);
+        }
+        return {
+            ...run,
+            startedAt: run.startedAt.toISOString(),
+            finishedAt: run.finishedAt?.toISOString() ?? null,
+        };
+    });
+
+    // GET /api/admin/webhook-events
+    app.get('/webhook-events', {
+        schema: {
+            querystring: z.object({
+                limit: z.coerce.number().int().min(1).max(200).default(50),
+                before: z.coerce.number().int().optional(),
+                status: z.enum(['pending', 'processing', 'done', 'dead']).optional(),
+            })
+        }
+    }, async (req, reply) => {
+        const { limit, before, status } = req.query;
+        const events = await prisma.webhookEvent.findMany({
+            where: {
+                ...(before ? { id: { lt: before } } : {}),
+                ...(status ? { status } : {}),
+            },
+            orderBy: { id: 'desc' },
+            take: limit,
+        });
+        return events.map((event) => ({
+            ...event,
+            nextAttemptAt: event.nextAttemptAt.toISOString(),
+            receivedAt: event.receivedAt.toISOString(),
+            processedAt: event.processedAt?.toISOString() ?? null,
+            updatedAt: event.updatedAt.toISOString(),
+        }));
+    });
+
+    // POST /api/admin/webhook-events/replay-dead
+    app.post('/webhook-events/replay-dead', async (req, reply) => {
+        const dead = await prisma.webhookEvent.findMany({ where: { status: 'dead' }, select: { id: true } });
+        let replayed = 0;
+        for (const event of dead) {
+            if (await replayWebhookEvent(event.id)) replayed++;
+        }
+        return { ok: true, replayed };
+    });
+
+    // POST /api/admin/webhook-events/:id/replay
+    app.post('/webhook-events/:id/replay', {
+        schema: {
+            params: z.object({
+                id: z.coerce.number().int()
+            })
+        }
+    }, async (req, reply) => {
+        const replayed = await replayWebhookEvent(req.params.id);
+        if (!replayed) {
+            return reply.code(404).send({ ok: false, message: 'No dead or finished event with that id' } as any);
+        }
+        return { ok: true };
+    });
+
     // POST /api/admin/music
     app.post('/music', async (req, reply) => {
-        if (!env.ENABLE_R2_SYNC) {
-            return reply.code(400).send({ ok: false, message: 'R2 sync is disabled' });
+        if (!isStorageEnabled()) {
+            return reply.code(400).send({ ok: false, message: 'Storage is disabled' });
         }
 
         const r2 = new R2Service();
-        const prefix = env.R2_PREFIX ? env.R2_PREFIX.replace(/\/?$/, '/') : '';
 
         try {
             const parts = req.parts();
@@ -148,19 +450,16 @@ export const adminRoutes: FastifyPluginAsyncZod = async (app) => {
                     return reply.code(400).send({ ok: false, message: 'Unsupported audio format' });
                 }
 
-                const chunks: Buffer[] = [];
-                for await (const chunk of part.file) {
-                    chunks.push(chunk as Buffer);
-                }
-                const buffer = Buffer.concat(chunks);
-
-                const safeName = filename.replace(/[^a-zA-Z0-9._-]/g, '_');
-                const unique = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-                const key = `${prefix}admin/music/${unique}-${safeName}`;
+                const key = R2Service.uploadKey(filename, 'admin/music');
 
-                await r2.putObject(key, buffer, part.mimetype);
+                try {
+                    await r2.putObjectStream(key, limitedFileStream(part), part.mimetype);
+                } catch (err: any) {
+                    part.file.resume();
+                    return reply.code(400).send({ ok: false, message: `${filename}: ${err?.message ?? 'upload failed'}` });
+                }
 
-                const url = `${env.CDN_BASE_URL}/${key}`;
+                const url = r2.getPublicUrl(key);
                 await prisma.settings.upsert({
                     where: { key: 'musicUrl' },
                     update: { value: url },
@@ -178,63 +477,365 @@ export const adminRoutes: FastifyPluginAsyncZod = async (app) => {
 
     // POST /api/admin/upload
     app.post('/upload', async (req, reply) => {
-        if (!env.ENABLE_R2_SYNC) {
-            return reply.code(400).send({ ok: false, message: 'R2 sync is disabled' });
+        if (!isStorageEnabled()) {
+            return reply.code(400).send({ ok: false, message: 'Storage is disabled' });
         }
 
         const r2 = new R2Service();
         const uploaded: string[] = [];
-        const skipped: string[] = [];
+        const skipped: { name: string; reason: string }[] = [];
         const errors: string[] = [];
-        const prefix = env.R2_PREFIX ? env.R2_PREFIX.replace(/\/?$/, '/') : '';
+        const ids: string[] = [];
+        const files: { name: string; id: string; size: number; sha256: string; duplicateOf?: string }[] = [];
 
         try {
             const parts = req.parts();
+            // Optional admin-chosen ID and expected SHA-256, sent as `id` / `sha256` fields right before the file they apply to
+            let requestedId: string | undefined;
+            let expectedSha256: string | undefined;
+            // Optional `publishAt` field: applies to every file after it, so a batch goes live together
+            let publishAt: Date | undefined;
+            let invalidPublishAt = false;
             for await (const part of parts) {
-                if (part.type !== 'file') continue;
+                if (part.type === 'field') {
+                    if (part.fieldname === 'publishAt' && typeof part.value === 'string' && part.value.trim()) {
+                        const parsed = new Date(part.value.trim());
+                        invalidPublishAt = Number.isNaN(parsed.getTime());
+                        publishAt = invalidPublishAt ? undefined : parsed;
+                    }
+                    if (part.fieldname === 'id' && typeof part.value === 'string' && part.value.trim()) {
+                        requestedId = part.value.trim();
+                    }
+                    if (part.fieldname === 'sha256' && typeof part.value === 'string' && part.value.trim()) {
+                        expectedSha256 = part.value.trim().toLowerCase();
+                    }
+                    continue;
+                }
                 const filename = part.filename || 'upload';
-                const mediaType = R2Service.getMediaType(filename);
-                if (!mediaType) {
-                    skipped.push(filename);
+                const vanityId = requestedId;
+                const expected = expectedSha256;
+                requestedId = undefined;
+                expectedSha256 = undefined;
+                if (invalidPublishAt) {
+                    // Never publish a file meant to be staged
+                    part.file.resume();
+                    skipped.push({ name: filename, reason: 'Invalid publishAt' });
+                    continue;
+                }
+                if (!R2Service.getMediaType(filename)) {
+                    part.file.resume();
+                    skipped.push({ name: filename, reason: 'Unsupported file type' });
                     continue;
                 }
 
-                const chunks: Buffer[] = [];
-                for await (const chunk of part.file) {
-                    chunks.push(chunk as Buffer);
+                // Decide on the real format from the first bytes before anything is stored
+                const { head, stream: body } = await peekStream(limitedFileStream(part), SNIFF_BYTES);
+                const sniffed = MediaValidator.checkHead(filename, head);
+                if (!sniffed.ok) {
+                    body.destroy();
+                    part.file.resume();
+                    skipped.push({ name: filename, reason: sniffed.reason });
+                    continue;
                 }
-                const buffer = Buffer.concat(chunks);
+                const { mediaType, contentType } = sniffed.detected;
 
-                const safeName = filename.replace(/[^a-zA-Z0-9._-]/g, '_');
-                const unique = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-                const key = `${prefix}admin/${unique}-${safeName}`;
+                if (vanityId) {
+                    const conflict = await IdGenerator.checkAvailable(vanityId);
+                    if (conflict) {
+                        body.destroy();
+                        part.file.resume();
+                        errors.push(`${filename}: ${conflict}`);
+                        continue;
+                    }
+                }
 
-                await r2.putObject(key, buffer, part.mimetype);
+                const key = R2Service.uploadKey(filename);
 
-                const url = `${env.CDN_BASE_URL}/${key}`;
-                await IdGenerator.createImageRecord({
-                    originalKey: key,
-                    url,
-                    mediaType,
-                    sizeBytes: buffer.length,
-                    contentType: part.mimetype,
-                });
+                let stored;
+                try {
+                    stored = await r2.putObjectStream(key, body, contentType);
+                } catch (err: any) {
+                    part.file.resume();
+                    errors.push(`${filename}: ${err?.message ?? 'upload failed'}`);
+                    continue;
+                }
+                if (expected && expected !== stored.sha256) {
+                    await r2.deleteObject(key).catch(() => undefined);
+                    errors.push(`${filename}: checksum mismatch (got sha256 ${stored.sha256})`);
+                    continue;
+                }
+
+                // Header looked right; now make sure the whole file decodes / parses
+                const validated = await MediaValidator.checkStored(key, filename);
+                if (!validated.ok) {
+                    await r2.deleteObject(key).catch(() => undefined);
+                    skipped.push({ name: filename, reason: validated.reason });
+                    continue;
+                }
+
+                const duplicate = await DuplicateService.findForUpload(key, stored.sha256);
+                if (duplicate && env.DUPLICATE_UPLOAD_POLICY !== 'warn') {
+                    await r2.deleteObject(key).catch(() => undefined);
+                    if (env.DUPLICATE_UPLOAD_POLICY === 'skip') {
+                        skipped.push({ name: filename, reason: `Duplicate of ${duplicate.id}` });
+                    } else {
+                        // 'link': answer with the archived copy's ID instead of creating a second one
+                        uploaded.push(filename);
+                        ids.push(duplicate.id);
+                        files.push({ name: filename, id: duplicate.id, size: stored.size, sha256: stored.sha256, duplicateOf: duplicate.id });
+                    }
+                    continue;
+                }
+
+                const url = r2.getPublicUrl(key);
+                let record;
+                try {
+                    record = await IdGenerator.createImageRecord({
+                        originalKey: key,
+                        url,
+                        mediaType,
+                        sizeBytes: stored.size,
+                        contentType,
+                        etag: stored.etag,
+                        sha256: stored.sha256,
+                        publishAt,
+                    }, { id: vanityId });
+                } catch (err: any) {
+                    // Most likely the ID space is exhausted; don't leave an orphaned object behind
+                    await r2.deleteObject(key).catch(() => undefined);
+                    errors.push(`${filename}: ${err?.message ?? 'could not allocate an ID'}`);
+                    continue;
+                }
+                enqueueIngest(record.id);
 
                 uploaded.push(filename);
+                ids.push(record.id);
+                files.push({ name: filename, id: record.id, size: stored.size, sha256: stored.sha256, duplicateOf: duplicate?.id });
+            }
+        } catch (err: any) {
+            if (!isMultipartLimitError(err)) {
+                return reply.code(500).send({
+                    ok: false,
+                    message: 'Upload failed',
+                });
+            }
+            errors.push(`Upload stopped: ${err.message} (max ${env.UPLOAD_MAX_FILES} files per request)`);
+        }
+
+        return {
+            ok: true,
+            uploaded: uploaded.length,
+            skipped,
+            ids,
+            files,
+            errors,
+        };
+    });
+
+    // POST /api/admin/uploads/direct
+    // Presigned URL(s) for uploading one file straight to the bucket; finish with /uploads/direct/complete
+    app.post('/uploads/direct', {
+        schema: {
+            body: z.object({
+                filename: z.string().trim().min(1),
+                size: z.number().int().min(0),
+                contentType: z.string().optional(),
+                id: z.string().trim().min(1).optional(),
+                // Staged upload: given up front so it applies even if a webhook or sync registers the key first
+                publishAt: z.coerce.date().optional(),
+            })
+        }
+    }, async (req, reply) => {
+        if (!isStorageEnabled()) {
+            return reply.code(400).send({ ok: false, message: 'Storage is disabled' } as any);
+        }
+        const r2 = new R2Service();
+        const direct = r2.directUpload;
+        if (!direct) {
+            // 501 tells the admin panel to fall back to a regular upload
+            return reply.code(501).send({ ok: false, message: 'Direct uploads need the R2 storage driver' } as any);
+        }
+
+        const { filename, size, contentType, id, publishAt } = req.body;
+        if (!R2Service.getMediaType(filename)) {
+            return reply.code(400).send({ ok: false, message: 'Unsupported file type' } as any);
+        }
+        if (size > env.DIRECT_UPLOAD_MAX_MB * 1024 * 1024) {
+            return reply.code(413).send({ ok: false, message: `File exceeds the ${env.DIRECT_UPLOAD_MAX_MB} MB limit` } as any);
+        }
+        if (id) {
+            const conflict = await IdGenerator.checkAvailable(id);
+            if (conflict) {
+                return reply.code(409).send({ ok: false, message: conflict } as any);
             }
+        }
+
+        const key = R2Service.uploadKey(filename);
+        const expiresIn = env.DIRECT_UPLOAD_URL_TTL_SEC;
+        const partSize = env.DIRECT_UPLOAD_PART_SIZE_MB * 1024 * 1024;
+        await prisma.directUpload.create({
+            data: { key, size, publishAt, expiresAt: new Date(Date.now() + expiresIn * 1000 + DIRECT_UPLOAD_GRACE_MS) },
+        });
 
+        if (size <= partSize) {
+            const url = await direct.presignPut(key, contentType, expiresIn);
             return {
                 ok: true,
-                uploaded: uploaded.length,
-                skipped: skipped.length,
-                errors,
+                mode: 'put',
+                key,
+                url,
+                headers: contentType ? { 'Content-Type': contentType } : {},
+                expiresIn,
             };
+        }
+
+        const uploadId = await direct.createMultipartUpload(key, contentType);
+        const partCount = Math.ceil(size / partSize);
+        const parts = await Promise.all(Array.from({ length: partCount }, async (_, i) => ({
+            partNumber: i + 1,
+            url: await direct.presignUploadPart(key, uploadId, i + 1, expiresIn),
+        })));
+        return { ok: true, mode: 'multipart', key, uploadId, partSize, parts, expiresIn };
+    });
+
+    // POST /api/admin/uploads/direct/complete
+    app.post('/uploads/direct/complete', {
+        schema: {
+            body: z.object({
+                key: z.string().min(1),
+                uploadId: z.string().optional(),
+                parts: z.array(z.object({
+                    partNumber: z.number().int().min(1).max(10000),
+                    etag: z.string().min(1),
+                })).optional(),
+                id: z.string().trim().min(1).optional(),
+                // Deprecated: send publishAt with /uploads/direct instead
+                publishAt: z.coerce.date().optional(),
+            })
+        }
+    }, async (req, reply) => {
+        const { key, uploadId, parts, id } = req.body;
+        const r2 = new R2Service();
+        const direct = r2.directUpload;
+        if (!isStorageEnabled() || !direct) {
+            return reply.code(400).send({ ok: false, message: 'Direct uploads need the R2 storage driver' } as any);
+        }
+        if (!isAdminUploadKey(key) || !R2Service.getMediaType(key)) {
+            return reply.code(400).send({ ok: false, message: 'Invalid upload key' } as any);
+        }
+        const planned = await prisma.directUpload.findUnique({ where: { key } });
+        if (!planned) {
+            return reply.code(400).send({ ok: false, message: 'Unknown or expired upload' } as any);
+        }
+        const publishAt = req.body.publishAt ?? planned.publishAt ?? undefined;
+
+        if (uploadId) {
+            if (!parts?.length) {
+                return reply.code(400).send({ ok: false, message: 'Missing parts' } as any);
+            }
+            try {
+                await direct.completeMultipartUpload(key, uploadId, parts);
+            } catch (err: any) {
+                return reply.code(400).send({ ok: false, message: `Could not complete upload: ${err?.message ?? 'unknown error'}` } as any);
+            }
+        }
+
+        const head = await r2.headObject(key);
+        if (!head) {
+            return reply.code(400).send({ ok: false, message: 'Uploaded object not found' } as any);
+        }
+
+        // The bytes never passed through us, so check what actually landed in the bucket
+        const reject = async (code: number, message: string) => {
+            await r2.deleteObject(key).catch(() => undefined);
+            // A storage webhook may have registered it meanwhile; its object is gone now
+            await prisma.image.updateMany({ where: { originalKey: key }, data: { isActive: false } });
+            return reply.code(code).send({ ok: false, message } as any);
+        };
+        // Also keeps sizeBytes (a 32-bit column) in range: DIRECT_UPLOAD_MAX_MB is at most 2047
+        if (head.size === undefined || head.size > env.DIRECT_UPLOAD_MAX_MB * 1024 * 1024) {
+            return reject(413, `File exceeds the ${env.DIRECT_UPLOAD_MAX_MB} MB limit`);
+        }
+        if (head.size !== planned.size) {
+            return reject(422, `Uploaded ${head.size} bytes, expected ${planned.size}`);
+        }
+        const validated = await MediaValidator.checkStored(key);
+        if (!validated.ok) {
+            return reject(422, validated.reason);
+        }
+
+        // A storage webhook may have registered the object already (before this check, or before our insert)
+        const settleExisting = async (existingId: string) => {
+            if (publishAt) {
+                await prisma.image.update({
+                    where: { id: existingId },
+                    data: { publishAt, scheduleState: ScheduleService.stateFor(publishAt, null) },
+                });
+            }
+            if (id && id !== existingId) {
+                const conflict = await IdGenerator.checkAvailable(id);
+                if (conflict) {
+                    return reply.code(409).send({ ok: false, message: conflict, id: existingId } as any);
+                }
+                await IdGenerator.reassign(existingId, id);
+                return { ok: true, id };
+            }
+            return { ok: true, id: existingId };
+        };
+        const existing = await prisma.image.findUnique({ where: { originalKey: key }, select: { id: true } });
+        if (existing) {
+            return settleExisting(existing.id);
+        }
+
+        const duplicate = await DuplicateService.findForUpload(key);
+        if (duplicate && env.DUPLICATE_UPLOAD_POLICY !== 'warn') {
+            await r2.deleteObject(key).catch(() => undefined);
+            await prisma.image.updateMany({ where: { originalKey: key }, data: { isActive: false } });
+            if (env.DUPLICATE_UPLOAD_POLICY === 'skip') {
+                return reply.code(422).send({ ok: false, message: `Duplicate of ${duplicate.id}`, duplicateOf: duplicate.id } as any);
+            }
+            return { ok: true, id: duplicate.id, duplicateOf: duplicate.id };
+        }
+
+        let record;
+        try {
+            record = await IdGenerator.createImageRecord({
+                originalKey: key,
+                url: r2.getPublicUrl(key),
+                mediaType: validated.detected.mediaType,
+                sizeBytes: head.size,
+                contentType: validated.detected.contentType,
+                etag: head.etag,
+                lastModified: head.lastModified,
+                publishAt,
+            }, { id });
         } catch (err: any) {
-            return reply.code(500).send({
-                ok: false,
-                message: 'Upload failed',
-            });
+            if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002'
+                && (err.meta?.target as string[] | undefined)?.includes('originalKey')) {
+                const registered = await prisma.image.findUnique({ where: { originalKey: key }, select: { id: true } });
+                if (registered) return settleExisting(registered.id);
+            }
+            return reply.code(409).send({ ok: false, message: err?.message ?? 'Could not allocate an ID' } as any);
         }
+        enqueueIngest(record.id);
+        return { ok: true, id: record.id, duplicateOf: duplicate?.id };
+    });
+
+    // POST /api/admin/uploads/direct/abort
+    app.post('/uploads/direct/abort', {
+        schema: {
+            body: z.object({
+                key: z.string().min(1),
+                uploadId: z.string().min(1),
+            })
+        }
+    }, async (req, reply) => {
+        const direct = new R2Service().directUpload;
+        if (!direct || !isAdminUploadKey(req.body.key)) {
+            return reply.code(400).send({ ok: false, message: 'Invalid upload' } as any);
+        }
+        await direct.abortMultipartUpload(req.body.key, req.body.uploadId).catch(() => undefined);
+        return { ok: true };
     });
 
     // POST /api/admin/images/:id/deactivate
@@ -271,7 +872,8 @@ export const adminRoutes: FastifyPluginAsyncZod = async (app) => {
 
         const result = await prisma.image.updateMany({
             where: { id },
-            data: { isActive: true }
+            // Also overrides a quarantine from failed content validation
+            data: { isActive: true, quarantinedAt: null }
         });
 
         if (result.count === 0) {
@@ -281,6 +883,187 @@ export const adminRoutes: FastifyPluginAsyncZod = async (app) => {
         return { ok: true };
     });
 
+    // PATCH /api/admin/images/:id
+    // Curation fields; `tags` replaces the whole list, `featured` favours the record in weighted playlists
+    app.patch('/images/:id', {
+        schema: {
+            params: z.object({
+                id: z.string()
+            }),
+            body: z.object({
+                caption: z.string().trim().max(2000).nullable().optional(),
+                tags: z.array(z.string().max(TAG_MAX_LENGTH)).max(100).optional(),
+                featured: z.boolean().optional(),
+                // Publishing window; null clears a bound
+                publishAt: z.coerce.date().nullable().optional(),
+                expireAt: z.coerce.date().nullable().optional(),
+                visibility: z.enum(['PUBLIC', 'UNLISTED', 'PROTECTED']).optional(),
+                // For PROTECTED records; null removes it. Any change signs out earlier unlocks and links.
+                passphrase: z.string().min(4).max(200).nullable().optional(),
+            })
+        }
+    }, async (req, reply) => {
+        const { caption, tags, featured, publishAt, expireAt, visibility, passphrase } = req.body;
+        const current = await prisma.image.findUnique({
+            where: { id: req.params.id },
+            select: { visibility: true, publishAt: true },
+        });
+        if (!current) {
+            return reply.code(404).send({ ok: false, message: 'Image not found' } as any);
+        }
+        let window;
+        if (publishAt !== undefined || expireAt !== undefined) {
+            try {
+                window = await ScheduleService.resolveWindow(req.params.id, { publishAt, expireAt });
+            } catch (err: any) {
+                return reply.code(err?.statusCode ?? 500).send({ ok: false, message: err?.message ?? 'Update failed' } as any);
+            }
+        }
+        // A new passphrase, protecting the record again, or hiding a visible one takes back earlier
+        // unlocks, signed links and file URLs (the files are regenerated under new keys)
+        const revoke = passphrase !== undefined
+            || (visibility === 'PROTECTED' && current.visibility !== 'PROTECTED')
+            || (!VisibilityService.isHidden(current) && VisibilityService.isHidden({
+                visibility: visibility ?? current.visibility,
+                publishAt: window ? window.publishAt : current.publishAt,
+            }));
+        const result = await prisma.image.updateMany({
+            where: { id: req.params.id },
+            data: {
+                caption: caption === undefined ? undefined : caption || null,
+                tags: tags ? SearchService.normalizeTags(tags) : undefined,
+                featured,
+                ...window,
+                visibility,
+                ...(passphrase === undefined ? {} : {
+                    passphraseHash: passphrase ? await VisibilityService.hashPassphrase(passphrase) : null,
+                }),
+                ...(revoke ? VisibilityService.revokeAccess() : {}),
+            }
+        });
+
+        if (result.count === 0) {
+            return reply.code(404).send({ ok: false, message: 'Image not found' } as any);
+        }
+        if (revoke && isStorageEnabled()) {
+            try {
+                await withdrawFiles(req.params.id);
+            } catch (err: any) {
+                enqueueIngest(req.params.id);
+                return reply.code(500).send({ ok: false, message: `Access revoked, but old files are still public: ${err?.message ?? 'unknown error'}` } as any);
+            }
+        }
+        if (revoke) {
+            enqueueIngest(req.params.id);
+        }
+
+        const image = await prisma.image.findUnique({
+            where: { id: req.params.id },
+            select: { caption: true, tags: true, featured: true, publishAt: true, expireAt: true, visibility: true, passphraseHash: true },
+        });
+        const { passphraseHash, ...details } = image ?? {};
+        return {
+            ok: true,
+            ...details,
+            hasPassphrase: Boolean(passphraseHash),
+            publishAt: image?.publishAt?.toISOString() ?? null,
+            expireAt: image?.expireAt?.toISOString() ?? null,
+        };
+    });
+
+    // POST /api/admin/images/:id/share-link
+    // Signed link to a protected record; valid until it expires or the passphrase changes
+    app.post('/images/:id/share-link', {
+        schema: {
+            params: z.object({
+                id: z.string()
+            }),
+            body: z.object({
+                expiresInHours: z.number().int().min(1).max(24 * 365).default(24 * 7),
+            })
+        }
+    }, async (req, reply) => {
+        const image = await prisma.image.findUnique({
+            where: { id: req.params.id },
+            select: { id: true, visibility: true, accessVersion: true },
+        });
+        if (!image) {
+            return reply.code(404).send({ ok: false, message: 'Image not found' } as any);
+        }
+        if (image.visibility !== 'PROTECTED') {
+            return reply.code(400).send({ ok: false, message: 'Only protected records need a signed link' } as any);
+        }
+
+        const { expiresInHours } = req.body;
+        const key = app.jwt.sign({ ...VisibilityService.claimsFor(image) }, { expiresIn: `${expiresInHours}h` });
+        return {
+            ok: true,
+            path: `/${image.id}?key=${encodeURIComponent(key)}`,
+            expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString(),
+        };
+    });
+
+    // POST /api/admin/images/:id/reprocess
+    app.post('/images/:id/reprocess', {
+        schema: {
+            params: z.object({
+                id: z.string()
+            })
+        }
+    }, async (req, reply) => {
+        const { id } = req.params;
+
+        const result = await prisma.image.updateMany({
+            where: { id },
+            data: { processedAt: null, processingError: null, processingAttempts: 0 }
+        });
+
+        if (result.count === 0) {
+            return reply.code(404).send({ ok: false, message: 'Image not found' } as any);
+        }
+
+        enqueueIngest(id);
+        return { ok: true };
+    });
+
+    // POST /api/admin/images/:id/reassign
+    app.post('/images/:id/reassign', {
+        schema: {
+            params: z.object({
+                id: z.string()
+            }),
+            body: z.object({
+                newId: z.string().trim().min(1),
+            })
+        }
+    }, async (req, reply) => {
+        const { id } = req.params;
+        const { newId } = req.body;
+
+        const record = await prisma.image.findUnique({ where: { id }, select: { id: true } });
+        if (!record) {
+            return reply.code(404).send({ ok: false, message: 'Image not found' } as any);
+        }
+        if (newId === id) {
+            return { ok: true, id };
+        }
+
+        // Moving back to one of the record's own former IDs is fine
+        const conflict = (await IdGenerator.resolveRedirect(newId)) === id
+            ? null
+            : await IdGenerator.checkAvailable(newId);
+        if (conflict) {
+            return reply.code(409).send({ ok: false, message: conflict } as any);
+        }
+
+        try {
+            await IdGenerator.reassign(id, newId);
+            return { ok: true, id: newId };
+        } catch (e) {
+            return reply.code(409).send({ ok: false, message: 'Reassign failed' } as any);
+        }
+    });
+
     // DELETE /api/admin/images/:id
     app.delete('/images/:id', {
         schema: {
@@ -289,14 +1072,14 @@ export const adminRoutes: FastifyPluginAsyncZod = async (app) => {
             })
         }
     }, async (req, reply) => {
-        if (!env.ENABLE_R2_SYNC) {
-            return reply.code(400).send({ ok: false, message: 'R2 sync is disabled' });
+        if (!isStorageEnabled()) {
+            return reply.code(400).send({ ok: false, message: 'Storage is disabled' });
         }
 
         const { id } = req.params;
         const record = await prisma.image.findUnique({
             where: { id },
-            select: { originalKey: true }
+            select: { originalKey: true, privateKey: true, publicKey: true }
         });
 
         if (!record) {
@@ -305,6 +1088,9 @@ export const adminRoutes: FastifyPluginAsyncZod = async (app) => {
 
         try {
             const r2 = new R2Service();
+            await DerivativeService.deleteForImage(id);
+            await VideoRenditionService.deleteForVideo(id);
+            await PrivacyService.deleteForImage(record);
             await r2.deleteObject(record.originalKey);
             await prisma.image.delete({ where: { id } });
             return { ok: true };
@@ -313,4 +1099,113 @@ export const adminRoutes: FastifyPluginAsyncZod = async (app) => {
         }
     });
 
+    // GET /api/admin/ids/capacity
+    app.get('/ids/capacity', async () => {
+        return IdGenerator.getCapacity();
+    });
+
+    // GET /api/admin/ids/reserved
+    app.get('/ids/reserved', async () => {
+        const reserved = await prisma.reservedId.findMany({ orderBy: { id: 'asc' } });
+        return reserved.map((r) => ({
+            ...r,
+            createdAt: r.createdAt.toISOString(),
+        }));
+    });
+
+    // POST /api/admin/ids/reserved
+    app.post('/ids/reserved', {
+        schema: {
+            body: z.object({
+                ids: z.array(z.string().trim().min(1)).min(1).max(1000),
+                reason: z.string().max(200).optional(),
+            })
+        }
+    }, async (req, reply) => {
+        const { ids, reason } = req.body;
+        const result = await IdGenerator.reserve(ids, reason);
+        return { ok: true, ...result };
+    });
+
+    // DELETE /api/admin/ids/reserved/:id
+    app.delete('/ids/reserved/:id', {
+        schema: {
+            params: z.object({
+                id: z.string()
+            })
+        }
+    }, async (req, reply) => {
+        const released = await IdGenerator.release(req.params.id);
+        if (!released) {
+            return reply.code(404).send({ ok: false, message: 'ID is not reserved' } as any);
+        }
+        return { ok: true };
+    });
+
+    // Collections: named, ordered series played at /c/:slug
+    const collectionBody = z.object({
+        title: z.string().trim().min(1).max(200),
+        slug: z.string().trim().toLowerCase().max(80).regex(SLUG_REGEX, 'Use lowercase letters, digits and single dashes').optional(),
+        description: z.string().trim().max(2000).nullable().optional(),
+        coverImageId: z.string().trim().min(1).nullable().optional(),
+        // Full membership in display order
+        imageIds: z.array(z.string().trim().min(1)).max(5000).optional(),
+    });
+
+    const collectionFailure = (err: any) => ({
+        status: typeof err?.statusCode === 'number' ? err.statusCode : 500,
+        message: typeof err?.statusCode === 'number' ? err.message : 'Collection update failed',
+    });
+
+    // GET /api/admin/collections
+    app.get('/collections', async () => {
+        return CollectionService.list();
+    });
+
+    // POST /api/admin/collections
+    app.post('/collections', {
+        schema: {
+            body: collectionBody
+        }
+    }, async (req, reply) => {
+        try {
+            return { ok: true, collection: await CollectionService.create(req.body) };
+        } catch (err) {
+            const { status, message } = collectionFailure(err);
+            return reply.code(status).send({ ok: false, message } as any);
+        }
+    });
+
+    // PUT /api/admin/collections/:id
+    app.put('/collections/:id', {
+        schema: {
+            params: z.object({
+                id: z.coerce.number().int()
+            }),
+            body: collectionBody.partial()
+        }
+    }, async (req, reply) => {
+        try {
+            return { ok: true, collection: await CollectionService.update(req.params.id, req.body) };
+        } catch (err) {
+            const { status, message } = collectionFailure(err);
+            return reply.code(status).send({ ok: false, message } as any);
+        }
+    });
+
+    // DELETE /api/admin/collections/:id
+    app.delete('/collections/:id', {
+        schema: {
+            params: z.object({
+                id: z.coerce.number().int()
+            })
+        }
+    }, async (req, reply) => {
+        const removed = await CollectionService.remove(req.params.id);
+        if (!removed) {
+            return reply.code(404).send({ ok: false, message: 'Collection not found' } as any);
+        }
+        return { ok: true };
+    });
+
 };
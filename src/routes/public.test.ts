@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+import { buildApp } from '../app';
+import { prisma } from '../utils/prisma';
+import { VisibilityService } from '../services/visibility';
+import { cacheUntilExpiry, decodeCursor, encodeCursor } from './public';
+
+const encode = (text: string) => Buffer.from(text).toString('base64url');
+
+describe('page cursors', () => {
+    it('round-trip the last record of a page', () => {
+        const record = { createdAt: new Date('2026-05-01T08:15:30.123Z'), id: '00042' };
+        assert.deepEqual(decodeCursor(encodeCursor(record)), record);
+        // IDs from a custom alphabet, and the epoch itself
+        const epoch = { createdAt: new Date(0), id: 'aZ09x' };
+        assert.deepEqual(decodeCursor(encodeCursor(epoch)), epoch);
+    });
+
+    it('reject malformed or tampered cursors', () => {
+        for (const cursor of ['', 'not-a-cursor', encode('1700000000000'), encode('1700000000000:'), encode('-5:00042'), encode('1.5:00042'), encode('abc:00042')]) {
+            assert.equal(decodeCursor(cursor), null, cursor);
+        }
+    });
+
+    it('reject timestamps a Date cannot hold', () => {
+        assert.equal(decodeCursor(encode('8640000000000001:00042')), null);
+        assert.equal(decodeCursor(encode(`${'9'.repeat(400)}:00042`)), null);
+    });
+});
+
+describe('cacheUntilExpiry', () => {
+    const now = new Date('2026-05-01T12:00:00Z');
+    const expiring = (seconds: number) => ({ expireAt: new Date(now.getTime() + seconds * 1000) });
+
+    it('keeps the full header when nothing expires within reach of the cache', () => {
+        assert.equal(cacheUntilExpiry(60, 300, [{ expireAt: null }, expiring(3600)], now), 'public, s-maxage=60, stale-while-revalidate=300');
+        assert.equal(cacheUntilExpiry(10, true, [{ expireAt: null }], now), 'public, s-maxage=10, stale-while-revalidate');
+        assert.equal(cacheUntilExpiry(60, 300, [], now), 'public, s-maxage=60, stale-while-revalidate=300');
+    });
+
+    it('stops caching at the soonest expiry, without stale copies', () => {
+        assert.equal(cacheUntilExpiry(60, 300, [expiring(3600), expiring(200)], now), 'public, s-maxage=60');
+        assert.equal(cacheUntilExpiry(60, 300, [expiring(45)], now), 'public, s-maxage=45');
+        assert.equal(cacheUntilExpiry(60, 300, [expiring(-5)], now), 'public, s-maxage=0');
+        // Unbounded stale-while-revalidate is dropped for any record that expires at all
+        assert.equal(cacheUntilExpiry(10, true, [expiring(86400)], now), 'public, s-maxage=10');
+        assert.equal(cacheUntilExpiry(10, true, [expiring(3)], now), 'public, s-maxage=3');
+    });
+});
+
+describe('GET /api/images?cursor=', () => {
+    const app = buildApp();
+    after(() => app.close());
+
+    it('answers 400, not 500, to a bad cursor', async () => {
+        for (const cursor of ['%%%', encode('1700000000000'), encode(`${'9'.repeat(30)}:00042`)]) {
+            const res = await app.inject({ method: 'GET', url: `/api/images?cursor=${encodeURIComponent(cursor)}` });
+            assert.equal(res.statusCode, 400, cursor);
+            assert.deepEqual(res.json(), { ok: false, message: 'Invalid cursor' });
+        }
+    });
+});
+
+describe('GET /api/images/:id?key=', () => {
+    const app = buildApp();
+    const record = {
+        id: '00042',
+        url: 'https://cdn.example.com/_published/00042/token/a.jpg',
+        mediaType: 'IMAGE',
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+        isActive: true,
+        privacyCheckedAt: new Date('2026-01-01T00:00:00Z'),
+        publishAt: null,
+        expireAt: null,
+        visibility: 'PROTECTED',
+        passphraseHash: 'hash',
+        accessVersion: 3,
+        variants: [],
+        posterUrl: null,
+        renditions: [],
+    };
+    let current: Record<string, unknown> = record;
+    (prisma as any).image = { findUnique: async () => current };
+    after(() => app.close());
+
+    const open = (key?: string) => app.inject({ method: 'GET', url: `/api/images/00042${key ? `?key=${encodeURIComponent(key)}` : ''}` });
+
+    it('opens a protected record with a current token only', async () => {
+        await app.ready();
+        current = record;
+        const claims = VisibilityService.claimsFor(record);
+        assert.equal((await open(app.jwt.sign(claims))).statusCode, 200);
+        assert.equal((await open()).statusCode, 401);
+        // Revoked since, for another record, forged, or expired
+        assert.equal((await open(app.jwt.sign({ ...claims, v: 2 }))).statusCode, 401);
+        assert.equal((await open(app.jwt.sign({ ...claims, imageId: '00043' }))).statusCode, 401);
+        assert.equal((await open(`${app.jwt.sign(claims).slice(0, -4)}AAAA`)).statusCode, 401);
+        const expired = app.jwt.sign({ ...claims, iat: Math.floor(Date.now() / 1000) - 2 * 60 * 60 }, { expiresIn: '1h' });
+        assert.ok(app.jwt.decode<{ exp: number }>(expired)!.exp < Date.now() / 1000);
+        assert.equal((await open(expired)).statusCode, 401);
+    });
+
+    it('opens PUBLIC and UNLISTED records without a token', async () => {
+        for (const visibility of ['PUBLIC', 'UNLISTED']) {
+            current = { ...record, visibility };
+            const res = await open();
+            assert.equal(res.statusCode, 200, visibility);
+            assert.equal(res.json().url, record.url);
+        }
+    });
+});
@@ -1,38 +1,269 @@
 import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../utils/prisma';
+import { IdGenerator } from '../services/idGenerator';
+import { SLUG_REGEX } from '../services/collections';
+import { PlaylistService } from '../services/playlist';
+import { env } from '../config/env';
+import { ViewerClaims, VisibilityService } from '../services/visibility';
+
+// Resized AVIF/WebP renditions generated at ingestion (see services/derivatives.ts)
+const variantSchema = z.object({
+    url: z.string(),
+    width: z.number(),
+    height: z.number(),
+    format: z.string(),
+});
+
+const variantSelect = {
+    select: { url: true, width: true, height: true, format: true },
+    orderBy: { width: 'asc' as const },
+};
+
+// Web-playable video transcodes (see services/videoRenditions.ts); empty for images
+const renditionSchema = z.object({
+    url: z.string(),
+    width: z.number(),
+    height: z.number(),
+    format: z.string(),
+});
+
+const renditionSelect = {
+    select: { url: true, width: true, height: true, format: true },
+    orderBy: { format: 'asc' as const },
+};
+
+// Shape of one slideshow entry, as in /api/images
+const publicImageSchema = z.object({
+    id: z.string(),
+    url: z.string(),
+    mediaType: z.enum(['IMAGE', 'VIDEO']),
+    createdAt: z.string().datetime(),
+    variants: z.array(variantSchema),
+    posterUrl: z.string().nullable(),
+    renditions: z.array(renditionSchema),
+});
+
+const publicImageSelect = {
+    id: true,
+    url: true,
+    mediaType: true,
+    createdAt: true,
+    isActive: true,
+    privacyCheckedAt: true,
+    publishAt: true,
+    expireAt: true,
+    visibility: true,
+    variants: variantSelect,
+    posterUrl: true,
+    renditions: renditionSelect,
+};
+
+// Paginated /api/images: just what the slideshow needs to display a record
+const compactImageSchema = z.object({
+    id: z.string(),
+    url: z.string(),
+    mediaType: z.enum(['IMAGE', 'VIDEO']),
+    posterUrl: z.string().nullable(),
+    variants: z.array(z.object({ url: z.string(), width: z.number(), format: z.string() })),
+    renditions: z.array(z.object({ url: z.string(), format: z.string() })),
+});
+
+const compactImageSelect = {
+    id: true,
+    url: true,
+    mediaType: true,
+    posterUrl: true,
+    variants: { select: { url: true, width: true, format: true }, orderBy: { width: 'asc' as const } },
+    renditions: { select: { url: true, format: true }, orderBy: { format: 'asc' as const } },
+};
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+/** Opaque page position: the last record's createdAt and id, base64url-encoded. */
+export const encodeCursor = (record: { createdAt: Date; id: string }) => {
+    return Buffer.from(`${record.createdAt.getTime()}:${record.id}`).toString('base64url');
+};
+
+/** Null for anything encodeCursor can't have produced, including timestamps outside the Date range. */
+export const decodeCursor = (cursor: string): { createdAt: Date; id: string } | null => {
+    const match = /^(\d+):(.+)$/.exec(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!match) return null;
+    const createdAt = new Date(Number(match[1]));
+    return Number.isNaN(createdAt.getTime()) ? null : { createdAt, id: match[2] };
+};
+
+/**
+ * Shared-cache header for a response listing `records`: `s-maxage` plus `stale-while-revalidate`
+ * (`true` for the bare, unbounded directive). When a record expires before a cache could stop
+ * serving the response, stale copies are dropped and `s-maxage` ends no later than that record.
+ */
+export const cacheUntilExpiry = (sMaxAge: number, stale: number | true, records: { expireAt: Date | null }[], now = new Date()): string => {
+    const secondsLeft = Math.min(...records.map(record => (record.expireAt
+        ? Math.floor((record.expireAt.getTime() - now.getTime()) / 1000)
+        : Infinity)));
+    const window = stale === true ? Infinity : sMaxAge + stale;
+    if (secondsLeft < window) {
+        return `public, s-maxage=${Math.max(0, Math.min(sMaxAge, secondsLeft))}`;
+    }
+    return `public, s-maxage=${sMaxAge}, stale-while-revalidate${stale === true ? '' : `=${stale}`}`;
+};
 
 export const publicRoutes: FastifyPluginAsyncZod = async (app) => {
+    /** Claims of a valid viewer token; null when it's malformed, forged or expired. */
+    const verifyViewerToken = (token: string): Partial<ViewerClaims> | null => {
+        try {
+            return app.jwt.verify<Partial<ViewerClaims>>(token);
+        } catch {
+            return null;
+        }
+    };
 
     // GET /api/images
+    // Without `limit`/`cursor`: every matching record as a plain array (original behaviour).
+    // With either: one page of compact records, newest first, plus `nextCursor` for the following page.
     app.get('/images', {
         schema: {
+            querystring: z.object({
+                limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+                cursor: z.string().max(200).optional(),
+                mediaType: z.enum(['IMAGE', 'VIDEO']).optional(),
+                since: z.coerce.date().optional(),
+                until: z.coerce.date().optional(),
+                collection: z.string().regex(SLUG_REGEX).optional(),
+            }),
             response: {
-                200: z.array(z.object({
-                    id: z.string(),
-                    url: z.string(),
-                    mediaType: z.enum(['IMAGE', 'VIDEO']),
-                    createdAt: z.string().datetime(),
-                })),
+                200: z.union([
+                    z.array(z.object({
+                        id: z.string(),
+                        url: z.string(),
+                        mediaType: z.enum(['IMAGE', 'VIDEO']),
+                        createdAt: z.string().datetime(),
+                        variants: z.array(variantSchema),
+                        posterUrl: z.string().nullable(),
+                        renditions: z.array(renditionSchema),
+                    })),
+                    z.object({
+                        items: z.array(compactImageSchema),
+                        nextCursor: z.string().nullable(),
+                    }),
+                ]),
             },
         },
     }, async (req, reply) => {
-        reply.header('Cache-Control', 'public, s-maxage=10, stale-while-revalidate');
+        const { limit, cursor, mediaType, since, until, collection } = req.query;
+        const where: Prisma.ImageWhereInput = {
+            ...VisibilityService.listedWhere(),
+            mediaType,
+            createdAt: since || until ? { gte: since, lt: until } : undefined,
+            collectionItems: collection ? { some: { collection: { slug: collection } } } : undefined,
+        };
 
-        const images = await prisma.image.findMany({
-            where: { isActive: true },
-            select: {
-                id: true,
-                url: true,
-                mediaType: true,
-                createdAt: true,
+        if (limit === undefined && cursor === undefined) {
+            const images = await prisma.image.findMany({
+                where,
+                select: {
+                    id: true,
+                    url: true,
+                    mediaType: true,
+                    createdAt: true,
+                    variants: variantSelect,
+                    posterUrl: true,
+                    renditions: renditionSelect,
+                    expireAt: true,
+                },
+                orderBy: { createdAt: 'desc' },
+            });
+            reply.header('Cache-Control', cacheUntilExpiry(10, true, images));
+            return images.map(({ expireAt, ...img }) => ({
+                ...img,
+                createdAt: img.createdAt.toISOString(),
+            }));
+        }
+
+        const after = cursor ? decodeCursor(cursor) : null;
+        if (cursor && !after) {
+            return reply.code(400).send({ ok: false, message: 'Invalid cursor' } as any);
+        }
+        const take = limit ?? DEFAULT_PAGE_SIZE;
+        const page = await prisma.image.findMany({
+            where: after
+                ? {
+                    AND: [where, {
+                        OR: [
+                            { createdAt: { lt: after.createdAt } },
+                            { createdAt: after.createdAt, id: { lt: after.id } },
+                        ],
+                    }],
+                }
+                : where,
+            select: { ...compactImageSelect, createdAt: true, expireAt: true },
+            // id breaks createdAt ties so every record lands on exactly one page
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            take: take + 1,
+        });
+
+        const items = page.slice(0, take);
+        // Later pages are stable for a while; the first one changes with every new upload
+        reply.header('Cache-Control', cursor
+            ? cacheUntilExpiry(60, 300, items)
+            : cacheUntilExpiry(10, true, items));
+
+        const last = items[items.length - 1];
+        return {
+            items: items.map(({ createdAt, expireAt, ...img }) => img),
+            nextCursor: page.length > take ? encodeCursor(last) : null,
+        };
+    });
+
+    // GET /api/playlist
+    // Endless seeded shuffle of the archive, paged by position; the same seed gives the same order
+    app.get('/playlist', {
+        schema: {
+            querystring: z.object({
+                seed: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/).optional(),
+                weight: z.enum(['none', 'recent', 'featured']).default('none'),
+                offset: z.coerce.number().int().min(0).default(0),
+                limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(50),
+            }),
+            response: {
+                200: z.object({
+                    seed: z.string(),
+                    weight: z.enum(['none', 'recent', 'featured']),
+                    // Items in one full pass; positions beyond it continue into a reshuffled pass
+                    total: z.number(),
+                    offset: z.number(),
+                    nextOffset: z.number(),
+                    items: z.array(compactImageSchema),
+                }),
             },
-            orderBy: { createdAt: 'desc' },
+        },
+    }, async (req, reply) => {
+        const { weight, offset, limit } = req.query;
+        const seed = req.query.seed ?? PlaylistService.randomSeed();
+        const { ids, total } = await PlaylistService.page(seed, weight, offset, limit);
+
+        const records = await prisma.image.findMany({
+            where: { ...VisibilityService.listedWhere(), id: { in: [...new Set(ids)] } },
+            select: { ...compactImageSelect, expireAt: true },
         });
-        return images.map((img) => ({
-            ...img,
-            createdAt: img.createdAt.toISOString(),
-        }));
+        const byId = new Map(records.map(({ expireAt, ...record }) => [record.id, record]));
+
+        // A seeded page is the same for everyone; a fresh seed is this viewer's alone
+        reply.header('Cache-Control', req.query.seed
+            ? cacheUntilExpiry(60, 300, records)
+            : 'private, no-store');
+        return {
+            seed,
+            weight,
+            total,
+            offset,
+            nextOffset: offset + ids.length,
+            // Deactivated between the two queries: skip rather than fail the page
+            items: ids.flatMap(id => (byId.has(id) ? [byId.get(id)!] : [])),
+        };
     });
 
     // GET /api/images/random
@@ -44,36 +275,36 @@ export const publicRoutes: FastifyPluginAsyncZod = async (app) => {
                     url: z.string(),
                     mediaType: z.enum(['IMAGE', 'VIDEO']),
                     createdAt: z.string().datetime(),
+                    variants: z.array(variantSchema),
+                    posterUrl: z.string().nullable(),
+                    renditions: z.array(renditionSchema),
                 }),
             },
         },
     }, async (req, reply) => {
-        // Improvement: added cache control as requested
-        reply.header('Cache-Control', 'public, s-maxage=60, stale-while-revalidate=300');
-
-        // Efficient random sampling using PostgreSQL random() if table is small-ish
-        // For prisma, we can use raw query or skip
-        const count = await prisma.image.count({ where: { isActive: true } });
-        if (count === 0) {
-            return reply.code(404).send();
-        }
-        const skip = Math.floor(Math.random() * count);
-        const [image] = await prisma.image.findMany({
-            where: { isActive: true },
-            take: 1,
-            skip: skip,
-            select: {
-                id: true,
-                url: true,
-                mediaType: true,
-                createdAt: true
-            }
-        });
+        // First listed record at or after a random point of the ID space, wrapping around to the
+        // lowest ID: an index lookup instead of counting the table and skipping through it.
+        // IDs are spread over the space by the allocator (see IdGenerator), so picks stay close to uniform.
+        const where = VisibilityService.listedWhere();
+        const select = {
+            id: true,
+            url: true,
+            mediaType: true,
+            createdAt: true,
+            variants: variantSelect,
+            posterUrl: true,
+            renditions: renditionSelect,
+            expireAt: true,
+        };
+        const image = await prisma.image.findFirst({ where: { ...where, id: { gte: IdGenerator.randomId() } }, orderBy: { id: 'asc' }, select })
+            ?? await prisma.image.findFirst({ where, orderBy: { id: 'asc' }, select });
 
         if (!image) return reply.code(404).send();
+        reply.header('Cache-Control', cacheUntilExpiry(60, 300, [image]));
+        const { expireAt, ...img } = image;
         return {
-            ...image,
-            createdAt: image.createdAt.toISOString(),
+            ...img,
+            createdAt: img.createdAt.toISOString(),
         };
     });
 
@@ -81,19 +312,27 @@ export const publicRoutes: FastifyPluginAsyncZod = async (app) => {
     app.get('/images/:id', {
         schema: {
             params: z.object({
-                id: z.string().length(5),
+                id: z.string().regex(IdGenerator.idRegex),
+            }),
+            querystring: z.object({
+                // Viewer token for a protected record: from /unlock or a signed link (`/<id>?key=...`)
+                key: z.string().max(2000).optional(),
             }),
             response: {
                 200: z.object({
                     id: z.string(),
                     url: z.string(),
                     mediaType: z.enum(['IMAGE', 'VIDEO']),
-                    createdAt: z.string().datetime()
+                    createdAt: z.string().datetime(),
+                    variants: z.array(variantSchema),
+                    posterUrl: z.string().nullable(),
+                    renditions: z.array(renditionSchema),
                 })
             }
         },
     }, async (req, reply) => {
         const { id } = req.params;
+        const { key } = req.query;
 
         // We check for the record regardless of active state first to distinguish 404 vs 410
         const image = await prisma.image.findUnique({
@@ -104,24 +343,163 @@ export const publicRoutes: FastifyPluginAsyncZod = async (app) => {
                 mediaType: true,
                 createdAt: true,
                 isActive: true,
+                privacyCheckedAt: true,
+                publishAt: true,
+                expireAt: true,
+                visibility: true,
+                passphraseHash: true,
+                accessVersion: true,
+                variants: variantSelect,
+                posterUrl: true,
+                renditions: renditionSelect,
             }
         });
 
         if (!image) {
+            // Reassigned records keep their old IDs as permanent redirects so shared links survive
+            const currentId = await IdGenerator.resolveRedirect(id);
+            if (currentId) {
+                // A redirect can be undone by reassigning the record back: browsers must not keep it, the CDN only briefly
+                reply.header('Cache-Control', 'public, max-age=0, s-maxage=300');
+                return reply.redirect(301, `./${currentId}`);
+            }
             return reply.code(404).send();
         }
 
-        if (!image.isActive) {
+        const now = new Date();
+        if (!image.isActive || (image.expireAt && image.expireAt <= now)) {
             return reply.code(410).send(); // Gone
         }
+        // Staged for later, or not yet through the privacy step: indistinguishable from an unused ID
+        if ((image.publishAt && image.publishAt > now) || !VisibilityService.isSanitized(image)) {
+            return reply.code(404).send();
+        }
 
-        reply.header('Cache-Control', 'public, s-maxage=60, stale-while-revalidate');
+        if (image.visibility === 'PROTECTED') {
+            // Per-viewer from here on: never let a shared cache hold either answer
+            reply.header('Cache-Control', 'private, no-store');
+            if (!VisibilityService.grants(key ? verifyViewerToken(key) : null, image)) {
+                return reply.code(401).send({
+                    ok: false,
+                    message: 'This record is protected',
+                    // Whether the unlock screen can offer a passphrase field (else only signed links open it)
+                    passphrase: Boolean(image.passphraseHash),
+                } as any);
+            }
+        } else {
+            // Don't let a cache keep serving the record past its expiry
+            const secondsLeft = image.expireAt ? Math.floor((image.expireAt.getTime() - now.getTime()) / 1000) : Infinity;
+            reply.header('Cache-Control', secondsLeft < 60
+                ? `public, s-maxage=${secondsLeft}`
+                : 'public, s-maxage=60, stale-while-revalidate');
+        }
 
         return {
             id: image.id,
             url: image.url,
             mediaType: image.mediaType as any,
-            createdAt: image.createdAt.toISOString()
+            createdAt: image.createdAt.toISOString(),
+            variants: image.variants,
+            posterUrl: image.posterUrl,
+            renditions: image.renditions,
+        };
+    });
+
+    // POST /api/images/:id/unlock
+    // Trade a protected record's passphrase for a viewer token (send it back as `?key=` on /images/:id)
+    app.post('/images/:id/unlock', {
+        config: {
+            rateLimit: {
+                max: 10,
+                timeWindow: '1 minute',
+            },
+        },
+        schema: {
+            params: z.object({
+                id: z.string().regex(IdGenerator.idRegex),
+            }),
+            body: z.object({
+                passphrase: z.string().min(1).max(200),
+            }),
+            response: {
+                200: z.object({
+                    ok: z.literal(true),
+                    key: z.string(),
+                    expiresAt: z.string().datetime(),
+                }),
+            },
+        },
+    }, async (req, reply) => {
+        reply.header('Cache-Control', 'private, no-store');
+        const image = await prisma.image.findUnique({
+            where: { id: req.params.id },
+            select: { id: true, visibility: true, passphraseHash: true, accessVersion: true },
+        });
+        if (!image || image.visibility !== 'PROTECTED' || !image.passphraseHash) {
+            return reply.code(404).send({ ok: false, message: 'Nothing to unlock' } as any);
+        }
+        if (!await VisibilityService.checkPassphrase(req.body.passphrase, image.passphraseHash)) {
+            return reply.code(401).send({ ok: false, message: 'Wrong passphrase' } as any);
+        }
+
+        const hours = env.PROTECTED_UNLOCK_HOURS;
+        return {
+            ok: true as const,
+            key: app.jwt.sign({ ...VisibilityService.claimsFor(image) }, { expiresIn: `${hours}h` }),
+            expiresAt: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+        };
+    });
+
+    // GET /api/collections/:slug
+    app.get('/collections/:slug', {
+        schema: {
+            params: z.object({
+                slug: z.string().regex(SLUG_REGEX),
+            }),
+            response: {
+                200: z.object({
+                    slug: z.string(),
+                    title: z.string(),
+                    description: z.string().nullable(),
+                    cover: publicImageSchema.nullable(),
+                    images: z.array(publicImageSchema),
+                }),
+            },
+        },
+    }, async (req, reply) => {
+        const collection = await prisma.collection.findUnique({
+            where: { slug: req.params.slug },
+            select: {
+                slug: true,
+                title: true,
+                description: true,
+                cover: { select: publicImageSelect },
+                items: {
+                    select: { image: { select: publicImageSelect } },
+                    orderBy: { position: 'asc' },
+                },
+            },
+        });
+        if (!collection) {
+            return reply.code(404).send();
+        }
+
+        reply.header('Cache-Control', 'public, s-maxage=10, stale-while-revalidate');
+
+        const toPublic = ({ isActive, publishAt, expireAt, visibility, ...img }: NonNullable<typeof collection.cover>) => ({
+            ...img,
+            createdAt: img.createdAt.toISOString(),
+        });
+        // Deactivated, unpublished, expired and unlisted/protected members stay in the collection but drop out of the slideshow
+        const now = new Date();
+        const images = collection.items.map(item => item.image).filter(img => VisibilityService.isListed(img, now));
+        const cover = collection.cover && VisibilityService.isListed(collection.cover, now) ? collection.cover : images[0] ?? null;
+        return {
+            slug: collection.slug,
+            title: collection.title,
+            description: collection.description,
+            cover: cover ? toPublic(cover) : null,
+            images: images.map(toPublic),
         };
     });
 
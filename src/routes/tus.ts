@@ -0,0 +1,130 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { Readable } from 'stream';
+import { z } from 'zod';
+import { isStorageEnabled } from '../services/storage';
+import { ResumableUploads } from '../services/resumableUploads';
+
+const TUS_VERSION = '1.0.0';
+// Every chunk is a request of its own: far more than the app-wide limit allows for a large file
+const TUS_RATE_LIMIT = { max: 1000, timeWindow: '1 minute' };
+
+/**
+ * tus 1.0 resumable uploads (core + creation + termination + expiration), mounted at /api/admin/tus
+ * behind the admin auth hook. Finished uploads are registered as images; the archive ID is returned
+ * in `X-Archive-Id`. OPTIONS is answered by the CORS plugin, so there is no discovery response.
+ */
+export const tusRoutes: FastifyPluginAsyncZod = async (app) => {
+
+    // PATCH bodies are handed to the storage layer as a stream, never buffered
+    app.addContentTypeParser('application/offset+octet-stream', (req, payload, done) => {
+        done(null, payload);
+    });
+
+    app.addHook('onRequest', async (req, reply) => {
+        reply.header('Tus-Resumable', TUS_VERSION);
+        if (req.headers['tus-resumable'] !== TUS_VERSION) {
+            return reply.code(412).header('Tus-Version', TUS_VERSION).send({ ok: false, message: 'Unsupported tus version' } as any);
+        }
+        if (!isStorageEnabled()) {
+            return reply.code(503).send({ ok: false, message: 'Storage is disabled' } as any);
+        }
+    });
+
+    const fail = (err: any) => ({
+        status: typeof err?.statusCode === 'number' ? err.statusCode : 500,
+        message: err?.message ?? 'Upload failed',
+    });
+
+    // POST /api/admin/tus  (creation)
+    app.post('/', {
+        config: { rateLimit: TUS_RATE_LIMIT },
+        schema: {
+            headers: z.object({
+                'upload-length': z.coerce.number().int().min(0),
+                'upload-metadata': z.string().optional(),
+            }).passthrough(),
+        }
+    }, async (req, reply) => {
+        try {
+            const upload = await ResumableUploads.create(req.headers['upload-length'], req.headers['upload-metadata']);
+            return reply.code(201)
+                .header('Location', `${req.url.replace(/\/$/, '')}/${upload.id}`)
+                .header('Upload-Expires', upload.expiresAt.toUTCString())
+                .send();
+        } catch (err) {
+            const { status, message } = fail(err);
+            return reply.code(status).send({ ok: false, message } as any);
+        }
+    });
+
+    // HEAD /api/admin/tus/:id  (current offset, used to resume)
+    app.head('/:id', {
+        config: { rateLimit: TUS_RATE_LIMIT },
+        schema: {
+            params: z.object({ id: z.string() })
+        }
+    }, async (req, reply) => {
+        const upload = await ResumableUploads.get(req.params.id);
+        reply.header('Cache-Control', 'no-store');
+        if (!upload) {
+            return reply.code(404).send();
+        }
+        reply
+            .header('Upload-Offset', String(upload.offset))
+            .header('Upload-Length', String(upload.length))
+            .header('Upload-Expires', upload.expiresAt.toUTCString());
+        if (upload.metadata) reply.header('Upload-Metadata', upload.metadata);
+        if (upload.imageId) reply.header('X-Archive-Id', upload.imageId);
+        return reply.code(200).send();
+    });
+
+    // PATCH /api/admin/tus/:id  (append bytes at Upload-Offset)
+    app.patch('/:id', {
+        config: { rateLimit: TUS_RATE_LIMIT },
+        schema: {
+            params: z.object({ id: z.string() }),
+            headers: z.object({
+                'upload-offset': z.coerce.number().int().min(0),
+                'content-type': z.string().optional(),
+            }).passthrough(),
+        }
+    }, async (req, reply) => {
+        if (req.headers['content-type'] !== 'application/offset+octet-stream') {
+            return reply.code(415).send({ ok: false, message: 'Expected application/offset+octet-stream' } as any);
+        }
+        const upload = await ResumableUploads.get(req.params.id);
+        if (!upload) {
+            return reply.code(404).send({ ok: false, message: 'Upload not found or expired' } as any);
+        }
+
+        try {
+            const offset = await ResumableUploads.append(upload, req.headers['upload-offset'], req.body as Readable);
+            reply.header('Upload-Offset', String(offset)).header('Upload-Expires', upload.expiresAt.toUTCString());
+            // Last byte received (or a retry after a failed finalize): assemble and register
+            if (offset === upload.length) {
+                const { imageId, duplicateOf } = await ResumableUploads.finalize(upload.id);
+                reply.header('X-Archive-Id', imageId);
+                if (duplicateOf) reply.header('X-Duplicate-Of', duplicateOf);
+            }
+            return reply.code(204).send();
+        } catch (err) {
+            const { status, message } = fail(err);
+            return reply.code(status).send({ ok: false, message } as any);
+        }
+    });
+
+    // DELETE /api/admin/tus/:id  (termination)
+    app.delete('/:id', {
+        config: { rateLimit: TUS_RATE_LIMIT },
+        schema: {
+            params: z.object({ id: z.string() })
+        }
+    }, async (req, reply) => {
+        const upload = await ResumableUploads.get(req.params.id);
+        if (!upload) {
+            return reply.code(404).send({ ok: false, message: 'Upload not found or expired' } as any);
+        }
+        await ResumableUploads.terminate(upload);
+        return reply.code(204).send();
+    });
+};
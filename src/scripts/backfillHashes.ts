@@ -0,0 +1,51 @@
+import { prisma } from '../utils/prisma';
+import { DuplicateService } from '../services/duplicates';
+
+const BATCH_SIZE = 25;
+
+// Re-hash everything with --all; by default only records without a content hash
+const rehashAll = process.argv.includes('--all');
+
+async function main() {
+    console.log(`🔎 Backfilling duplicate-detection hashes (${rehashAll ? 'all records' : 'missing only'})...`);
+
+    let processed = 0;
+    let failed = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+        const batch = await prisma.image.findMany({
+            where: {
+                ...(rehashAll ? {} : { sha256: null }),
+                ...(cursor ? { id: { gt: cursor } } : {}),
+            },
+            select: { id: true, originalKey: true },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+        });
+        if (batch.length === 0) break;
+
+        for (const image of batch) {
+            try {
+                const hashes = await DuplicateService.hashAndStore(image.id);
+                processed++;
+                console.log(`✅ ${image.id} ${hashes.sha256.slice(0, 12)} ${hashes.phash ?? ''}`);
+            } catch (err: any) {
+                failed++;
+                console.error(`❌ ${image.id} (${image.originalKey}): ${err?.message ?? err}`);
+            }
+        }
+        cursor = batch[batch.length - 1].id;
+    }
+
+    console.log(`Done. Hashed ${processed}, failed ${failed}.`);
+}
+
+main()
+    .catch((e) => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
@@ -0,0 +1,51 @@
+import { prisma } from '../utils/prisma';
+import { MetadataService } from '../services/metadata';
+
+const BATCH_SIZE = 25;
+
+// Re-extract everything with --all; by default only records never processed by the extractor
+const reextractAll = process.argv.includes('--all');
+
+async function main() {
+    console.log(`🔎 Backfilling media metadata (${reextractAll ? 'all records' : 'missing only'})...`);
+
+    let processed = 0;
+    let failed = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+        const batch = await prisma.image.findMany({
+            where: {
+                ...(reextractAll ? {} : { metadataExtractedAt: null }),
+                ...(cursor ? { id: { gt: cursor } } : {}),
+            },
+            select: { id: true, originalKey: true },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+        });
+        if (batch.length === 0) break;
+
+        for (const image of batch) {
+            try {
+                const metadata = await MetadataService.extractAndStore(image.id);
+                processed++;
+                console.log(`✅ ${image.id} ${metadata.width ?? '?'}x${metadata.height ?? '?'} ${metadata.capturedAt?.toISOString() ?? ''}`);
+            } catch (err: any) {
+                failed++;
+                console.error(`❌ ${image.id} (${image.originalKey}): ${err?.message ?? err}`);
+            }
+        }
+        cursor = batch[batch.length - 1].id;
+    }
+
+    console.log(`Done. Extracted ${processed}, failed ${failed}.`);
+}
+
+main()
+    .catch((e) => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
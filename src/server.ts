@@ -1,12 +1,20 @@
 import { buildApp } from './app';
 import { env } from './config/env';
 import { startScheduler } from './jobs/syncR2';
+import { startIngestScheduler } from './jobs/ingest';
+import { startWebhookWorker } from './jobs/webhookEvents';
+import { startUploadCleanup } from './jobs/uploads';
+import { startScheduleWatcher } from './jobs/schedule';
 
 const start = async () => {
     const app = buildApp();
 
     // Start background jobs
     startScheduler();
+    startIngestScheduler();
+    startWebhookWorker();
+    startUploadCleanup();
+    startScheduleWatcher();
 
     try {
         await app.listen({ port: env.PORT, host: '0.0.0.0' });
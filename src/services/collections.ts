@@ -0,0 +1,156 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+
+/** Lowercase words joined by single dashes, as used in `/c/<slug>` */
+export const SLUG_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const SLUG_MAX_LENGTH = 80;
+
+export interface CollectionInput {
+    title?: string;
+    slug?: string;
+    description?: string | null;
+    coverImageId?: string | null;
+    /** Full ordered membership; replaces the current items */
+    imageIds?: string[];
+}
+
+const collectionError = (statusCode: number, message: string) => Object.assign(new Error(message), { statusCode });
+
+const adminInclude = {
+    items: { select: { imageId: true }, orderBy: { position: 'asc' as const } },
+};
+
+type CollectionWithItems = Prisma.CollectionGetPayload<{ include: typeof adminInclude }>;
+
+const toAdmin = (collection: CollectionWithItems) => {
+    const { items, ...rest } = collection;
+    return {
+        ...rest,
+        imageIds: items.map(item => item.imageId),
+        createdAt: collection.createdAt.toISOString(),
+        updatedAt: collection.updatedAt.toISOString(),
+    };
+};
+
+/**
+ * Named, ordered subsets of the archive. Membership is stored as positions so the public
+ * slideshow can play a series in the order it was curated.
+ */
+export class CollectionService {
+    static slugify(title: string): string {
+        const slug = title
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .slice(0, SLUG_MAX_LENGTH)
+            .replace(/^-+|-+$/g, '');
+        return slug || 'collection';
+    }
+
+    static async list() {
+        const collections = await prisma.collection.findMany({ include: adminInclude, orderBy: { createdAt: 'desc' } });
+        return collections.map(toAdmin);
+    }
+
+    static async create(input: CollectionInput & { title: string }) {
+        const slug = input.slug ?? await this.uniqueSlug(this.slugify(input.title));
+        if (input.slug) await this.checkSlugFree(slug);
+        const imageIds = await this.checkImages(input.imageIds ?? [], input.coverImageId);
+
+        const collection = await this.withSlugConflict(() => prisma.collection.create({
+            data: {
+                slug,
+                title: input.title,
+                description: input.description ?? null,
+                coverImageId: input.coverImageId ?? null,
+                items: { create: imageIds.map((imageId, position) => ({ imageId, position })) },
+            },
+            include: adminInclude,
+        }));
+        return toAdmin(collection);
+    }
+
+    static async update(id: number, input: CollectionInput) {
+        const existing = await prisma.collection.findUnique({ where: { id }, select: { slug: true } });
+        if (!existing) {
+            throw collectionError(404, 'Collection not found');
+        }
+        if (input.slug && input.slug !== existing.slug) await this.checkSlugFree(input.slug);
+        const checked = await this.checkImages(input.imageIds ?? [], input.coverImageId);
+        const imageIds = input.imageIds ? checked : undefined;
+
+        const collection = await this.withSlugConflict(() => prisma.$transaction(async (tx) => {
+            if (imageIds) {
+                await tx.collectionItem.deleteMany({ where: { collectionId: id } });
+                await tx.collectionItem.createMany({
+                    data: imageIds.map((imageId, position) => ({ collectionId: id, imageId, position })),
+                });
+            }
+            return tx.collection.update({
+                where: { id },
+                data: {
+                    title: input.title,
+                    slug: input.slug,
+                    description: input.description,
+                    coverImageId: input.coverImageId,
+                },
+                include: adminInclude,
+            });
+        }));
+        return toAdmin(collection);
+    }
+
+    /** Remove a collection; its images are untouched. False if it didn't exist. */
+    static async remove(id: number): Promise<boolean> {
+        const result = await prisma.collection.deleteMany({ where: { id } });
+        return result.count > 0;
+    }
+
+    /** De-duplicated IDs in their first-seen order; every ID (and the cover) must exist. */
+    private static async checkImages(imageIds: string[], coverImageId?: string | null): Promise<string[]> {
+        const ordered = [...new Set(imageIds)];
+        const wanted = coverImageId ? [...new Set([...ordered, coverImageId])] : ordered;
+        if (!wanted.length) return ordered;
+
+        const found = await prisma.image.findMany({ where: { id: { in: wanted } }, select: { id: true } });
+        const known = new Set(found.map(image => image.id));
+        const unknown = wanted.filter(id => !known.has(id));
+        if (unknown.length) {
+            throw collectionError(400, `Unknown archive IDs: ${unknown.join(', ')}`);
+        }
+        return ordered;
+    }
+
+    private static async checkSlugFree(slug: string) {
+        const taken = await prisma.collection.findUnique({ where: { slug }, select: { id: true } });
+        if (taken) {
+            throw collectionError(409, `Slug "${slug}" is already in use`);
+        }
+    }
+
+    /** `base`, else `base-2`, `base-3`, ... */
+    private static async uniqueSlug(base: string): Promise<string> {
+        const taken = await prisma.collection.findMany({
+            where: { slug: { startsWith: base } },
+            select: { slug: true },
+        });
+        const slugs = new Set(taken.map(c => c.slug));
+        if (!slugs.has(base)) return base;
+        let n = 2;
+        while (slugs.has(`${base}-${n}`)) n++;
+        return `${base}-${n}`;
+    }
+
+    /** Two admins saving the same slug at once: the loser gets the same 409 as the pre-check. */
+    private static async withSlugConflict<T>(fn: () => Promise<T>): Promise<T> {
+        try {
+            return await fn();
+        } catch (err) {
+            if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+                throw collectionError(409, 'Slug is already in use');
+            }
+            throw err;
+        }
+    }
+}
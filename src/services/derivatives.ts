@@ -0,0 +1,111 @@
+import sharp from 'sharp';
+import { env } from '../config/env';
+import { prisma } from '../utils/prisma';
+import { streamToBuffer } from '../utils/stream';
+import { ImageConverter } from './imageConversion';
+import { PrivacyService } from './privacy';
+import { R2Service, DERIVATIVES_DIR } from './r2';
+
+export type DerivativeFormat = 'avif' | 'webp' | 'jpeg';
+
+const CONTENT_TYPES: Record<DerivativeFormat, string> = {
+    avif: 'image/avif',
+    webp: 'image/webp',
+    jpeg: 'image/jpeg',
+};
+
+// Encoder settings tuned for photographic content; AVIF is much slower so keep effort moderate
+const ENCODE_OPTIONS: Record<DerivativeFormat, object> = {
+    avif: { quality: 50, effort: 4 },
+    webp: { quality: 78 },
+    jpeg: { quality: 80, mozjpeg: true },
+};
+
+export class DerivativeService {
+    /** Widths to render for a source of the given width: every configured width below it, or the source width if it's smaller than all of them. */
+    static planWidths(sourceWidth: number): number[] {
+        const widths = env.DERIVATIVE_WIDTHS.filter(w => w < sourceWidth);
+        if (widths.length === 0) return [sourceWidth];
+        return widths;
+    }
+
+    static variantKey(image: { id: string; mediaToken: string | null }, width: number, format: DerivativeFormat): string {
+        return R2Service.mediaKey(DERIVATIVES_DIR, image, `${width}.${format}`);
+    }
+
+    /**
+     * Render resized AVIF/WebP (per DERIVATIVE_FORMATS) copies of an image's original
+     * and record them as ImageVariant rows. Safe to re-run; existing variants are overwritten.
+     * `source` must be displayable (already converted for HEIC/RAW originals).
+     */
+    static async generateForImage(imageId: string, source?: Buffer) {
+        const image = await prisma.image.findUnique({ where: { id: imageId } });
+        if (!image) {
+            throw new Error(`Image ${imageId} not found`);
+        }
+        if (image.mediaType !== 'IMAGE') return [];
+
+        const r2 = new R2Service();
+        const input = source ?? await ImageConverter.toDisplayable(
+            image.originalKey,
+            await streamToBuffer(await PrivacyService.openOriginal(image)),
+        );
+
+        const meta = await sharp(input, { failOn: 'none' }).metadata();
+        if (!meta.width || !meta.height) {
+            throw new Error(`Unable to read dimensions of ${image.originalKey}`);
+        }
+        // EXIF orientations 5-8 are rotated 90°, so the displayed width is the stored height
+        const sourceWidth = (meta.orientation ?? 1) >= 5 ? meta.height : meta.width;
+
+        const previous = await prisma.imageVariant.findMany({ where: { imageId: image.id }, select: { key: true } });
+        const variants = [];
+        for (const width of this.planWidths(sourceWidth)) {
+            for (const format of env.DERIVATIVE_FORMATS) {
+                const { data, info } = await sharp(input, { failOn: 'none' })
+                    .rotate()
+                    .resize({ width, withoutEnlargement: true })
+                    .toFormat(format, ENCODE_OPTIONS[format])
+                    .toBuffer({ resolveWithObject: true });
+
+                const key = this.variantKey(image, width, format);
+                await r2.putObject(key, data, CONTENT_TYPES[format]);
+
+                const variantData = {
+                    key,
+                    url: r2.getPublicUrl(key),
+                    width,
+                    height: info.height,
+                    sizeBytes: info.size,
+                };
+                variants.push(await prisma.imageVariant.upsert({
+                    where: { imageId_format_width: { imageId: image.id, format, width } },
+                    update: variantData,
+                    create: { imageId: image.id, format, ...variantData },
+                }));
+            }
+        }
+
+        // Drop files the record no longer uses: sizes the current plan doesn't produce (replaced
+        // original, changed config) and keys under a replaced media token
+        const kept = new Set(variants.map(v => v.key));
+        for (const { key } of previous) {
+            if (!kept.has(key)) await r2.deleteObject(key);
+        }
+        await prisma.imageVariant.deleteMany({ where: { imageId: image.id, id: { notIn: variants.map(v => v.id) } } });
+
+        return variants;
+    }
+
+    /** Remove all stored derivative files for an image (DB rows cascade with the Image). */
+    static async deleteForImage(imageId: string) {
+        const variants = await prisma.imageVariant.findMany({
+            where: { imageId },
+            select: { key: true },
+        });
+        const r2 = new R2Service();
+        for (const variant of variants) {
+            await r2.deleteObject(variant.key);
+        }
+    }
+}
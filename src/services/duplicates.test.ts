@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { segmentsOf } from './duplicates';
+
+/** Deterministic xorshift32, so a failure reproduces. */
+const randomOf = (seed: number) => () => {
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    return (seed >>> 0) / 4294967296;
+};
+
+const randomHash = (random: () => number) => {
+    return Array.from({ length: 16 }, () => Math.floor(random() * 16).toString(16)).join('');
+};
+
+/** Flip `bits` distinct random bits of a 64-bit hex hash. */
+const flipBits = (hash: string, bits: number, random: () => number) => {
+    const digits = hash.split('').map(digit => parseInt(digit, 16));
+    const positions = new Set<number>();
+    while (positions.size < bits) positions.add(Math.floor(random() * 64));
+    for (const position of positions) digits[position >> 2] ^= 1 << (position & 3);
+    return digits.map(digit => digit.toString(16)).join('');
+};
+
+const shareBucket = (a: string, b: string, maxDistance: number) => {
+    const left = segmentsOf(a, maxDistance)!;
+    const right = segmentsOf(b, maxDistance)!;
+    return left.some((segment, k) => segment.start === right[k].start && segment.value === right[k].value);
+};
+
+describe('segmentsOf', () => {
+    it('puts two hashes within the threshold in a common bucket', () => {
+        const random = randomOf(0x5eed);
+        for (let maxDistance = 0; maxDistance <= 15; maxDistance++) {
+            for (let trial = 0; trial < 300; trial++) {
+                const hash = randomHash(random);
+                const near = flipBits(hash, Math.floor(random() * (maxDistance + 1)), random);
+                assert.ok(shareBucket(hash, near, maxDistance), `${hash} / ${near} at distance <= ${maxDistance}`);
+            }
+        }
+    });
+
+    it('still finds a common bucket when every differing bit is in a different run', () => {
+        // Worst case: one flipped bit in each of maxDistance runs leaves exactly one run untouched
+        const hash = '0123456789abcdef';
+        for (let maxDistance = 1; maxDistance <= 15; maxDistance++) {
+            const runs = segmentsOf(hash, maxDistance)!;
+            const digits = hash.split('').map(digit => parseInt(digit, 16));
+            runs.slice(0, maxDistance).forEach(({ start }) => { digits[start] ^= 1; });
+            assert.ok(shareBucket(hash, digits.map(digit => digit.toString(16)).join(''), maxDistance));
+        }
+    });
+
+    it('covers the whole hash with maxDistance + 1 runs', () => {
+        for (let maxDistance = 0; maxDistance <= 15; maxDistance++) {
+            const runs = segmentsOf('0123456789abcdef', maxDistance)!;
+            assert.equal(runs.length, maxDistance + 1);
+            assert.equal(runs.map(run => run.value).join(''), '0123456789abcdef');
+        }
+    });
+
+    it('gives up when there are more runs than digits', () => {
+        assert.equal(segmentsOf('0123456789abcdef', 16), null);
+        assert.equal(segmentsOf('0123456789abcdef', 64), null);
+    });
+});
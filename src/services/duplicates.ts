@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { Readable } from 'stream';
+import { Prisma } from '@prisma/client';
+import { env } from '../config/env';
+import { prisma } from '../utils/prisma';
+import { streamToBuffer } from '../utils/stream';
+import { ImageConverter } from './imageConversion';
+import { PrivacyService } from './privacy';
+import { R2Service } from './r2';
+
+export interface DuplicateMatch {
+    id: string;
+    /** `exact`: same bytes (SHA-256); `similar`: perceptual hashes within DUPLICATE_PHASH_DISTANCE */
+    kind: 'exact' | 'similar';
+    distance: number;
+}
+
+export interface DuplicateGroup {
+    kind: 'exact' | 'similar';
+    images: {
+        id: string;
+        url: string;
+        originalKey: string;
+        mediaType: 'IMAGE' | 'VIDEO';
+        isActive: boolean;
+        createdAt: Date;
+        sizeBytes: number | null;
+        width: number | null;
+        height: number | null;
+        /** Perceptual distance to the first (oldest) image of the group; 0 for identical bytes */
+        distance: number;
+    }[];
+}
+
+const popcount = (n: number) => {
+    n = n - ((n >>> 1) & 0x55555555);
+    n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+    return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+/** 64-bit hex hash → two 32-bit halves, so distances are plain integer ops. */
+const split = (hash: string): [number, number] => [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)];
+
+const distanceOf = (a: [number, number], b: [number, number]) => popcount(a[0] ^ b[0]) + popcount(a[1] ^ b[1]);
+
+/**
+ * Cut a hex hash into maxDistance + 1 runs of digits. Two hashes within maxDistance bits differ in at
+ * most maxDistance runs, so they share at least one: only hashes with a run in common need comparing.
+ * Null when that takes more runs than there are digits (then every pair has to be compared).
+ */
+export const segmentsOf = (hash: string, maxDistance: number): { start: number; value: string }[] | null => {
+    const count = maxDistance + 1;
+    if (count > hash.length) return null;
+    return Array.from({ length: count }, (_, k) => {
+        const start = Math.floor((k * hash.length) / count);
+        return { start, value: hash.slice(start, Math.floor(((k + 1) * hash.length) / count)) };
+    });
+};
+
+/**
+ * Finds the same photo or video stored more than once: SHA-256 of the original for byte-identical
+ * files, and a difference hash (dHash) of the picture for re-encodes, resizes and metadata edits.
+ */
+export class DuplicateService {
+    static contentHash(buffer: Buffer): string {
+        return crypto.createHash('sha256').update(buffer).digest('hex');
+    }
+
+    static async hashStream(stream: Readable): Promise<string> {
+        const hash = crypto.createHash('sha256');
+        for await (const chunk of stream) hash.update(chunk);
+        return hash.digest('hex');
+    }
+
+    /** dHash: brightness gradients of a 9x8 grayscale thumbnail, as 16 hex characters. */
+    static async perceptualHash(buffer: Buffer): Promise<string> {
+        const pixels = await sharp(buffer, { failOn: 'none' })
+            .rotate()
+            .grayscale()
+            .resize(9, 8, { fit: 'fill' })
+            .raw()
+            .toBuffer();
+        let hex = '';
+        for (let row = 0; row < 8; row++) {
+            let byte = 0;
+            for (let col = 0; col < 8; col++) {
+                byte = (byte << 1) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0);
+            }
+            hex += byte.toString(16).padStart(2, '0');
+        }
+        return hex;
+    }
+
+    static distance(a: string, b: string): number {
+        return distanceOf(split(a), split(b));
+    }
+
+    /** Compute and store both hashes for an existing record (ingest does this for new ones). */
+    static async hashAndStore(imageId: string): Promise<{ sha256: string; phash: string | null }> {
+        const image = await prisma.image.findUnique({ where: { id: imageId } });
+        if (!image) {
+            throw new Error(`Image ${imageId} not found`);
+        }
+        let sha256: string;
+        let phash: string | null = null;
+        if (image.mediaType === 'IMAGE') {
+            const original = await streamToBuffer(await PrivacyService.openOriginal(image));
+            sha256 = this.contentHash(original);
+            phash = await this.perceptualHash(await ImageConverter.toDisplayable(image.originalKey, original));
+        } else {
+            sha256 = await this.hashStream(await PrivacyService.openOriginal(image));
+        }
+        await prisma.image.update({ where: { id: imageId }, data: { sha256, phash } });
+        return { sha256, phash };
+    }
+
+    /** The oldest other record with the same bytes, else the closest perceptual match within the threshold. */
+    static async findMatch(hashes: { sha256?: string | null; phash?: string | null }, excludeId?: string): Promise<DuplicateMatch | null> {
+        const notSelf = excludeId ? { id: { not: excludeId } } : {};
+        if (hashes.sha256) {
+            const exact = await prisma.image.findFirst({
+                where: { sha256: hashes.sha256, ...notSelf },
+                orderBy: { createdAt: 'asc' },
+                select: { id: true },
+            });
+            if (exact) return { id: exact.id, kind: 'exact', distance: 0 };
+        }
+        if (!hashes.phash) return null;
+
+        const target = split(hashes.phash);
+        // Only records sharing a run of digits can be close enough (see segmentsOf)
+        const segments = segmentsOf(hashes.phash, env.DUPLICATE_PHASH_DISTANCE);
+        const sharesSegment = segments && Prisma.join(segments.map(({ start, value }) =>
+            Prisma.sql`substr("phash", ${Prisma.raw(String(start + 1))}, ${Prisma.raw(String(value.length))}) = ${value}`), ' OR ');
+        const candidates = await prisma.$queryRaw<{ id: string; phash: string }[]>`
+            SELECT "id", "phash" FROM "images"
+            WHERE "phash" IS NOT NULL
+                ${excludeId ? Prisma.sql`AND "id" <> ${excludeId}` : Prisma.empty}
+                ${sharesSegment ? Prisma.sql`AND (${sharesSegment})` : Prisma.empty}
+            ORDER BY "createdAt" ASC
+        `;
+        let best: DuplicateMatch | null = null;
+        for (const candidate of candidates) {
+            const distance = distanceOf(target, split(candidate.phash));
+            if (distance <= env.DUPLICATE_PHASH_DISTANCE && (!best || distance < best.distance)) {
+                best = { id: candidate.id, kind: 'similar', distance };
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Upload-time lookup for an object that was just stored; null when DUPLICATE_UPLOAD_POLICY is off
+     * or nothing matches. Pass the SHA-256 when the upload path already computed it.
+     */
+    static async findForUpload(key: string, sha256?: string): Promise<DuplicateMatch | null> {
+        if (env.DUPLICATE_UPLOAD_POLICY === 'off') return null;
+
+        const r2 = new R2Service();
+        let phash: string | undefined;
+        // HEIC/RAW can't be hashed perceptually before conversion; exact matches still apply
+        if (R2Service.isImage(key) && !ImageConverter.needsConversion(key)) {
+            const buffer = await streamToBuffer(await r2.getObjectStream(key));
+            sha256 ??= this.contentHash(buffer);
+            phash = await this.perceptualHash(buffer).catch(() => undefined);
+        } else if (!sha256) {
+            sha256 = await this.hashStream(await r2.getObjectStream(key));
+        }
+        return this.findMatch({ sha256, phash });
+    }
+
+    /** Group all records that share bytes or look the same; groups are ordered oldest first. */
+    static async findGroups(maxDistance = env.DUPLICATE_PHASH_DISTANCE): Promise<DuplicateGroup[]> {
+        const images = await prisma.image.findMany({
+            where: { OR: [{ sha256: { not: null } }, { phash: { not: null } }] },
+            orderBy: { createdAt: 'asc' },
+            select: {
+                id: true, url: true, originalKey: true, mediaType: true, isActive: true, createdAt: true,
+                sizeBytes: true, width: true, height: true, sha256: true, phash: true,
+            },
+        });
+
+        // Union-find over "same bytes" and "close enough" pairs
+        const parent = images.map((_, i) => i);
+        const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+        const union = (a: number, b: number) => {
+            const [ra, rb] = [find(a), find(b)];
+            if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+        };
+
+        const bySha = new Map<string, number>();
+        images.forEach((image, i) => {
+            if (!image.sha256) return;
+            const first = bySha.get(image.sha256);
+            if (first === undefined) bySha.set(image.sha256, i);
+            else union(first, i);
+        });
+
+        // Compare only within buckets of hashes that share a run of digits (see segmentsOf)
+        const hashed = images.flatMap((image, i) => (image.phash ? [{ i, phash: image.phash, hash: split(image.phash) }] : []));
+        const buckets = new Map<string, typeof hashed>();
+        for (const entry of hashed) {
+            for (const { start, value } of segmentsOf(entry.phash, maxDistance) ?? [{ start: 0, value: '' }]) {
+                const key = `${start}:${value}`;
+                const bucket = buckets.get(key);
+                if (bucket) bucket.push(entry);
+                else buckets.set(key, [entry]);
+            }
+        }
+        for (const bucket of buckets.values()) {
+            for (let a = 0; a < bucket.length; a++) {
+                for (let b = a + 1; b < bucket.length; b++) {
+                    if (find(bucket[a].i) === find(bucket[b].i)) continue;
+                    if (distanceOf(bucket[a].hash, bucket[b].hash) <= maxDistance) union(bucket[a].i, bucket[b].i);
+                }
+            }
+        }
+
+        const members = new Map<number, number[]>();
+        images.forEach((_, i) => {
+            const root = find(i);
+            const list = members.get(root);
+            if (list) list.push(i);
+            else members.set(root, [i]);
+        });
+
+        const groups: DuplicateGroup[] = [];
+        for (const indexes of members.values()) {
+            if (indexes.length < 2) continue;
+            const first = images[indexes[0]];
+            const exact = indexes.every(i => images[i].sha256 && images[i].sha256 === first.sha256);
+            groups.push({
+                kind: exact ? 'exact' : 'similar',
+                images: indexes.map((i) => {
+                    const { sha256, phash, ...image } = images[i];
+                    const distance = sha256 && sha256 === first.sha256
+                        ? 0
+                        : phash && first.phash ? this.distance(phash, first.phash) : maxDistance;
+                    return { ...image, distance };
+                }),
+            });
+        }
+        return groups;
+    }
+}
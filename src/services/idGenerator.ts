@@ -1,12 +1,215 @@
+import crypto from 'crypto';
 import { prisma } from '../utils/prisma';
 import { Prisma } from '@prisma/client';
+import { env } from '../config/env';
+import { ScheduleService } from './schedule';
+import { VisibilityService } from './visibility';
 
+// IDs minted before the allocator existed: random 5-digit numbers. Always accepted.
+const LEGACY_ID_REGEX = /^\d{5}$/;
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&');
+
+const gcd = (a: bigint, b: bigint): bigint => {
+    while (b) [a, b] = [b, a % b];
+    return a;
+};
+
+export interface IdCapacity {
+    scheme: string;
+    total: number;
+    used: number;
+    reserved: number;
+    remaining: number;
+    percentUsed: number;
+    warning: boolean;
+}
+
+/**
+ * Archive ID allocator.
+ *
+ * IDs are `ID_LENGTH` characters from `ID_ALPHABET`. Instead of guessing random IDs and retrying,
+ * each allocation takes the next value of a per-scheme counter (atomic in Postgres) and maps it
+ * through a fixed affine permutation of the ID space, so IDs still look scattered but two
+ * allocations can never pick the same slot. Slots that are already taken (legacy random IDs,
+ * reserved IDs) are skipped. The space is exhausted exactly when the counter reaches its size.
+ */
 export class IdGenerator {
-    private static generateId(): string {
-        // Generate a random integer between 0 and 99999
-        const num = Math.floor(Math.random() * 100000);
-        // Pad with leading zeros to ensure 5 digits
-        return num.toString().padStart(5, '0');
+    static get scheme(): string {
+        return `${env.ID_ALPHABET}:${env.ID_LENGTH}`;
+    }
+
+    static get spaceSize(): bigint {
+        return BigInt(env.ID_ALPHABET.length) ** BigInt(env.ID_LENGTH);
+    }
+
+    /** Matches IDs of the current scheme as well as legacy 5-digit IDs. */
+    static get idRegex(): RegExp {
+        return new RegExp(`^(?:\\d{5}|[${escapeRegex(env.ID_ALPHABET)}]{${env.ID_LENGTH}})$`);
+    }
+
+    static isValidId(id: string): boolean {
+        return LEGACY_ID_REGEX.test(id) || this.idRegex.test(id);
+    }
+
+    /** A uniformly random ID of the current scheme, taken or not (a pivot for picking a random record). */
+    static randomId(): string {
+        return Array.from({ length: env.ID_LENGTH }, () => env.ID_ALPHABET[crypto.randomInt(env.ID_ALPHABET.length)]).join('');
+    }
+
+    /** Bijective map slot -> ID number: (a * slot + b) mod N with gcd(a, N) = 1. */
+    private static permute(slot: bigint): bigint {
+        const n = this.spaceSize;
+        let a = (n * 61803n) / 100000n; // ~golden ratio spreads consecutive slots apart
+        if (a < 1n) a = 1n;
+        while (gcd(a, n) !== 1n) a += 1n;
+        const b = (n * 23571n) / 100000n;
+        return (a * slot + b) % n;
+    }
+
+    private static encode(value: bigint): string {
+        const alphabet = env.ID_ALPHABET;
+        const base = BigInt(alphabet.length);
+        let out = '';
+        for (let i = 0; i < env.ID_LENGTH; i++) {
+            out = alphabet[Number(value % base)] + out;
+            value /= base;
+        }
+        return out;
+    }
+
+    /** Claim the next counter slot for the current scheme. */
+    private static async nextSlot(): Promise<bigint> {
+        const row = await prisma.idAllocator.upsert({
+            where: { scheme: this.scheme },
+            update: { counter: { increment: 1 } },
+            create: { scheme: this.scheme, counter: 1 },
+        });
+        return row.counter - 1n;
+    }
+
+    private static async isTaken(id: string): Promise<boolean> {
+        const [image, reserved, redirect] = await Promise.all([
+            prisma.image.findUnique({ where: { id }, select: { id: true } }),
+            prisma.reservedId.findUnique({ where: { id }, select: { id: true } }),
+            prisma.imageRedirect.findUnique({ where: { fromId: id }, select: { fromId: true } }),
+        ]);
+        return Boolean(image || reserved || redirect);
+    }
+
+    /**
+     * Why an admin can't use this ID for a record, or null if it's free.
+     * Reserved IDs are allowed here: holding a number back for manual assignment is what reservations are for.
+     */
+    static async checkAvailable(id: string): Promise<string | null> {
+        if (!this.isValidId(id)) {
+            return `Invalid ID (expected 5 digits or ${env.ID_LENGTH} characters of ${env.ID_ALPHABET})`;
+        }
+        const [image, redirect] = await Promise.all([
+            prisma.image.findUnique({ where: { id }, select: { id: true } }),
+            prisma.imageRedirect.findUnique({ where: { fromId: id }, select: { toId: true } }),
+        ]);
+        if (image) return `ID ${id} is already in use`;
+        if (redirect) return `ID ${id} redirects to ${redirect.toId}`;
+        return null;
+    }
+
+    /** Old ID -> current ID for records that were reassigned. */
+    static async resolveRedirect(id: string): Promise<string | null> {
+        const redirect = await prisma.imageRedirect.findUnique({ where: { fromId: id }, select: { toId: true } });
+        return redirect?.toId ?? null;
+    }
+
+    /**
+     * Move a record to a new ID. The old ID becomes a permanent redirect; redirects that pointed
+     * at the old ID follow along (FK cascade), and variants keep their storage keys.
+     */
+    static async reassign(oldId: string, newId: string) {
+        return prisma.$transaction(async (tx) => {
+            // Moving back to a previous ID: that ID is currently a redirect to this very record
+            await tx.imageRedirect.deleteMany({ where: { fromId: newId, toId: oldId } });
+            await tx.reservedId.deleteMany({ where: { id: newId } });
+            const image = await tx.image.update({ where: { id: oldId }, data: { id: newId } });
+            await tx.imageRedirect.create({ data: { fromId: oldId, toId: newId } });
+            return image;
+        });
+    }
+
+    /** Next free ID. Throws once every ID in the configured space has been handed out. */
+    static async allocateId(): Promise<string> {
+        const size = this.spaceSize;
+        while (true) {
+            const slot = await this.nextSlot();
+            if (slot >= size) {
+                throw new Error(`Archive ID space exhausted (${size} IDs of scheme ${this.scheme}); increase ID_LENGTH or ID_ALPHABET`);
+            }
+            const id = this.encode(this.permute(slot));
+            if (await this.isTaken(id)) continue;
+            return id;
+        }
+    }
+
+    /**
+     * Slots the counter hasn't reached yet are what's left: IDs freed by deletes are never handed out
+     * again. Taken IDs ahead of the counter will be skipped, so it's also capped by the free IDs.
+     */
+    static async getCapacity(): Promise<IdCapacity> {
+        const pattern = `^[${escapeRegex(env.ID_ALPHABET)}]{${env.ID_LENGTH}}$`;
+        const [allocator, [counts]] = await Promise.all([
+            prisma.idAllocator.findUnique({ where: { scheme: this.scheme }, select: { counter: true } }),
+            prisma.$queryRaw<{ used: bigint; reserved: bigint }[]>`
+                SELECT
+                    (SELECT count(*) FROM "images" WHERE "id" ~ ${pattern}) AS used,
+                    (SELECT count(*) FROM "reserved_ids" r
+                        WHERE r."id" ~ ${pattern} AND NOT EXISTS (SELECT 1 FROM "images" i WHERE i."id" = r."id")) AS reserved
+            `,
+        ]);
+
+        const size = this.spaceSize;
+        const counter = allocator?.counter ?? 0n;
+        const total = Number(size);
+        const used = Number(counts.used);
+        const reserved = Number(counts.reserved);
+        const remaining = Math.max(0, Math.min(Number(size - (counter < size ? counter : size)), total - used - reserved));
+        const percentUsed = total ? Math.round(((total - remaining) / total) * 10000) / 100 : 100;
+
+        return {
+            scheme: this.scheme,
+            total,
+            used,
+            reserved,
+            remaining,
+            percentUsed,
+            warning: percentUsed >= env.ID_CAPACITY_WARN_PERCENT,
+        };
+    }
+
+    /** Hold IDs back from the allocator. Returns the IDs that could not be reserved because they're in use or invalid. */
+    static async reserve(ids: string[], reason?: string): Promise<{ reserved: string[]; rejected: string[] }> {
+        const reserved: string[] = [];
+        const rejected: string[] = [];
+        for (const id of ids) {
+            if (!this.isValidId(id)) {
+                rejected.push(id);
+                continue;
+            }
+            if (await this.checkAvailable(id)) {
+                rejected.push(id);
+                continue;
+            }
+            await prisma.reservedId.upsert({
+                where: { id },
+                update: { reason: reason ?? null },
+                create: { id, reason: reason ?? null },
+            });
+            reserved.push(id);
+        }
+        return { reserved, rejected };
+    }
+
+    static async release(id: string): Promise<boolean> {
+        const result = await prisma.reservedId.deleteMany({ where: { id } });
+        return result.count > 0;
     }
 
     static async createImageRecord(data: {
@@ -17,27 +220,47 @@ export class IdGenerator {
         height?: number;
         sizeBytes?: number;
         contentType?: string;
-    }) {
-        const maxRetries = 10;
-        let attempts = 0;
+        etag?: string;
+        lastModified?: Date;
+        sha256?: string;
+        /** Staged upload: kept off the public routes until this time */
+        publishAt?: Date;
+    }, options: { id?: string } = {}) {
+        const scheduleState = data.publishAt ? ScheduleService.stateFor(data.publishAt, null) : undefined;
+        const mediaToken = VisibilityService.newMediaToken();
+        if (options.id) {
+            // Admin-chosen ID: no fallback, a conflict surfaces to the caller (P2002 on id)
+            const record = await prisma.image.create({
+                data: {
+                    id: options.id,
+                    ...data,
+                    mediaType: (data.mediaType as any) ?? 'IMAGE',
+                    scheduleState,
+                    mediaToken,
+                },
+            });
+            await prisma.reservedId.deleteMany({ where: { id: options.id } });
+            return record;
+        }
 
-        while (attempts < maxRetries) {
-            const id = this.generateId();
+        while (true) {
+            const id = await this.allocateId();
             try {
                 return await prisma.image.create({
                     data: {
                         id,
                         ...data,
                         mediaType: (data.mediaType as any) ?? 'IMAGE',
+                        scheduleState,
+                        mediaToken,
                     },
                 });
             } catch (error) {
                 if (error instanceof Prisma.PrismaClientKnownRequestError) {
                     if (error.code === 'P2002') {
                         const target = error.meta?.target as string[];
-                        // If collision is on 'id', retry.
+                        // An admin claimed this exact ID between our check and insert; the slot is burnt, take the next one.
                         if (target && target.includes('id')) {
-                            attempts++;
                             continue;
                         }
                         // If collision is on 'originalKey', re-throw (it's a duplicate image)
@@ -49,6 +272,5 @@ export class IdGenerator {
                 throw error;
             }
         }
-        throw new Error(`Failed to generate unique ID after ${maxRetries} attempts`);
     }
 }
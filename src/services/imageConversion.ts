@@ -0,0 +1,86 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { runTool, withTempDir } from '../utils/exec';
+
+// Decoding a 50 MP RAW takes a few seconds; anything far beyond that is a stuck process
+const CONVERT_TIMEOUT_MS = 120_000;
+
+export const HEIF_EXTENSIONS = ['.heic', '.heif'];
+export const RAW_EXTENSIONS = ['.dng', '.cr2', '.cr3', '.nef', '.nrw', '.arw', '.orf', '.rw2', '.raf'];
+
+/** Content types for formats browsers can't show; recorded on the original, which is kept as-is. */
+export const CONVERTED_CONTENT_TYPES: Record<string, string> = {
+    '.heic': 'image/heic',
+    '.heif': 'image/heif',
+    '.dng': 'image/x-adobe-dng',
+    '.cr2': 'image/x-canon-cr2',
+    '.cr3': 'image/x-canon-cr3',
+    '.nef': 'image/x-nikon-nef',
+    '.nrw': 'image/x-nikon-nrw',
+    '.arw': 'image/x-sony-arw',
+    '.orf': 'image/x-olympus-orf',
+    '.rw2': 'image/x-panasonic-rw2',
+    '.raf': 'image/x-fuji-raf',
+};
+
+const extensionOf = (key: string) => path.posix.extname(key).toLowerCase();
+
+/** Run `fn` with `source` written to a scratch directory as `input<ext>`. */
+const withTempInput = <T>(ext: string, source: Buffer, fn: (dir: string, input: string) => Promise<T>): Promise<T> => {
+    return withTempDir(async (dir) => {
+        const input = path.join(dir, `input${ext}`);
+        await fs.writeFile(input, source);
+        return fn(dir, input);
+    });
+};
+
+/**
+ * Turns HEIC/HEIF and camera RAW originals into a full-size JPEG the rest of the pipeline (and
+ * browsers) can handle. The prebuilt sharp/libvips has no HEVC or RAW decoder, so this falls back to
+ * `heif-convert` (libheif-examples) and `dcraw_emu` (libraw-bin), which the Docker image installs.
+ */
+export class ImageConverter {
+    static needsConversion(key: string): boolean {
+        const ext = extensionOf(key);
+        return HEIF_EXTENSIONS.includes(ext) || RAW_EXTENSIONS.includes(ext);
+    }
+
+    /** The original if browsers can display it, otherwise a converted JPEG. */
+    static async toDisplayable(key: string, original: Buffer): Promise<Buffer> {
+        if (!this.needsConversion(key)) return original;
+        return HEIF_EXTENSIONS.includes(extensionOf(key))
+            ? this.convertHeif(original)
+            : this.convertRaw(extensionOf(key), original);
+    }
+
+    private static async convertHeif(original: Buffer): Promise<Buffer> {
+        try {
+            // Works when libvips was built with an HEVC decoder (e.g. a system libvips)
+            return await sharp(original, { failOn: 'none' }).rotate().jpeg({ quality: 92, mozjpeg: true }).toBuffer();
+        } catch {
+            // fall through to libheif's converter
+        }
+        return withTempInput('.heic', original, async (dir, input) => {
+            // libheif >= 1.16 only writes auxiliary images (depth, HDR gain maps) with --with-aux; older
+            // versions have no switch for it and write them next to the main image (output-depth.jpg, ...)
+            await runTool('heif-convert', ['-q', '92', input, path.join(dir, 'output.jpg')], CONVERT_TIMEOUT_MS);
+            // Files with several top-level images (bursts) are written as output-1.jpg, output-2.jpg, ...
+            const outputs = await fs.readdir(dir);
+            const primary = ['output.jpg', 'output-1.jpg'].find(name => outputs.includes(name));
+            if (!primary) {
+                throw new Error('heif-convert produced no image');
+            }
+            return fs.readFile(path.join(dir, primary));
+        });
+    }
+
+    private static async convertRaw(ext: string, original: Buffer): Promise<Buffer> {
+        // -w: camera white balance, -T: TIFF, -Z -: write to stdout (orientation is applied)
+        const tiff = await withTempInput(ext, original, (_dir, input) => runTool('dcraw_emu', ['-w', '-T', '-Z', '-', input], CONVERT_TIMEOUT_MS));
+        if (!tiff.length) {
+            throw new Error('dcraw_emu produced no image');
+        }
+        return sharp(tiff, { failOn: 'none' }).jpeg({ quality: 92, mozjpeg: true }).toBuffer();
+    }
+}
@@ -0,0 +1,104 @@
+import os from 'os';
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+
+/**
+ * A time-limited, renewable lock stored as a row in `job_leases`.
+ *
+ * Used instead of Postgres advisory locks because those are bound to a single connection and
+ * Prisma hands queries to arbitrary pool connections. A holder that crashes simply stops
+ * renewing; once `expiresAt` passes, the next caller takes the lease over.
+ */
+export class Lease {
+    private lost = false;
+    private timer: NodeJS.Timeout | undefined;
+
+    private constructor(
+        readonly name: string,
+        readonly holder: string,
+        private readonly ttlMs: number,
+        /** Run that held the lease before it expired, if it never released it. */
+        readonly abandonedRunId: number | null,
+    ) { }
+
+    /** Take the lease if it's free or expired; null if someone else holds it. */
+    static async acquire(name: string, ttlMs: number): Promise<Lease | null> {
+        const holder = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+        const now = new Date();
+        const expiresAt = new Date(now.getTime() + ttlMs);
+
+        const previous = await prisma.jobLease.findUnique({ where: { name } });
+        if (!previous) {
+            try {
+                await prisma.jobLease.create({ data: { name, holder, acquiredAt: now, expiresAt } });
+                return new Lease(name, holder, ttlMs, null);
+            } catch (err) {
+                if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+                    return null; // another instance created it first
+                }
+                throw err;
+            }
+        }
+
+        // Conditional update: only one contender can flip a free/expired row to itself
+        const taken = await prisma.jobLease.updateMany({
+            where: {
+                name,
+                OR: [{ holder: null }, { expiresAt: { lt: now } }],
+            },
+            data: { holder, runId: null, acquiredAt: now, expiresAt },
+        });
+        if (taken.count === 0) return null;
+
+        const abandonedRunId = previous.holder && previous.runId ? previous.runId : null;
+        return new Lease(name, holder, ttlMs, abandonedRunId);
+    }
+
+    /** Current lease row, e.g. to report who is holding it. */
+    static async inspect(name: string) {
+        const lease = await prisma.jobLease.findUnique({ where: { name } });
+        if (!lease?.holder || lease.expiresAt < new Date()) return null;
+        return lease;
+    }
+
+    /** Whether a renewal found the lease taken over (we stalled past the TTL). */
+    get isLost(): boolean {
+        return this.lost;
+    }
+
+    async attachRun(runId: number) {
+        await prisma.jobLease.updateMany({ where: { name: this.name, holder: this.holder }, data: { runId } });
+    }
+
+    /** Renew in the background at a third of the TTL until released. */
+    keepAlive() {
+        this.timer = setInterval(() => {
+            void this.renew().catch((err) => {
+                console.error(`Failed to renew lease ${this.name}:`, err);
+            });
+        }, Math.max(1000, Math.floor(this.ttlMs / 3)));
+        this.timer.unref();
+    }
+
+    async renew() {
+        const renewed = await prisma.jobLease.updateMany({
+            where: { name: this.name, holder: this.holder },
+            data: { expiresAt: new Date(Date.now() + this.ttlMs) },
+        });
+        if (renewed.count === 0 && !this.lost) {
+            this.lost = true;
+            console.warn(`Lease ${this.name} was taken over by another holder`);
+        }
+    }
+
+    async release() {
+        if (this.timer) clearInterval(this.timer);
+        await prisma.jobLease.updateMany({
+            where: { name: this.name, holder: this.holder },
+            data: { holder: null, runId: null, expiresAt: new Date() },
+        }).catch((err) => {
+            console.error(`Failed to release lease ${this.name}:`, err);
+        });
+    }
+}
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { env } from '../config/env';
+import { CONVERTED_CONTENT_TYPES } from './imageConversion';
+import type { StorageDriver, StorageListPage, StorageObject, StorageWriteResult } from './storage';
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.webp': 'image/webp',
+    '.gif': 'image/gif',
+    '.avif': 'image/avif',
+    ...CONVERTED_CONTENT_TYPES,
+    '.mp4': 'video/mp4',
+    '.webm': 'video/webm',
+    '.mov': 'video/quicktime',
+    '.mp3': 'audio/mpeg',
+    '.m4a': 'audio/mp4',
+    '.wav': 'audio/wav',
+    '.aac': 'audio/aac',
+};
+
+/**
+ * Stores objects as plain files under LOCAL_STORAGE_DIR.
+ * Files are served by @fastify/static (see app.ts) at LOCAL_STORAGE_PUBLIC_URL.
+ */
+export class LocalStorageDriver implements StorageDriver {
+    readonly name = 'local' as const;
+    readonly root: string;
+
+    constructor(root = env.LOCAL_STORAGE_DIR) {
+        this.root = path.resolve(root);
+        fs.mkdirSync(this.root, { recursive: true });
+    }
+
+    /** Resolve a key to an absolute path, refusing anything that escapes the root. */
+    private resolveKey(key: string): string {
+        const fullPath = path.resolve(this.root, key);
+        if (fullPath !== this.root && !fullPath.startsWith(this.root + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return fullPath;
+    }
+
+    private toKey(fullPath: string): string {
+        return path.relative(this.root, fullPath).split(path.sep).join('/');
+    }
+
+    private toObject(fullPath: string, stat: fs.Stats): StorageObject {
+        return {
+            key: this.toKey(fullPath),
+            size: stat.size,
+            lastModified: stat.mtime,
+            // Cheap, stable fingerprint; changes whenever the file is rewritten
+            etag: `${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}`,
+            contentType: CONTENT_TYPES[path.extname(fullPath).toLowerCase()],
+        };
+    }
+
+    async list(prefix = ''): Promise<StorageObject[]> {
+        const allObjects: StorageObject[] = [];
+
+        const walk = async (dir: string) => {
+            let entries: fs.Dirent[];
+            try {
+                entries = await fs.promises.readdir(dir, { withFileTypes: true });
+            } catch (err: any) {
+                if (err?.code === 'ENOENT') return;
+                throw err;
+            }
+            for (const entry of entries) {
+                const fullPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    await walk(fullPath);
+                } else if (entry.isFile()) {
+                    const key = this.toKey(fullPath);
+                    if (prefix && !key.startsWith(prefix)) continue;
+                    const stat = await fs.promises.stat(fullPath);
+                    allObjects.push(this.toObject(fullPath, stat));
+                }
+            }
+        };
+
+        await walk(this.root);
+        return allObjects;
+    }
+
+    async listPage(prefix = '', startAfter?: string, maxKeys = 1000): Promise<StorageListPage> {
+        // Same ordering S3 uses: UTF-8 byte order
+        const byteOrder = (a: string, b: string) => Buffer.compare(Buffer.from(a), Buffer.from(b));
+        const sorted = (await this.list(prefix)).sort((a, b) => byteOrder(a.key, b.key));
+        const remaining = startAfter ? sorted.filter(obj => byteOrder(obj.key, startAfter) > 0) : sorted;
+        const objects = remaining.slice(0, maxKeys);
+        return {
+            objects,
+            nextStartAfter: remaining.length > maxKeys ? objects[objects.length - 1].key : undefined,
+        };
+    }
+
+    async put(key: string, body: Buffer, _contentType?: string) {
+        const fullPath = this.resolveKey(key);
+        await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+        await fs.promises.writeFile(fullPath, body);
+    }
+
+    async putStream(key: string, body: Readable, _contentType?: string): Promise<StorageWriteResult> {
+        const fullPath = this.resolveKey(key);
+        await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+        // Write beside the target and rename, so the scheduler never picks up a half-written file
+        const tempPath = `${fullPath}.${crypto.randomBytes(4).toString('hex')}.part`;
+        const hash = crypto.createHash('sha256');
+        let size = 0;
+        const digest = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+                hash.update(chunk);
+                size += chunk.length;
+                callback(null, chunk);
+            },
+        });
+        try {
+            await pipeline(body, digest, fs.createWriteStream(tempPath));
+            await fs.promises.rename(tempPath, fullPath);
+        } catch (err) {
+            await fs.promises.rm(tempPath, { force: true });
+            throw err;
+        }
+        const stat = await fs.promises.stat(fullPath);
+        return { size, sha256: hash.digest('hex'), etag: this.toObject(fullPath, stat).etag };
+    }
+
+    async delete(key: string) {
+        await fs.promises.rm(this.resolveKey(key), { force: true });
+    }
+
+    async head(key: string): Promise<StorageObject | null> {
+        const fullPath = this.resolveKey(key);
+        try {
+            const stat = await fs.promises.stat(fullPath);
+            if (!stat.isFile()) return null;
+            return this.toObject(fullPath, stat);
+        } catch (err: any) {
+            if (err?.code === 'ENOENT') return null;
+            throw err;
+        }
+    }
+
+    async stream(key: string): Promise<Readable> {
+        const fullPath = this.resolveKey(key);
+        await fs.promises.access(fullPath, fs.constants.R_OK);
+        return fs.createReadStream(fullPath);
+    }
+
+    publicUrl(key: string): string {
+        const base = env.LOCAL_STORAGE_PUBLIC_URL.replace(/\/$/, '');
+        return `${base}/${key.split('/').map(encodeURIComponent).join('/')}`;
+    }
+}
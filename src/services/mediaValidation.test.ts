@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { MediaValidator } from './mediaValidation';
+
+const image = (format: 'jpeg' | 'png') => {
+    return sharp({ create: { width: 16, height: 16, channels: 3, background: '#336699' } })[format]().toBuffer();
+};
+
+const box = (type: string, body: Buffer) => {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(8 + body.length, 0);
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([header, body]);
+};
+
+const ftyp = (major: string) => box('ftyp', Buffer.from(`${major}\0\0\0\0isommp41`, 'latin1'));
+
+const mp4 = () => {
+    const mvhd = Buffer.alloc(100);
+    mvhd.writeUInt32BE(600, 12);
+    mvhd.writeUInt32BE(1800, 16);
+    return Buffer.concat([ftyp('isom'), box('mdat', Buffer.alloc(4096)), box('moov', box('mvhd', mvhd))]);
+};
+
+describe('MediaValidator.sniff', () => {
+    it('identifies files by their first bytes', async () => {
+        assert.equal(MediaValidator.sniff(await image('jpeg'))?.format, 'jpeg');
+        assert.equal(MediaValidator.sniff(await image('png'))?.contentType, 'image/png');
+        assert.deepEqual(MediaValidator.sniff(mp4()), { format: 'mp4', mediaType: 'VIDEO', contentType: 'video/mp4' });
+        assert.equal(MediaValidator.sniff(ftyp('qt  '))?.format, 'mov');
+        assert.equal(MediaValidator.sniff(ftyp('heic'))?.format, 'heic');
+        assert.equal(MediaValidator.sniff(box('ftyp', Buffer.from('mif1\0\0\0\0mif1avif', 'latin1')))?.format, 'avif');
+    });
+
+    it('recognises nothing else', () => {
+        assert.equal(MediaValidator.sniff(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>')), null);
+        assert.equal(MediaValidator.sniff(Buffer.from('%PDF-1.7')), null);
+        assert.equal(MediaValidator.sniff(ftyp('3gp5')), null);
+        assert.equal(MediaValidator.sniff(Buffer.alloc(0)), null);
+    });
+});
+
+describe('MediaValidator.checkHead', () => {
+    it('accepts content that matches its extension', async () => {
+        assert.equal(MediaValidator.checkHead('photo.JPG', await image('jpeg')).ok, true);
+        assert.equal(MediaValidator.checkHead('scan.png', await image('png')).ok, true);
+        assert.equal(MediaValidator.checkHead('clip.mp4', mp4()).ok, true);
+        // Phones mix up MP4 and MOV, so either name is fine
+        assert.equal(MediaValidator.checkHead('clip.mov', mp4()).ok, true);
+    });
+
+    it('rejects a mismatched extension', async () => {
+        assert.deepEqual(MediaValidator.checkHead('photo.png', await image('jpeg')), { ok: false, reason: 'Content is JPEG but the name says .png' });
+        assert.equal(MediaValidator.checkHead('clip.jpg', mp4()).ok, false);
+        assert.equal(MediaValidator.checkHead('photo', await image('jpeg')).ok, false);
+    });
+
+    it('rejects markup hidden in the header', async () => {
+        const polyglot = Buffer.concat([await image('jpeg'), Buffer.from('<script>alert(1)</script>')]);
+        assert.deepEqual(MediaValidator.checkHead('photo.jpg', polyglot), { ok: false, reason: 'Embedded <script content found (possible polyglot file)' });
+    });
+});
+
+describe('MediaValidator.checkImage', () => {
+    it('accepts an image that decodes', async () => {
+        assert.equal((await MediaValidator.checkImage('photo.jpg', await image('jpeg'))).ok, true);
+    });
+
+    it('rejects a polyglot tail past the sniffed window', async () => {
+        // Bytes after the end-of-image marker are ignored by decoders; the filler pushes the payload past the header window
+        const jpeg = await image('jpeg');
+        const filler = Buffer.alloc(80 * 1024, 0x20);
+        const zipTail = Buffer.from([0x50, 0x4b, 0x05, 0x06, ...Buffer.alloc(18)]);
+        const result = await MediaValidator.checkImage('photo.jpg', Buffer.concat([jpeg, filler, zipTail]));
+        assert.deepEqual(result, { ok: false, reason: 'Embedded ZIP archive content found (possible polyglot file)' });
+
+        const html = await MediaValidator.checkImage('photo.jpg', Buffer.concat([jpeg, filler, Buffer.from('<html><body>hi</body></html>')]));
+        assert.equal(html.ok, false);
+    });
+
+    it('rejects an image that does not decode', async () => {
+        const png = await image('png');
+        const result = await MediaValidator.checkImage('scan.png', png.subarray(0, png.length - 30));
+        assert.equal(result.ok, false);
+    });
+});
+
+describe('MediaValidator.checkStream', () => {
+    it('rejects a video without a readable movie header', async () => {
+        const whole = mp4();
+        assert.equal((await MediaValidator.checkStream('clip.mp4', Readable.from([whole]))).ok, true);
+        assert.deepEqual(await MediaValidator.checkStream('clip.mp4', Readable.from([whole.subarray(0, whole.length - 40)])), {
+            ok: false,
+            reason: 'Video container has no readable movie header (moov)',
+        });
+    });
+});
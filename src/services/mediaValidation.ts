@@ -0,0 +1,181 @@
+import sharp from 'sharp';
+import { Readable } from 'stream';
+import { probeMp4 } from '../utils/mp4';
+import { CONVERTED_CONTENT_TYPES, HEIF_EXTENSIONS, RAW_EXTENSIONS } from './imageConversion';
+import { peekStream, streamToBuffer } from '../utils/stream';
+import { R2Service } from './r2';
+
+export type MediaFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif' | 'heic' | 'raw' | 'mp4' | 'mov' | 'webm';
+
+export interface DetectedFormat {
+    format: MediaFormat;
+    mediaType: 'IMAGE' | 'VIDEO';
+    contentType: string;
+}
+
+export type MediaCheck = { ok: true; detected: DetectedFormat } | { ok: false; reason: string };
+
+/** Bytes read from the start of a file to identify it; also the window scanned for embedded payloads. */
+export const SNIFF_BYTES = 64 * 1024;
+
+const FORMATS: Record<MediaFormat, { mediaType: 'IMAGE' | 'VIDEO'; contentType: string; extensions: string[] }> = {
+    jpeg: { mediaType: 'IMAGE', contentType: 'image/jpeg', extensions: ['.jpg', '.jpeg'] },
+    png: { mediaType: 'IMAGE', contentType: 'image/png', extensions: ['.png'] },
+    gif: { mediaType: 'IMAGE', contentType: 'image/gif', extensions: ['.gif'] },
+    webp: { mediaType: 'IMAGE', contentType: 'image/webp', extensions: ['.webp'] },
+    avif: { mediaType: 'IMAGE', contentType: 'image/avif', extensions: ['.avif'] },
+    heic: { mediaType: 'IMAGE', contentType: 'image/heic', extensions: HEIF_EXTENSIONS },
+    // TIFF-based RAWs share one header, so the exact camera format comes from the extension
+    raw: { mediaType: 'IMAGE', contentType: 'application/octet-stream', extensions: RAW_EXTENSIONS },
+    // Phones and editors mix up the two ISO-BMFF flavours, so either extension is accepted for both
+    mp4: { mediaType: 'VIDEO', contentType: 'video/mp4', extensions: ['.mp4', '.mov'] },
+    mov: { mediaType: 'VIDEO', contentType: 'video/quicktime', extensions: ['.mov', '.mp4'] },
+    webm: { mediaType: 'VIDEO', contentType: 'video/webm', extensions: ['.webm'] },
+};
+
+// Markup, scripts and documents that have no business inside a photo or video (polyglot files)
+const EMBEDDED_MARKERS = ['<script', '<?php', '<html', '<!doctype html', '<iframe', '<svg', '%pdf-'];
+// ZIP end-of-central-directory record: a JAR/ZIP appended to an image (GIFAR-style polyglot)
+const ZIP_EOCD = Buffer.from([0x50, 0x4b, 0x05, 0x06]);
+
+const EBML_MAGIC = Buffer.from([0x1a, 0x45, 0xdf, 0xa3]);
+const MATROSKA_SEGMENT = Buffer.from([0x18, 0x53, 0x80, 0x67]);
+
+const startsWith = (buf: Buffer, bytes: number[], offset = 0) => {
+    return buf.length >= offset + bytes.length && bytes.every((b, i) => buf[offset + i] === b);
+};
+
+const detected = (format: MediaFormat): DetectedFormat => ({
+    format,
+    mediaType: FORMATS[format].mediaType,
+    contentType: FORMATS[format].contentType,
+});
+
+const extensionOf = (filename: string) => {
+    const dot = filename.lastIndexOf('.');
+    return dot >= 0 ? filename.slice(dot).toLowerCase() : '';
+};
+
+/** ISO-BMFF (`ftyp`) brands → format; null for other members of the family (3GP, JPEG 2000, ...). */
+const sniffIsoBmff = (head: Buffer): MediaFormat | null => {
+    const boxSize = head.readUInt32BE(0);
+    const major = head.toString('latin1', 8, 12);
+    const brands = [major];
+    for (let offset = 16; offset + 4 <= Math.min(boxSize, head.length); offset += 4) {
+        brands.push(head.toString('latin1', offset, offset + 4));
+    }
+    if (brands.includes('avif') || brands.includes('avis')) return 'avif';
+    if (/^(heic|heix|hevc|hevx|heim|heis|mif1|msf1)$/.test(major)) return 'heic';
+    if (major === 'crx ') return 'raw';
+    if (major === 'qt  ') return 'mov';
+    if (/^(isom|iso\d|mp41|mp42|avc1|M4V |M4VP|dash|f4v |mmp4)$/.test(major)) return 'mp4';
+    return null;
+};
+
+/**
+ * Checks uploaded media by content rather than name: magic bytes must match the extension, no
+ * embedded markup/archives (polyglots), images must decode and videos must have a readable container.
+ */
+export class MediaValidator {
+    /** Identify a file from its first bytes. */
+    static sniff(head: Buffer): DetectedFormat | null {
+        if (startsWith(head, [0xff, 0xd8, 0xff])) return detected('jpeg');
+        if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return detected('png');
+        if (head.toString('latin1', 0, 6) === 'GIF87a' || head.toString('latin1', 0, 6) === 'GIF89a') return detected('gif');
+        if (head.toString('latin1', 0, 4) === 'RIFF' && head.toString('latin1', 8, 12) === 'WEBP') return detected('webp');
+        // TIFF (DNG, CR2, NEF, ARW), Olympus ORF, Panasonic RW2, Fujifilm RAF
+        if (['II*\0', 'MM\0*', 'IIRO', 'IIRS', 'MMOR', 'IIU\0'].includes(head.toString('latin1', 0, 4))) return detected('raw');
+        if (head.toString('latin1', 0, 15) === 'FUJIFILMCCD-RAW') return detected('raw');
+        if (head.length >= 12) {
+            const box = head.toString('latin1', 4, 8);
+            if (box === 'ftyp') {
+                const format = sniffIsoBmff(head);
+                return format ? detected(format) : null;
+            }
+            // Old QuickTime files start straight with a movie/data box
+            if (['moov', 'mdat', 'wide', 'free', 'skip'].includes(box)) return detected('mov');
+        }
+        if (head.subarray(0, 4).equals(EBML_MAGIC) && head.includes('webm', 0, 'latin1')) return detected('webm');
+        return null;
+    }
+
+    /** Cheap checks on the first SNIFF_BYTES: real format, extension match, embedded payloads. */
+    static checkHead(filename: string, head: Buffer): MediaCheck {
+        const found = this.sniff(head);
+        if (!found) {
+            return { ok: false, reason: 'Not a supported image or video (unrecognized file header)' };
+        }
+        const extension = extensionOf(filename);
+        if (!FORMATS[found.format].extensions.includes(extension)) {
+            return { ok: false, reason: `Content is ${found.format.toUpperCase()} but the name says ${extension || 'no extension'}` };
+        }
+        const marker = this.findEmbeddedMarker(head);
+        if (marker) {
+            return { ok: false, reason: `Embedded ${marker} content found (possible polyglot file)` };
+        }
+        if (found.format === 'webm' && !head.includes(MATROSKA_SEGMENT)) {
+            return { ok: false, reason: 'WebM header without a Segment (not a valid container)' };
+        }
+        return { ok: true, detected: { ...found, contentType: CONVERTED_CONTENT_TYPES[extension] ?? found.contentType } };
+    }
+
+    /** Full check of an image held in memory: header checks, trailing payloads, and a real decode. */
+    static async checkImage(filename: string, buffer: Buffer): Promise<MediaCheck> {
+        const head = this.checkHead(filename, buffer.subarray(0, SNIFF_BYTES));
+        if (!head.ok) return head;
+        if (head.detected.mediaType !== 'IMAGE') {
+            return { ok: false, reason: 'Expected an image' };
+        }
+
+        const tail = buffer.subarray(Math.max(0, buffer.length - SNIFF_BYTES));
+        const marker = this.findEmbeddedMarker(tail) ?? (tail.includes(ZIP_EOCD) ? 'ZIP archive' : null);
+        if (marker) {
+            return { ok: false, reason: `Embedded ${marker} content found (possible polyglot file)` };
+        }
+
+        // No decoder for these in sharp; ImageConverter decodes them during ingest and records failures there
+        if (head.detected.format === 'heic' || head.detected.format === 'raw') {
+            return head;
+        }
+
+        try {
+            // Decode every pixel (downscaled, so cheap); truncated or corrupt data throws
+            await sharp(buffer, { failOn: 'error', animated: false }).resize(64, 64, { fit: 'inside' }).raw().toBuffer();
+        } catch (err: any) {
+            return { ok: false, reason: `Image does not decode: ${err?.message ?? 'unknown error'}` };
+        }
+        return head;
+    }
+
+    /** Full check of a stream: header checks, then a decode (images) or container parse (MP4/MOV). */
+    static async checkStream(filename: string, source: Readable): Promise<MediaCheck> {
+        const { head, stream } = await peekStream(source, SNIFF_BYTES);
+        const result = this.checkHead(filename, head);
+        if (!result.ok) {
+            stream.destroy();
+            return result;
+        }
+        if (result.detected.mediaType === 'IMAGE') {
+            return this.checkImage(filename, await streamToBuffer(stream));
+        }
+        if (result.detected.format === 'mp4' || result.detected.format === 'mov') {
+            const info = await probeMp4(stream);
+            if (!info) {
+                return { ok: false, reason: 'Video container has no readable movie header (moov)' };
+            }
+        } else {
+            stream.destroy();
+        }
+        return result;
+    }
+
+    /** Check an object already in storage (direct and resumable uploads). */
+    static async checkStored(key: string, filename = key): Promise<MediaCheck> {
+        return this.checkStream(filename, await new R2Service().getObjectStream(key));
+    }
+
+    private static findEmbeddedMarker(window: Buffer): string | null {
+        const text = window.toString('latin1').toLowerCase();
+        return EMBEDDED_MARKERS.find(marker => text.includes(marker)) ?? null;
+    }
+}
@@ -0,0 +1,139 @@
+import sharp from 'sharp';
+import { Readable } from 'stream';
+import exifr from 'exifr';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { streamToBuffer } from '../utils/stream';
+import { probeMp4 } from '../utils/mp4';
+import { ImageConverter } from './imageConversion';
+import { PrivacyService } from './privacy';
+import { R2Service } from './r2';
+
+export interface MediaMetadata {
+    width?: number;
+    height?: number;
+    orientation?: number;
+    cameraMake?: string;
+    cameraModel?: string;
+    lensModel?: string;
+    capturedAt?: Date;
+    durationSec?: number;
+    exif?: Record<string, unknown>;
+}
+
+// Descriptive EXIF tags worth keeping for the archive record (no GPS or serial numbers)
+const EXIF_TAGS = [
+    'Make', 'Model', 'LensMake', 'LensModel', 'Software',
+    'DateTimeOriginal', 'CreateDate', 'OffsetTimeOriginal',
+    'ExposureTime', 'FNumber', 'ISO', 'FocalLength', 'FocalLengthIn35mmFormat',
+    'Flash', 'WhiteBalance', 'ExposureProgram', 'MeteringMode', 'Orientation',
+];
+
+const cleanString = (value: unknown): string | undefined => {
+    if (typeof value !== 'string') return undefined;
+    const trimmed = value.replace(/\0/g, '').trim();
+    return trimmed.length ? trimmed.slice(0, 200) : undefined;
+};
+
+const validDate = (value: unknown): Date | undefined => {
+    if (!(value instanceof Date) || isNaN(value.getTime())) return undefined;
+    return value;
+};
+
+export class MetadataService {
+    /** `exifSource` is the original when `buffer` is a converted copy (HEIC/RAW), whose EXIF may be incomplete. */
+    static async extractImage(buffer: Buffer, exifSource = buffer): Promise<MediaMetadata> {
+        const meta = await sharp(buffer, { failOn: 'none' }).metadata();
+        const orientation = meta.orientation ?? 1;
+        // Store display dimensions: EXIF orientations 5-8 swap width and height
+        const rotated = orientation >= 5;
+
+        const result: MediaMetadata = {
+            width: rotated ? meta.height : meta.width,
+            height: rotated ? meta.width : meta.height,
+            orientation,
+        };
+
+        let tags: Record<string, any> | undefined;
+        try {
+            tags = await exifr.parse(exifSource, { pick: EXIF_TAGS });
+        } catch {
+            // No EXIF block (PNG, screenshots, stripped files) is normal
+        }
+        if (!tags) return result;
+
+        result.cameraMake = cleanString(tags.Make);
+        result.cameraModel = cleanString(tags.Model);
+        result.lensModel = cleanString(tags.LensModel);
+        result.capturedAt = validDate(tags.DateTimeOriginal) ?? validDate(tags.CreateDate);
+
+        const exif: Record<string, unknown> = {};
+        for (const tag of EXIF_TAGS) {
+            const value = tags[tag];
+            if (value === undefined || value === null) continue;
+            if (value instanceof Date) {
+                if (validDate(value)) exif[tag] = value.toISOString();
+            } else if (['string', 'number', 'boolean'].includes(typeof value)) {
+                exif[tag] = typeof value === 'string' ? cleanString(value) : value;
+            }
+        }
+        result.exif = exif;
+
+        return result;
+    }
+
+    static async extractVideo(key: string, source?: Readable): Promise<MediaMetadata> {
+        const lower = key.toLowerCase();
+        // Only ISO-BMFF containers (MP4/MOV) are parsed; WebM has no cheap header probe
+        if (!lower.endsWith('.mp4') && !lower.endsWith('.mov')) {
+            source?.destroy();
+            return {};
+        }
+
+        const info = await probeMp4(source ?? await new R2Service().getObjectStream(key));
+        if (!info) return {};
+        return {
+            width: info.width,
+            height: info.height,
+            durationSec: info.durationSec,
+            capturedAt: validDate(info.createdAt),
+        };
+    }
+
+    /**
+     * Extract metadata for a record and persist it. Pass `source` to reuse already-downloaded bytes,
+     * and `display` to reuse an already-converted copy of a HEIC/RAW original.
+     */
+    static async extractAndStore(imageId: string, source?: Buffer, display?: Buffer): Promise<MediaMetadata> {
+        const image = await prisma.image.findUnique({ where: { id: imageId } });
+        if (!image) {
+            throw new Error(`Image ${imageId} not found`);
+        }
+
+        let metadata: MediaMetadata;
+        if (image.mediaType === 'IMAGE') {
+            const buffer = source ?? await streamToBuffer(await PrivacyService.openOriginal(image));
+            metadata = await this.extractImage(display ?? await ImageConverter.toDisplayable(image.originalKey, buffer), buffer);
+        } else {
+            metadata = await this.extractVideo(image.originalKey, await PrivacyService.openOriginal(image));
+        }
+
+        await prisma.image.update({
+            where: { id: imageId },
+            data: {
+                width: metadata.width ?? image.width,
+                height: metadata.height ?? image.height,
+                orientation: metadata.orientation ?? null,
+                cameraMake: metadata.cameraMake ?? null,
+                cameraModel: metadata.cameraModel ?? null,
+                lensModel: metadata.lensModel ?? null,
+                capturedAt: metadata.capturedAt ?? null,
+                durationSec: metadata.durationSec ?? null,
+                exif: metadata.exif ? (metadata.exif as Prisma.InputJsonObject) : Prisma.DbNull,
+                metadataExtractedAt: new Date(),
+            },
+        });
+
+        return metadata;
+    }
+}
@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import { env } from '../config/env';
+import { prisma } from '../utils/prisma';
+import { PlaylistWeight, playlistSlice } from '../utils/shuffle';
+import { VisibilityService } from './visibility';
+
+/**
+ * Seeded, endless shuffle of the listed archive. Each pass ("cycle") is a full permutation, so
+ * nothing repeats until everything has been shown; the next pass is reshuffled from the same seed.
+ * Weighting uses Efraimidis–Spirakis keys (u^(1/w)): heavier items tend to come earlier in a pass,
+ * but every item still appears exactly once per pass. The same seed always yields the same order
+ * for the same archive, so a seed can be shared and paged through from any instance.
+ */
+export class PlaylistService {
+    static randomSeed(): string {
+        return crypto.randomBytes(6).toString('base64url');
+    }
+
+    /**
+     * IDs at positions [offset, offset + limit) of the endless playlist, plus the size of one pass.
+     * Positions past the first pass continue into the following ones.
+     */
+    static async page(seed: string, weight: PlaylistWeight, offset: number, limit: number): Promise<{ ids: string[]; total: number }> {
+        const entries = await prisma.image.findMany({
+            where: VisibilityService.listedWhere(),
+            select: { id: true, createdAt: true, featured: true },
+        });
+        const ids = playlistSlice(entries, seed, {
+            weight,
+            boost: env.PLAYLIST_WEIGHT_BOOST,
+            halfLifeDays: env.PLAYLIST_RECENT_HALF_LIFE_DAYS,
+        }, offset, limit);
+        return { ids, total: entries.length };
+    }
+}
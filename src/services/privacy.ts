@@ -0,0 +1,322 @@
+import path from 'path';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import exifr from 'exifr';
+import piexif from 'piexifjs';
+import { env } from '../config/env';
+import { prisma } from '../utils/prisma';
+import { ImageConverter } from './imageConversion';
+import { R2Service, PRIVATE_DIR, PUBLISHED_DIR } from './r2';
+import { getPrivateStorageDriver } from './storage';
+import { VisibilityService } from './visibility';
+
+export interface PrivacyPolicy {
+    stripGps: boolean;
+    stripSerials: boolean;
+    keepCaptureDate: boolean;
+}
+
+export const getPrivacyPolicy = (): PrivacyPolicy => ({
+    stripGps: env.PRIVACY_STRIP_GPS,
+    stripSerials: env.PRIVACY_STRIP_SERIALS,
+    keepCaptureDate: env.PRIVACY_KEEP_CAPTURE_DATE,
+});
+
+// exifr tag names, used both for detection and for the per-image report
+const SERIAL_TAGS = [
+    'SerialNumber', 'BodySerialNumber', 'LensSerialNumber', 'InternalSerialNumber',
+    'CameraSerialNumber', 'CameraOwnerName', 'OwnerName', 'MakerNote',
+];
+const DATE_TAGS = [
+    'DateTimeOriginal', 'CreateDate', 'ModifyDate', 'DateTime',
+    'OffsetTime', 'OffsetTimeOriginal', 'OffsetTimeDigitized',
+    'SubSecTime', 'SubSecTimeOriginal', 'SubSecTimeDigitized',
+];
+
+// Raw TIFF tag ids for the lossless JPEG path (piexifjs works with numeric ids)
+const EXIF_SERIAL_IDS = [42032, 42033, 42037, 37500]; // CameraOwnerName, BodySerialNumber, LensSerialNumber, MakerNote
+const IFD0_SERIAL_IDS = [50735]; // CameraSerialNumber (DNG)
+const EXIF_DATE_IDS = [36867, 36868, 36880, 36881, 36882, 37520, 37521, 37522];
+const IFD0_DATE_IDS = [306]; // DateTime
+
+/** The store untouched originals are moved to; refuses to work without one rather than leave them public. */
+const privateStore = (): R2Service => {
+    const driver = getPrivateStorageDriver();
+    if (!driver) {
+        throw new Error('R2_PRIVATE_BUCKET is not set: originals that must not be served have nowhere private to go');
+    }
+    return new R2Service(driver);
+};
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+const isJpeg = (buffer: Buffer) => buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8;
+
+/** Drop XMP APP1 segments that mention any of the given names (XMP can duplicate GPS/serial data). */
+const dropXmpSegments = (buffer: Buffer, names: string[]): Buffer => {
+    const parts: Buffer[] = [buffer.subarray(0, 2)];
+    let offset = 2;
+    while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+        const marker = buffer[offset + 1];
+        // Start of scan: the rest is entropy-coded image data
+        if (marker === 0xda) break;
+        const length = buffer.readUInt16BE(offset + 2);
+        const segment = buffer.subarray(offset, offset + 2 + length);
+        const isXmp = marker === 0xe1
+            && segment.toString('latin1', 4, 4 + XMP_HEADER.length) === XMP_HEADER;
+        if (!(isXmp && names.some(name => segment.includes(name)))) {
+            parts.push(segment);
+        }
+        offset += 2 + length;
+    }
+    parts.push(buffer.subarray(offset));
+    return Buffer.concat(parts);
+};
+
+export class PrivacyService {
+    /** List the metadata fields present in a file that the policy says must not be published. */
+    static async findSensitiveFields(buffer: Buffer, policy = getPrivacyPolicy()): Promise<string[]> {
+        let tags: Record<string, unknown> | undefined;
+        try {
+            tags = await exifr.parse(buffer, {
+                tiff: true, exif: true, gps: true, xmp: true, makerNote: true,
+                reviveValues: false, mergeOutput: true,
+            });
+        } catch {
+            return [];
+        }
+        if (!tags) return [];
+
+        const present = Object.keys(tags).filter(key => tags![key] !== undefined && tags![key] !== null);
+        const fields: string[] = [];
+        if (policy.stripGps) {
+            fields.push(...present.filter(key => key.startsWith('GPS')));
+        }
+        if (policy.stripSerials) {
+            fields.push(...present.filter(key => SERIAL_TAGS.includes(key)));
+        }
+        if (!policy.keepCaptureDate) {
+            fields.push(...present.filter(key => DATE_TAGS.includes(key)));
+        }
+        return Array.from(new Set(fields)).sort();
+    }
+
+    /** Lossless for JPEG (EXIF rewritten in place, pixels untouched); other formats are re-encoded. */
+    static async sanitize(buffer: Buffer, policy = getPrivacyPolicy()): Promise<Buffer> {
+        if (isJpeg(buffer)) {
+            try {
+                return this.sanitizeJpeg(buffer, policy);
+            } catch (err) {
+                // piexifjs chokes on some vendor EXIF layouts; fall through to a re-encode
+                console.warn('Lossless EXIF strip failed, re-encoding instead:', err);
+            }
+        }
+        return this.sanitizeByReencode(buffer, policy);
+    }
+
+    private static sanitizeJpeg(buffer: Buffer, policy: PrivacyPolicy): Buffer {
+        const binary = buffer.toString('binary');
+        const exif = piexif.load(binary) as any;
+        exif['0th'] = exif['0th'] ?? {};
+        exif.Exif = exif.Exif ?? {};
+
+        if (policy.stripGps) {
+            exif.GPS = {};
+            delete exif['0th'][piexif.ImageIFD.GPSTag];
+        }
+        if (policy.stripSerials) {
+            EXIF_SERIAL_IDS.forEach(id => delete exif.Exif[id]);
+            IFD0_SERIAL_IDS.forEach(id => delete exif['0th'][id]);
+        }
+        if (!policy.keepCaptureDate) {
+            EXIF_DATE_IDS.forEach(id => delete exif.Exif[id]);
+            IFD0_DATE_IDS.forEach(id => delete exif['0th'][id]);
+        }
+
+        const output = Buffer.from(piexif.insert(piexif.dump(exif), binary), 'binary');
+
+        const xmpNames = [
+            ...(policy.stripGps ? ['GPS'] : []),
+            ...(policy.stripSerials ? ['SerialNumber', 'OwnerName'] : []),
+            ...(!policy.keepCaptureDate ? ['DateCreated', 'DateTimeOriginal', 'CreateDate'] : []),
+        ];
+        return xmpNames.length ? dropXmpSegments(output, xmpNames) : output;
+    }
+
+    private static async sanitizeByReencode(buffer: Buffer, policy: PrivacyPolicy): Promise<Buffer> {
+        const meta = await sharp(buffer, { failOn: 'none' }).metadata();
+        // Bake orientation into pixels; sharp drops all metadata unless told otherwise
+        let pipeline = sharp(buffer, { failOn: 'none', animated: true }).rotate();
+
+        if (policy.keepCaptureDate) {
+            const tags = await exifr.parse(buffer, { pick: ['DateTimeOriginal', 'Make', 'Model'], reviveValues: false }).catch(() => undefined);
+            if (tags?.DateTimeOriginal) {
+                pipeline = pipeline.withExif({
+                    IFD0: {
+                        ...(tags.Make ? { Make: String(tags.Make) } : {}),
+                        ...(tags.Model ? { Model: String(tags.Model) } : {}),
+                    },
+                    IFD2: { DateTimeOriginal: String(tags.DateTimeOriginal) },
+                });
+            }
+        }
+
+        switch (meta.format) {
+            case 'png':
+                return pipeline.png().toBuffer();
+            case 'webp':
+                return pipeline.webp({ quality: 92 }).toBuffer();
+            case 'heif':
+                return pipeline.avif({ quality: 80 }).toBuffer();
+            case 'gif':
+                return pipeline.gif().toBuffer();
+            default:
+                return pipeline.jpeg({ quality: 92, mozjpeg: true }).toBuffer();
+        }
+    }
+
+    /**
+     * Stream a record's untouched original. After the privacy step moved it to the private store the
+     * public key is empty, unless a new file has been dropped there since (which then wins).
+     */
+    static async openOriginal(image: { originalKey: string; privateKey: string | null }): Promise<Readable> {
+        const r2 = new R2Service();
+        if (image.privateKey && !await r2.headObject(image.originalKey)) {
+            return privateStore().getObjectStream(image.privateKey);
+        }
+        return r2.getObjectStream(image.originalKey);
+    }
+
+    /**
+     * Pipeline step: if the original carries fields the policy forbids, move the untouched file to the
+     * private store and point the record's public URL at a sanitized copy. Public routes hide images
+     * until this has run (see VisibilityService).
+     * For HEIC/RAW originals `source` is the converted JPEG, which is always published (sanitized if
+     * needed) since browsers can't show the original; the original itself always goes to the private store.
+     * Hidden records (see VisibilityService.isHidden) get the same treatment, so their only public file
+     * sits under the media token rather than at the original's key.
+     */
+    static async applyToImage(imageId: string, original: Buffer, source: Buffer) {
+        const image = await prisma.image.findUnique({ where: { id: imageId } });
+        if (!image) {
+            throw new Error(`Image ${imageId} not found`);
+        }
+        if (image.mediaType !== 'IMAGE') return [];
+
+        const r2 = new R2Service();
+        const converted = ImageConverter.needsConversion(image.originalKey);
+        const fields = await this.findSensitiveFields(source);
+        const name = path.posix.basename(image.originalKey);
+        // HEIC/RAW originals are never served, and their metadata isn't what `source` was checked for
+        const publishCopy = fields.length > 0 || converted || VisibilityService.isHidden(image);
+        const privateKey = publishCopy ? R2Service.withPrefix(`${PRIVATE_DIR}/originals/${image.id}/${name}`) : null;
+
+        if (privateKey) {
+            await privateStore().putObject(privateKey, original, image.contentType ?? undefined);
+        } else if (image.privateKey) {
+            // Moved on an earlier run but nothing needs hiding now (clean replacement or relaxed policy): put it back
+            await r2.putObject(image.originalKey, original, image.contentType ?? undefined);
+        }
+
+        let publicKey: string | null = null;
+        if (publishCopy) {
+            const clean = fields.length ? await this.sanitize(source) : source;
+            const leftover = await this.findSensitiveFields(clean);
+            if (leftover.length) {
+                throw new Error(`Sanitized copy still contains: ${leftover.join(', ')}`);
+            }
+            const publicName = converted ? `${path.posix.parse(name).name}.jpg` : name;
+            publicKey = R2Service.mediaKey(PUBLISHED_DIR, image, publicName);
+            await r2.putObject(publicKey, clean, converted ? 'image/jpeg' : image.contentType ?? undefined);
+        }
+
+        await prisma.image.update({
+            where: { id: imageId },
+            data: {
+                privateKey,
+                publicKey,
+                url: r2.getPublicUrl(publicKey ?? image.originalKey),
+                strippedFields: fields,
+                privacyCheckedAt: new Date(),
+            },
+        });
+
+        // Only now that the record points at the new copies: drop what it no longer uses
+        if (privateKey) await r2.deleteObject(image.originalKey);
+        if (image.publicKey && image.publicKey !== publicKey) await r2.deleteObject(image.publicKey);
+        if (image.privateKey && image.privateKey !== privateKey) await privateStore().deleteObject(image.privateKey);
+
+        return fields;
+    }
+
+    /**
+     * Videos have no metadata step and are served from their own key, except while the record is hidden:
+     * then the original goes to the private store and the record points at a copy under the media token
+     * (see applyToImage). A video moved once keeps being served from its copy.
+     */
+    static async applyToVideo(imageId: string) {
+        const image = await prisma.image.findUnique({ where: { id: imageId } });
+        if (!image) {
+            throw new Error(`Image ${imageId} not found`);
+        }
+        if (image.mediaType !== 'VIDEO') return;
+        if (!image.privateKey && !VisibilityService.isHidden(image)) return;
+
+        const r2 = new R2Service();
+        const name = path.posix.basename(image.originalKey);
+        // A file at the original key is newer than the kept-back copy (see openOriginal)
+        const dropped = await r2.headObject(image.originalKey);
+        let privateKey = image.privateKey;
+        if (dropped || !privateKey) {
+            privateKey = R2Service.withPrefix(`${PRIVATE_DIR}/originals/${image.id}/${name}`);
+            await privateStore().putObjectStream(privateKey, await r2.getObjectStream(image.originalKey), image.contentType ?? undefined);
+        }
+        const publicKey = R2Service.mediaKey(PUBLISHED_DIR, image, name);
+        if (dropped || publicKey !== image.publicKey) {
+            await r2.putObjectStream(publicKey, await privateStore().getObjectStream(privateKey), image.contentType ?? undefined);
+        }
+
+        await prisma.image.update({
+            where: { id: imageId },
+            data: { privateKey, publicKey, url: r2.getPublicUrl(publicKey) },
+        });
+
+        if (dropped) await r2.deleteObject(image.originalKey);
+        if (image.publicKey && image.publicKey !== publicKey) await r2.deleteObject(image.publicKey);
+        if (image.privateKey && image.privateKey !== privateKey) await privateStore().deleteObject(image.privateKey);
+    }
+
+    /**
+     * Take a record's original and published copy off the keys they are served from, right away rather
+     * than when ingest regenerates them under a new media token: the original moves to the private store
+     * and the record has no public URL until then.
+     */
+    static async withdraw(imageId: string) {
+        const image = await prisma.image.findUnique({ where: { id: imageId } });
+        if (!image) return;
+
+        const r2 = new R2Service();
+        // A file at the original key is the one being served (and newer than a kept-back copy, see openOriginal)
+        const exposed = await r2.headObject(image.originalKey);
+        let privateKey = image.privateKey;
+        if (exposed) {
+            privateKey = R2Service.withPrefix(`${PRIVATE_DIR}/originals/${image.id}/${path.posix.basename(image.originalKey)}`);
+            await privateStore().putObjectStream(privateKey, await r2.getObjectStream(image.originalKey), image.contentType ?? undefined);
+        }
+
+        await prisma.image.update({
+            where: { id: imageId },
+            data: { privateKey, publicKey: null, url: '', privacyCheckedAt: null },
+        });
+
+        if (exposed) await r2.deleteObject(image.originalKey);
+        if (image.publicKey) await r2.deleteObject(image.publicKey);
+        if (image.privateKey && image.privateKey !== privateKey) await privateStore().deleteObject(image.privateKey);
+    }
+
+    /** Remove the published copy and the kept-back original of a record that's being deleted. */
+    static async deleteForImage(image: { publicKey: string | null; privateKey: string | null }) {
+        if (image.publicKey) await new R2Service().deleteObject(image.publicKey);
+        if (image.privateKey) await privateStore().deleteObject(image.privateKey);
+    }
+}
@@ -1,81 +1,111 @@
-import { S3Client, ListObjectsV2Command, PutObjectCommand, DeleteObjectCommand, _Object } from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
 import { env } from '../config/env';
-
+import { HEIF_EXTENSIONS, RAW_EXTENSIONS } from './imageConversion';
+import { DirectUploadDriver, getStorageDriver, StorageDriver, StorageListPage, StorageObject, StorageWriteResult, supportsDirectUpload } from './storage';
+
+/** Folders the app writes generated files into; these are never registered as archive media. */
+export const DERIVATIVES_DIR = '_derivatives';
+// Untouched originals the privacy step moved out of public reach (private bucket on R2)
+export const PRIVATE_DIR = '_private';
+// Copies served in place of originals: metadata-sanitized, converted, or of hidden records (see PrivacyService)
+export const PUBLISHED_DIR = '_published';
+// Chunks of resumable uploads that haven't been assembled yet
+export const UPLOADS_DIR = '_uploads';
+const INTERNAL_DIRS = [DERIVATIVES_DIR, PRIVATE_DIR, PUBLISHED_DIR, UPLOADS_DIR];
+// Internal folders whose files are meant to be fetched by viewers
+const PUBLIC_DIRS = [DERIVATIVES_DIR, PUBLISHED_DIR];
+
+/**
+ * Facade over the configured StorageDriver (R2/S3 or local disk).
+ * Kept under its historical name so routes and jobs don't care which backend is active.
+ */
 export class R2Service {
-    private client: S3Client | undefined;
+    private driver: StorageDriver;
 
-    constructor() {
-        if (env.ENABLE_R2_SYNC && env.R2_ENDPOINT && env.R2_ACCESS_KEY_ID && env.R2_SECRET_ACCESS_KEY) {
-            this.client = new S3Client({
-                region: 'auto',
-                endpoint: env.R2_ENDPOINT,
-                credentials: {
-                    accessKeyId: env.R2_ACCESS_KEY_ID,
-                    secretAccessKey: env.R2_SECRET_ACCESS_KEY,
-                },
-            });
-        } else {
-            // Can optionally log debug warning here, but we check env.ENABLE_R2_SYNC before using usually
-        }
+    constructor(driver: StorageDriver = getStorageDriver()) {
+        this.driver = driver;
     }
 
-    async listAllObjects(prefix = ''): Promise<_Object[]> {
-        if (!this.client) {
-            throw new Error("R2 Client is not initialized (ENABLE_R2_SYNC is false)");
-        }
+    async listAllObjects(prefix = ''): Promise<StorageObject[]> {
+        return this.driver.list(prefix);
+    }
 
-        let continuationToken: string | undefined = undefined;
-        const allObjects: _Object[] = [];
+    async listObjectsPage(prefix = '', startAfter?: string, maxKeys?: number): Promise<StorageListPage> {
+        return this.driver.listPage(prefix, startAfter, maxKeys);
+    }
 
-        do {
-            const command = new ListObjectsV2Command({
-                Bucket: env.R2_BUCKET,
-                Prefix: prefix,
-                ContinuationToken: continuationToken,
-            });
+    async putObject(key: string, body: Buffer, contentType?: string) {
+        await this.driver.put(key, body, contentType);
+    }
 
-            const response = await this.client.send(command) as any;
+    async putObjectStream(key: string, body: Readable, contentType?: string): Promise<StorageWriteResult> {
+        return this.driver.putStream(key, body, contentType);
+    }
 
-            if (response.Contents) {
-                allObjects.push(...response.Contents);
-            }
-            continuationToken = response.NextContinuationToken;
-        } while (continuationToken);
+    async deleteObject(key: string) {
+        await this.driver.delete(key);
+    }
 
-        return allObjects;
+    async headObject(key: string): Promise<StorageObject | null> {
+        return this.driver.head(key);
     }
 
-    async putObject(key: string, body: Buffer, contentType?: string) {
-        if (!this.client) {
-            throw new Error("R2 Client is not initialized (ENABLE_R2_SYNC is false)");
-        }
+    async getObjectStream(key: string): Promise<Readable> {
+        return this.driver.stream(key);
+    }
 
-        const command = new PutObjectCommand({
-            Bucket: env.R2_BUCKET,
-            Key: key,
-            Body: body,
-            ContentType: contentType,
-        });
+    /** Presigned-upload support of the active driver; null when it can't issue them (local disk). */
+    get directUpload(): DirectUploadDriver | null {
+        return supportsDirectUpload(this.driver) ? this.driver : null;
+    }
 
-        await this.client.send(command);
+    getPublicUrl(key: string): string {
+        return this.driver.publicUrl(key);
     }
 
-    async deleteObject(key: string) {
-        if (!this.client) {
-            throw new Error("R2 Client is not initialized (ENABLE_R2_SYNC is false)");
-        }
+    /** Prepend the configured R2_PREFIX (if any) to a bucket path. */
+    static withPrefix(path: string): string {
+        const prefix = env.R2_PREFIX ? env.R2_PREFIX.replace(/\/?$/, '/') : '';
+        return `${prefix}${path}`;
+    }
+
+    /**
+     * Key of a file generated for a record: `<dir>/<id>/<mediaToken>/<name>`. The token keeps the key
+     * from being guessed from the (enumerable) ID; records without one keep the old `<dir>/<id>/<name>`.
+     */
+    static mediaKey(dir: string, image: { id: string; mediaToken: string | null }, name: string): string {
+        return this.withPrefix(`${dir}/${image.id}/${image.mediaToken ? `${image.mediaToken}/` : ''}${name}`);
+    }
 
-        const command = new DeleteObjectCommand({
-            Bucket: env.R2_BUCKET,
-            Key: key,
-        });
+    /** Bucket key for an admin upload: always under `<R2_PREFIX><folder>/` (`admin/` by default), with a unique, sanitized name. */
+    static uploadKey(filename: string, folder = 'admin'): string {
+        const safeName = filename.replace(/[^a-zA-Z0-9._-]/g, '_');
+        const unique = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        return this.withPrefix(`${folder}/${unique}-${safeName}`);
+    }
+
+    /**
+     * Where to continue a listing that has reached `key`: past the whole folder when it's one the app
+     * writes into, so generated files aren't paged through. U+10FFFF sorts after any other character.
+     */
+    static skipInternalDir(key: string): string {
+        const dir = INTERNAL_DIRS.find(name => key.startsWith(this.withPrefix(`${name}/`)));
+        return dir ? this.withPrefix(`${dir}/\u{10FFFF}`) : key;
+    }
+
+    static isInternalKey(key: string): boolean {
+        return key.split('/').some(segment => INTERNAL_DIRS.includes(segment));
+    }
 
-        await this.client.send(command);
+    /** Whether a key may be served publicly: anything outside the internal folders, plus generated derivatives and published copies. */
+    static isServableKey(key: string): boolean {
+        return !this.isInternalKey(key.split('/').filter(segment => !PUBLIC_DIRS.includes(segment)).join('/'));
     }
 
     static getMediaType(key: string): 'IMAGE' | 'VIDEO' | null {
         const lowerKey = key.toLowerCase();
-        const imageExt = ['.jpg', '.jpeg', '.png', '.webp', '.gif', '.avif'];
+        // HEIC and camera RAW are converted for display during ingest (see ImageConverter)
+        const imageExt = ['.jpg', '.jpeg', '.png', '.webp', '.gif', '.avif', ...HEIF_EXTENSIONS, ...RAW_EXTENSIONS];
         const videoExt = ['.mp4', '.webm', '.mov'];
         if (imageExt.some(ext => lowerKey.endsWith(ext))) return 'IMAGE';
         if (videoExt.some(ext => lowerKey.endsWith(ext))) return 'VIDEO';
@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import { pipeline, Readable, Transform } from 'stream';
+import { Prisma, ResumableUpload } from '@prisma/client';
+import { env } from '../config/env';
+import { prisma } from '../utils/prisma';
+import { IdGenerator } from './idGenerator';
+import { DuplicateService } from './duplicates';
+import { MediaValidator } from './mediaValidation';
+import { ScheduleService } from './schedule';
+import { R2Service, UPLOADS_DIR } from './r2';
+import { enqueueIngest } from '../jobs/ingest';
+
+/** Errors carrying the HTTP status the tus route should answer with. */
+const uploadError = (statusCode: number, message: string) => Object.assign(new Error(message), { statusCode });
+
+/** Decode a tus `Upload-Metadata` header: comma-separated `key base64value` pairs. */
+export const parseUploadMetadata = (header?: string): Record<string, string> => {
+    const metadata: Record<string, string> = {};
+    for (const pair of (header ?? '').split(',')) {
+        const [key, value] = pair.trim().split(' ');
+        if (!key) continue;
+        metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+    }
+    return metadata;
+};
+
+/** Optional `publishAt` metadata (ISO 8601): the file is registered but stays off the public routes until then. */
+const publishAtOf = (metadata: Record<string, string>): Date | undefined => {
+    const value = metadata.publishAt?.trim();
+    const date = value ? new Date(value) : undefined;
+    return date && !Number.isNaN(date.getTime()) ? date : undefined;
+};
+
+const chunkKey = (uploadId: string, index: number) => {
+    return R2Service.withPrefix(`${UPLOADS_DIR}/${uploadId}/${String(index).padStart(6, '0')}`);
+};
+
+const expiry = () => new Date(Date.now() + env.TUS_EXPIRE_HOURS * 60 * 60 * 1000);
+
+/**
+ * Server side of the tus protocol (see routes/tus.ts).
+ *
+ * Each PATCH body is streamed into its own chunk object under `_uploads/<id>/`, and the offset only
+ * advances once that chunk is fully stored, so an interrupted request costs at most one chunk. When
+ * the last byte arrives the chunks are streamed, in order, into the final key and the file is
+ * registered like any other admin upload. Keeping everything in storage (not on local disk) lets any
+ * instance resume an upload.
+ */
+export class ResumableUploads {
+    static async create(length: number, rawMetadata?: string): Promise<ResumableUpload> {
+        const metadata = parseUploadMetadata(rawMetadata);
+        const filename = metadata.filename || metadata.name || 'upload';
+        if (!R2Service.getMediaType(filename)) {
+            throw uploadError(415, 'Unsupported file type');
+        }
+        if (length > env.TUS_MAX_SIZE_MB * 1024 * 1024) {
+            throw uploadError(413, `File exceeds the ${env.TUS_MAX_SIZE_MB} MB limit`);
+        }
+        const archiveId = metadata.archiveId?.trim() || undefined;
+        if (archiveId) {
+            const conflict = await IdGenerator.checkAvailable(archiveId);
+            if (conflict) throw uploadError(409, conflict);
+        }
+        if (metadata.publishAt && !publishAtOf(metadata)) {
+            throw uploadError(400, 'Invalid publishAt');
+        }
+
+        return prisma.resumableUpload.create({
+            data: {
+                id: crypto.randomBytes(16).toString('hex'),
+                key: R2Service.uploadKey(filename),
+                filename,
+                contentType: metadata.filetype || metadata.type || null,
+                archiveId,
+                length,
+                metadata: rawMetadata || null,
+                publishAt: publishAtOf(metadata),
+                expiresAt: expiry(),
+            },
+        });
+    }
+
+    /** The upload, or null if it never existed or has expired. */
+    static async get(id: string): Promise<ResumableUpload | null> {
+        const upload = await prisma.resumableUpload.findUnique({ where: { id } });
+        if (!upload || (!upload.imageId && upload.expiresAt < new Date())) return null;
+        return upload;
+    }
+
+    /** Store one PATCH body at `offset`; returns the new offset. */
+    static async append(upload: ResumableUpload, offset: number, body: Readable): Promise<number> {
+        if (offset !== upload.offset) {
+            throw uploadError(409, `Offset mismatch: upload is at ${upload.offset}`);
+        }
+        const remaining = upload.length - upload.offset;
+        let received = 0;
+        const bounded = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+                received += chunk.length;
+                callback(received > remaining ? uploadError(413, 'Body exceeds Upload-Length') : null, chunk);
+            },
+        });
+        bounded.on('error', () => undefined);
+        // pipeline (unlike pipe) fails `bounded` when the client disconnects mid-body, aborting the chunk write
+        pipeline(body, bounded, () => undefined);
+
+        const r2 = new R2Service();
+        const key = chunkKey(upload.id, upload.chunkCount);
+        const stored = await r2.putObjectStream(key, bounded, 'application/octet-stream');
+        if (stored.size === 0) {
+            await r2.deleteObject(key).catch(() => undefined);
+            return upload.offset;
+        }
+
+        // Conditional on the state we started from: a concurrent PATCH for the same offset loses
+        const advanced = await prisma.resumableUpload.updateMany({
+            where: { id: upload.id, offset: upload.offset, chunkCount: upload.chunkCount },
+            data: {
+                offset: { increment: stored.size },
+                chunkCount: { increment: 1 },
+                expiresAt: expiry(),
+            },
+        });
+        if (advanced.count === 0) {
+            await r2.deleteObject(key).catch(() => undefined);
+            throw uploadError(409, 'Upload was modified concurrently');
+        }
+        return upload.offset + stored.size;
+    }
+
+    /**
+     * Assemble the chunks into the final object and register it. Idempotent: returns the existing
+     * image id if it already ran. `duplicateOf` is set when the file was already archived (see
+     * DUPLICATE_UPLOAD_POLICY); with the `link` policy the image id is that existing record.
+     */
+    static async finalize(id: string): Promise<{ imageId: string; duplicateOf?: string }> {
+        const upload = await prisma.resumableUpload.findUnique({ where: { id } });
+        if (!upload) throw uploadError(404, 'Upload not found');
+        if (upload.imageId) return { imageId: upload.imageId };
+        if (upload.offset !== upload.length) throw uploadError(409, 'Upload is incomplete');
+
+        const r2 = new R2Service();
+        const chunks = async function* () {
+            for (let i = 0; i < upload.chunkCount; i++) {
+                yield* await r2.getObjectStream(chunkKey(upload.id, i));
+            }
+        };
+        const stored = await r2.putObjectStream(upload.key, Readable.from(chunks()), upload.contentType ?? undefined);
+        if (stored.size !== upload.length) {
+            await r2.deleteObject(upload.key).catch(() => undefined);
+            throw uploadError(500, `Assembled ${stored.size} bytes, expected ${upload.length}`);
+        }
+        const validated = await MediaValidator.checkStored(upload.key, upload.filename);
+        if (!validated.ok) {
+            // Nothing to resume: the content itself is bad, so drop the upload entirely
+            await r2.deleteObject(upload.key).catch(() => undefined);
+            await this.terminate(upload);
+            throw uploadError(422, validated.reason);
+        }
+
+        const duplicate = await DuplicateService.findForUpload(upload.key, stored.sha256);
+        if (duplicate && env.DUPLICATE_UPLOAD_POLICY !== 'warn') {
+            await r2.deleteObject(upload.key).catch(() => undefined);
+            if (env.DUPLICATE_UPLOAD_POLICY === 'skip') {
+                await this.terminate(upload);
+                throw uploadError(422, `Duplicate of ${duplicate.id}`);
+            }
+            await prisma.resumableUpload.update({ where: { id }, data: { imageId: duplicate.id, expiresAt: expiry() } });
+            await this.deleteChunks(upload);
+            return { imageId: duplicate.id, duplicateOf: duplicate.id };
+        }
+
+        const publishAt = upload.publishAt ?? publishAtOf(parseUploadMetadata(upload.metadata ?? undefined));
+        let imageId: string;
+        try {
+            const record = await IdGenerator.createImageRecord({
+                originalKey: upload.key,
+                url: r2.getPublicUrl(upload.key),
+                mediaType: validated.detected.mediaType,
+                sizeBytes: stored.size,
+                contentType: validated.detected.contentType,
+                etag: stored.etag,
+                sha256: stored.sha256,
+                publishAt,
+            }, { id: upload.archiveId ?? undefined });
+            enqueueIngest(record.id);
+            imageId = record.id;
+        } catch (err) {
+            // Registered meanwhile (a concurrent finalize or a storage webhook)
+            const existing = err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002'
+                ? await prisma.image.findUnique({ where: { originalKey: upload.key }, select: { id: true } })
+                : null;
+            if (!existing) throw err;
+            imageId = existing.id;
+            if (publishAt) {
+                await prisma.image.update({
+                    where: { id: imageId },
+                    data: { publishAt, scheduleState: ScheduleService.stateFor(publishAt, null) },
+                });
+            }
+        }
+
+        await prisma.resumableUpload.update({ where: { id }, data: { imageId, expiresAt: expiry() } });
+        await this.deleteChunks(upload);
+        return { imageId, duplicateOf: duplicate?.id };
+    }
+
+    static async terminate(upload: ResumableUpload) {
+        await this.deleteChunks(upload);
+        await prisma.resumableUpload.deleteMany({ where: { id: upload.id } });
+    }
+
+    /** Drop expired uploads and their chunks (finished ones are kept until then so clients can look up the ID). */
+    static async pruneExpired() {
+        const expired = await prisma.resumableUpload.findMany({ where: { expiresAt: { lt: new Date() } } });
+        for (const upload of expired) {
+            await this.terminate(upload).catch((err) => {
+                console.error(`Failed to remove expired upload ${upload.id}:`, err);
+            });
+        }
+    }
+
+    private static async deleteChunks(upload: ResumableUpload) {
+        const r2 = new R2Service();
+        for (let i = 0; i < upload.chunkCount; i++) {
+            await r2.deleteObject(chunkKey(upload.id, i)).catch(() => undefined);
+        }
+    }
+}
@@ -0,0 +1,300 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import {
+    S3Client,
+    ListObjectsV2Command,
+    PutObjectCommand,
+    CreateMultipartUploadCommand,
+    UploadPartCommand,
+    CompleteMultipartUploadCommand,
+    AbortMultipartUploadCommand,
+    CompletedPart,
+    DeleteObjectCommand,
+    HeadObjectCommand,
+    GetObjectCommand,
+    _Object,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { env } from '../config/env';
+import { readChunks } from '../utils/stream';
+import type { DirectUploadDriver, StorageDriver, StorageListPage, StorageObject, StorageWriteResult } from './storage';
+
+const md5 = (data: Buffer) => crypto.createHash('md5').update(data).digest('base64');
+
+export class S3StorageDriver implements StorageDriver, DirectUploadDriver {
+    readonly name = 'r2' as const;
+    private client: S3Client | undefined;
+    private bucket: string | undefined;
+
+    constructor(bucket = env.R2_BUCKET) {
+        this.bucket = bucket;
+        if (env.ENABLE_R2_SYNC && env.R2_ENDPOINT && env.R2_ACCESS_KEY_ID && env.R2_SECRET_ACCESS_KEY) {
+            this.client = new S3Client({
+                region: 'auto',
+                endpoint: env.R2_ENDPOINT,
+                // Otherwise presigned URLs embed a checksum of the (empty) body at signing time
+                requestChecksumCalculation: 'WHEN_REQUIRED',
+                credentials: {
+                    accessKeyId: env.R2_ACCESS_KEY_ID,
+                    secretAccessKey: env.R2_SECRET_ACCESS_KEY,
+                },
+            });
+        }
+    }
+
+    private getClient(): S3Client {
+        if (!this.client) {
+            throw new Error("R2 Client is not initialized (ENABLE_R2_SYNC is false)");
+        }
+        return this.client;
+    }
+
+    async list(prefix = ''): Promise<StorageObject[]> {
+        const client = this.getClient();
+        let continuationToken: string | undefined = undefined;
+        const allObjects: StorageObject[] = [];
+
+        do {
+            const command = new ListObjectsV2Command({
+                Bucket: this.bucket,
+                Prefix: prefix,
+                ContinuationToken: continuationToken,
+            });
+
+            const response = await client.send(command) as any;
+
+            if (response.Contents) {
+                for (const obj of response.Contents as _Object[]) {
+                    if (!obj.Key) continue;
+                    allObjects.push({
+                        key: obj.Key,
+                        size: obj.Size,
+                        lastModified: obj.LastModified,
+                        etag: obj.ETag?.replace(/"/g, ''),
+                    });
+                }
+            }
+            continuationToken = response.NextContinuationToken;
+        } while (continuationToken);
+
+        return allObjects;
+    }
+
+    async listPage(prefix = '', startAfter?: string, maxKeys = 1000): Promise<StorageListPage> {
+        const command = new ListObjectsV2Command({
+            Bucket: this.bucket,
+            Prefix: prefix,
+            StartAfter: startAfter,
+            MaxKeys: maxKeys,
+        });
+        const response = await this.getClient().send(command) as any;
+
+        const objects: StorageObject[] = [];
+        for (const obj of (response.Contents ?? []) as _Object[]) {
+            if (!obj.Key) continue;
+            objects.push({
+                key: obj.Key,
+                size: obj.Size,
+                lastModified: obj.LastModified,
+                etag: obj.ETag?.replace(/"/g, ''),
+            });
+        }
+
+        return {
+            objects,
+            nextStartAfter: response.IsTruncated && objects.length ? objects[objects.length - 1].key : undefined,
+        };
+    }
+
+    async put(key: string, body: Buffer, contentType?: string) {
+        const command = new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Body: body,
+            ContentType: contentType,
+        });
+
+        await this.getClient().send(command);
+    }
+
+    /**
+     * Streams the body in UPLOAD_PART_SIZE_MB parts, so memory use is one part regardless of file size.
+     * Bodies that fit in a single part are sent with a plain PutObject. Every request carries a
+     * Content-MD5 so the bucket rejects corrupted parts; a failed upload is aborted.
+     */
+    async putStream(key: string, body: Readable, contentType?: string): Promise<StorageWriteResult> {
+        const client = this.getClient();
+        const partSize = env.UPLOAD_PART_SIZE_MB * 1024 * 1024;
+        const hash = crypto.createHash('sha256');
+        let size = 0;
+        let uploadId: string | undefined;
+        const parts: CompletedPart[] = [];
+
+        try {
+            for await (const chunk of readChunks(body, partSize)) {
+                hash.update(chunk);
+                size += chunk.length;
+
+                if (!uploadId && chunk.length < partSize) {
+                    // Short first chunk means the whole body is already here
+                    const response = await client.send(new PutObjectCommand({
+                        Bucket: this.bucket,
+                        Key: key,
+                        Body: chunk,
+                        ContentType: contentType,
+                        ContentMD5: md5(chunk),
+                    }));
+                    return { size, sha256: hash.digest('hex'), etag: response.ETag?.replace(/"/g, '') };
+                }
+
+                if (!uploadId) {
+                    const created = await client.send(new CreateMultipartUploadCommand({
+                        Bucket: this.bucket,
+                        Key: key,
+                        ContentType: contentType,
+                    }));
+                    if (!created.UploadId) {
+                        throw new Error(`No upload id returned for ${key}`);
+                    }
+                    uploadId = created.UploadId;
+                }
+
+                const partNumber = parts.length + 1;
+                const uploaded = await client.send(new UploadPartCommand({
+                    Bucket: this.bucket,
+                    Key: key,
+                    UploadId: uploadId,
+                    PartNumber: partNumber,
+                    Body: chunk,
+                    ContentMD5: md5(chunk),
+                }));
+                parts.push({ PartNumber: partNumber, ETag: uploaded.ETag });
+            }
+
+            if (!uploadId) {
+                // Empty body
+                const response = await client.send(new PutObjectCommand({
+                    Bucket: this.bucket,
+                    Key: key,
+                    Body: Buffer.alloc(0),
+                    ContentType: contentType,
+                }));
+                return { size, sha256: hash.digest('hex'), etag: response.ETag?.replace(/"/g, '') };
+            }
+
+            const completed = await client.send(new CompleteMultipartUploadCommand({
+                Bucket: this.bucket,
+                Key: key,
+                UploadId: uploadId,
+                MultipartUpload: { Parts: parts },
+            }));
+            return { size, sha256: hash.digest('hex'), etag: completed.ETag?.replace(/"/g, '') };
+        } catch (err) {
+            if (uploadId) {
+                await client.send(new AbortMultipartUploadCommand({
+                    Bucket: this.bucket,
+                    Key: key,
+                    UploadId: uploadId,
+                })).catch((abortErr) => {
+                    console.error(`Failed to abort multipart upload for ${key}:`, abortErr);
+                });
+            }
+            throw err;
+        }
+    }
+
+    async presignPut(key: string, contentType: string | undefined, expiresIn: number): Promise<string> {
+        return getSignedUrl(this.getClient(), new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            ContentType: contentType,
+        }), { expiresIn });
+    }
+
+    async createMultipartUpload(key: string, contentType?: string): Promise<string> {
+        const created = await this.getClient().send(new CreateMultipartUploadCommand({
+            Bucket: this.bucket,
+            Key: key,
+            ContentType: contentType,
+        }));
+        if (!created.UploadId) {
+            throw new Error(`No upload id returned for ${key}`);
+        }
+        return created.UploadId;
+    }
+
+    async presignUploadPart(key: string, uploadId: string, partNumber: number, expiresIn: number): Promise<string> {
+        return getSignedUrl(this.getClient(), new UploadPartCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumber: partNumber,
+        }), { expiresIn });
+    }
+
+    async completeMultipartUpload(key: string, uploadId: string, parts: { partNumber: number; etag: string }[]) {
+        await this.getClient().send(new CompleteMultipartUploadCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId: uploadId,
+            MultipartUpload: {
+                Parts: [...parts]
+                    .sort((a, b) => a.partNumber - b.partNumber)
+                    .map(part => ({ PartNumber: part.partNumber, ETag: part.etag })),
+            },
+        }));
+    }
+
+    async abortMultipartUpload(key: string, uploadId: string) {
+        await this.getClient().send(new AbortMultipartUploadCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId: uploadId,
+        }));
+    }
+
+    async delete(key: string) {
+        const command = new DeleteObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+        });
+
+        await this.getClient().send(command);
+    }
+
+    async head(key: string): Promise<StorageObject | null> {
+        try {
+            const response = await this.getClient().send(new HeadObjectCommand({
+                Bucket: this.bucket,
+                Key: key,
+            }));
+            return {
+                key,
+                size: response.ContentLength,
+                lastModified: response.LastModified,
+                etag: response.ETag?.replace(/"/g, ''),
+                contentType: response.ContentType,
+            };
+        } catch (err: any) {
+            if (err?.name === 'NotFound' || err?.$metadata?.httpStatusCode === 404) {
+                return null;
+            }
+            throw err;
+        }
+    }
+
+    async stream(key: string): Promise<Readable> {
+        const response = await this.getClient().send(new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+        }));
+        if (!response.Body) {
+            throw new Error(`Empty body for object ${key}`);
+        }
+        return response.Body as Readable;
+    }
+
+    publicUrl(key: string): string {
+        return `${env.CDN_BASE_URL}/${key}`;
+    }
+}
@@ -0,0 +1,156 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { Lease } from './lease';
+
+export type ScheduleState = 'scheduled' | 'live' | 'expired';
+
+const SCHEDULE_LEASE = 'schedule';
+const SCHEDULE_LEASE_TTL_MS = 2 * 60 * 1000;
+// Transitions handled per pass; a larger backlog is picked up by the next run
+const BATCH_SIZE = 500;
+
+const scheduleError = (statusCode: number, message: string) => Object.assign(new Error(message), { statusCode });
+
+/**
+ * Publishing windows. Public routes compare `publishAt` / `expireAt` with the clock on every
+ * request, so a record appears and disappears on time regardless of the job; the job only keeps
+ * `scheduleState` current and logs each transition as a ScheduleEvent.
+ */
+export class ScheduleService {
+    /** Filter for records the public may see right now. */
+    static publicWhere(now = new Date()): Prisma.ImageWhereInput {
+        return {
+            isActive: true,
+            AND: [
+                { OR: [{ publishAt: null }, { publishAt: { lte: now } }] },
+                { OR: [{ expireAt: null }, { expireAt: { gt: now } }] },
+            ],
+        };
+    }
+
+    /** Same test as publicWhere, for a record that's already loaded. */
+    static isVisible(image: { isActive: boolean; publishAt: Date | null; expireAt: Date | null }, now = new Date()): boolean {
+        return image.isActive
+            && (!image.publishAt || image.publishAt <= now)
+            && (!image.expireAt || image.expireAt > now);
+    }
+
+    static stateFor(publishAt: Date | null, expireAt: Date | null, now = new Date()): ScheduleState | null {
+        if (expireAt && expireAt <= now) return 'expired';
+        if (publishAt && publishAt > now) return 'scheduled';
+        return publishAt || expireAt ? 'live' : null;
+    }
+
+    /** The window (and state) a record ends up with after an admin edit; `undefined` keeps the stored value. */
+    static async resolveWindow(imageId: string, window: { publishAt?: Date | null; expireAt?: Date | null }) {
+        const image = await prisma.image.findUnique({ where: { id: imageId }, select: { publishAt: true, expireAt: true } });
+        if (!image) {
+            throw scheduleError(404, 'Image not found');
+        }
+        const publishAt = window.publishAt === undefined ? image.publishAt : window.publishAt;
+        const expireAt = window.expireAt === undefined ? image.expireAt : window.expireAt;
+        if (publishAt && expireAt && expireAt <= publishAt) {
+            throw scheduleError(400, 'expireAt must be after publishAt');
+        }
+        return { publishAt, expireAt, scheduleState: this.stateFor(publishAt, expireAt) };
+    }
+
+    /**
+     * publishAt chosen when an upload was started (direct or tus), by storage key. The storage
+     * webhook or a sync may see the object before the upload's own completion registers it, so
+     * every path that registers a key applies this.
+     */
+    static async stagedPublishAt(keys: string[]): Promise<Map<string, Date>> {
+        if (!keys.length) return new Map();
+        const where = { key: { in: keys }, publishAt: { not: null } };
+        const [direct, resumable] = await Promise.all([
+            prisma.directUpload.findMany({ where, select: { key: true, publishAt: true } }),
+            prisma.resumableUpload.findMany({ where, select: { key: true, publishAt: true } }),
+        ]);
+        return new Map([...direct, ...resumable].map(upload => [upload.key, upload.publishAt!]));
+    }
+
+    /** Upcoming transitions (soonest first) and the most recent ones the job recorded. */
+    static async overview(limit: number) {
+        const now = new Date();
+        const [upcoming, events] = await Promise.all([
+            prisma.image.findMany({
+                where: {
+                    OR: [
+                        { publishAt: { gt: now } },
+                        { expireAt: { gt: now } },
+                    ],
+                },
+                select: { id: true, url: true, mediaType: true, isActive: true, publishAt: true, expireAt: true },
+                orderBy: [{ publishAt: { sort: 'asc', nulls: 'last' } }, { expireAt: 'asc' }],
+                take: limit,
+            }),
+            prisma.scheduleEvent.findMany({
+                select: { imageId: true, kind: true, at: true, recordedAt: true },
+                orderBy: { recordedAt: 'desc' },
+                take: limit,
+            }),
+        ]);
+        return {
+            upcoming: upcoming.map(image => ({
+                ...image,
+                publishAt: image.publishAt?.toISOString() ?? null,
+                expireAt: image.expireAt?.toISOString() ?? null,
+            })),
+            events: events.map(event => ({
+                ...event,
+                at: event.at.toISOString(),
+                recordedAt: event.recordedAt.toISOString(),
+            })),
+        };
+    }
+
+    /**
+     * Move records whose publishAt / expireAt has passed to their new state and log the change.
+     * Runs under a lease so several instances don't record the same transition twice.
+     */
+    static async recordTransitions(): Promise<{ published: number; expired: number } | null> {
+        const lease = await Lease.acquire(SCHEDULE_LEASE, SCHEDULE_LEASE_TTL_MS);
+        if (!lease) return null;
+        try {
+            const now = new Date();
+            // Expiry first: a record whose whole window passed between runs goes straight to expired
+            const expired = await this.transition('expired', now, {
+                scheduleState: { in: ['scheduled', 'live'] },
+                expireAt: { lte: now },
+            });
+            const published = await this.transition('published', now, {
+                scheduleState: 'scheduled',
+                publishAt: { lte: now },
+            });
+            return { published, expired };
+        } finally {
+            await lease.release();
+        }
+    }
+
+    private static async transition(kind: 'published' | 'expired', now: Date, where: Prisma.ImageWhereInput): Promise<number> {
+        const due = await prisma.image.findMany({
+            where,
+            select: { id: true, publishAt: true, expireAt: true },
+            take: BATCH_SIZE,
+        });
+        if (!due.length) return 0;
+
+        const state: ScheduleState = kind === 'expired' ? 'expired' : 'live';
+        const [updated] = await prisma.$transaction([
+            prisma.image.updateMany({
+                where: { AND: [where, { id: { in: due.map(image => image.id) } }] },
+                data: { scheduleState: state },
+            }),
+            prisma.scheduleEvent.createMany({
+                data: due.map(image => ({
+                    imageId: image.id,
+                    kind,
+                    at: (kind === 'expired' ? image.expireAt : image.publishAt) ?? now,
+                })),
+            }),
+        ]);
+        return updated.count;
+    }
+}
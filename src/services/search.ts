@@ -0,0 +1,106 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+
+export const TAG_MAX_LENGTH = 64;
+
+export interface SearchFilters {
+    /** Free text; every word must match (as a prefix) somewhere in the record */
+    q?: string;
+    mediaType?: 'IMAGE' | 'VIDEO';
+    active?: boolean;
+    /** Range over the capture date, or the upload date when the file has none */
+    from?: Date;
+    to?: Date;
+    /** Records must carry all of these */
+    tags?: string[];
+    limit: number;
+    offset: number;
+}
+
+/**
+ * What a query is matched against, most to least significant: caption and tags, the archive ID
+ * and original filename (split on punctuation, so `IMG_1234.jpg` matches `1234`), camera and lens,
+ * then every string value in the stored EXIF. The `simple` configuration keeps names and model
+ * numbers intact instead of stemming them as English.
+ */
+const DOCUMENT = Prisma.sql`(
+    setweight(to_tsvector('simple', concat_ws(' ', "caption", array_to_string("tags", ' '))), 'A') ||
+    setweight(to_tsvector('simple', concat_ws(' ', "id", regexp_replace("originalKey", '[^[:alnum:]]+', ' ', 'g'))), 'B') ||
+    setweight(to_tsvector('simple', concat_ws(' ', "cameraMake", "cameraModel", "lensModel")), 'C') ||
+    setweight(coalesce(jsonb_to_tsvector('simple', "exif", '["string"]'), ''::tsvector), 'D')
+)`;
+
+/** Words of a query as prefix terms joined with AND (`lisb 2024` → `lisb:* & 2024:*`); null if none. */
+const toTsQuery = (q: string): string | null => {
+    const words = q.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    return words.length ? words.map(word => `${word}:*`).join(' & ') : null;
+};
+
+/**
+ * Admin search over the archive with Postgres full-text search. The document is built per query
+ * rather than stored: the archive is bounded by the ID space and only the admin panel searches.
+ */
+export class SearchService {
+    /** Lowercased, trimmed, de-duplicated tags; whitespace inside a tag becomes a dash. */
+    static normalizeTags(tags: string[]): string[] {
+        const normalized = tags
+            .map(tag => tag.trim().toLowerCase().replace(/\s+/g, '-').slice(0, TAG_MAX_LENGTH))
+            .filter(Boolean);
+        return [...new Set(normalized)];
+    }
+
+    /** Matching IDs, best match first (newest first without a query), and the total match count. */
+    static async search(filters: SearchFilters): Promise<{ ids: string[]; total: number }> {
+        const conditions: Prisma.Sql[] = [];
+        const tsQuery = filters.q ? toTsQuery(filters.q) : null;
+        if (tsQuery) {
+            conditions.push(Prisma.sql`${DOCUMENT} @@ to_tsquery('simple', ${tsQuery})`);
+        }
+        if (filters.mediaType) {
+            conditions.push(Prisma.sql`"mediaType" = ${filters.mediaType}::"MediaType"`);
+        }
+        if (filters.active !== undefined) {
+            conditions.push(Prisma.sql`"isActive" = ${filters.active}`);
+        }
+        if (filters.from) {
+            conditions.push(Prisma.sql`coalesce("capturedAt", "createdAt") >= ${filters.from}`);
+        }
+        if (filters.to) {
+            conditions.push(Prisma.sql`coalesce("capturedAt", "createdAt") <= ${filters.to}`);
+        }
+        const tags = filters.tags ? this.normalizeTags(filters.tags) : [];
+        if (tags.length) {
+            conditions.push(Prisma.sql`"tags" @> ${tags}::text[]`);
+        }
+
+        const where = conditions.length ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+        const order = tsQuery
+            ? Prisma.sql`ORDER BY ts_rank(${DOCUMENT}, to_tsquery('simple', ${tsQuery})) DESC, "createdAt" DESC`
+            : Prisma.sql`ORDER BY "createdAt" DESC`;
+
+        const rows = await prisma.$queryRaw<{ id: string; total: bigint }[]>`
+            SELECT "id", count(*) OVER () AS total
+            FROM "images"
+            ${where}
+            ${order}
+            LIMIT ${filters.limit} OFFSET ${filters.offset}
+        `;
+        if (rows.length || filters.offset === 0) {
+            return { ids: rows.map(row => row.id), total: rows.length ? Number(rows[0].total) : 0 };
+        }
+        // Paged past the end: the window count isn't available, so count separately
+        const [{ total }] = await prisma.$queryRaw<{ total: bigint }[]>`SELECT count(*) AS total FROM "images" ${where}`;
+        return { ids: [], total: Number(total) };
+    }
+
+    /** Every tag in use with how many records carry it, most used first. */
+    static async tagCounts(): Promise<{ tag: string; count: number }[]> {
+        const rows = await prisma.$queryRaw<{ tag: string; count: bigint }[]>`
+            SELECT tag, count(*) AS count
+            FROM "images", unnest("tags") AS tag
+            GROUP BY tag
+            ORDER BY count DESC, tag ASC
+        `;
+        return rows.map(row => ({ tag: row.tag, count: Number(row.count) }));
+    }
+}
@@ -0,0 +1,87 @@
+import { Readable } from 'stream';
+import { env } from '../config/env';
+import { S3StorageDriver } from './s3Storage';
+import { LocalStorageDriver } from './localStorage';
+
+export interface StorageObject {
+    key: string;
+    size?: number;
+    lastModified?: Date;
+    etag?: string;
+    contentType?: string;
+}
+
+export interface StorageListPage {
+    objects: StorageObject[];
+    /** Pass as `startAfter` to fetch the next page; undefined once the listing is exhausted. */
+    nextStartAfter?: string;
+}
+
+/** Result of a streamed write; the checksum is computed over the bytes actually stored. */
+export interface StorageWriteResult {
+    size: number;
+    sha256: string;
+    etag?: string;
+}
+
+/**
+ * Minimal contract every storage backend (R2/S3, local disk) must satisfy.
+ * Keys are always bucket-relative, forward-slash separated paths.
+ */
+export interface StorageDriver {
+    readonly name: 'r2' | 'local';
+    list(prefix?: string): Promise<StorageObject[]>;
+    /** One page of keys in lexicographic (UTF-8 byte) order, strictly after `startAfter`. */
+    listPage(prefix?: string, startAfter?: string, maxKeys?: number): Promise<StorageListPage>;
+    put(key: string, body: Buffer, contentType?: string): Promise<void>;
+    /** Write a stream without holding it in memory; nothing is left behind if the stream errors. */
+    putStream(key: string, body: Readable, contentType?: string): Promise<StorageWriteResult>;
+    delete(key: string): Promise<void>;
+    head(key: string): Promise<StorageObject | null>;
+    stream(key: string): Promise<Readable>;
+    publicUrl(key: string): string;
+}
+
+/** Optional capability: clients upload straight to the bucket with presigned URLs (R2/S3 only). */
+export interface DirectUploadDriver {
+    presignPut(key: string, contentType: string | undefined, expiresIn: number): Promise<string>;
+    createMultipartUpload(key: string, contentType?: string): Promise<string>;
+    presignUploadPart(key: string, uploadId: string, partNumber: number, expiresIn: number): Promise<string>;
+    completeMultipartUpload(key: string, uploadId: string, parts: { partNumber: number; etag: string }[]): Promise<void>;
+    abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
+
+export const supportsDirectUpload = (driver: StorageDriver): driver is StorageDriver & DirectUploadDriver => {
+    return typeof (driver as Partial<DirectUploadDriver>).presignPut === 'function';
+};
+
+/** Storage is usable either with the local driver or when R2 sync is explicitly enabled. */
+export const isStorageEnabled = (): boolean => {
+    return env.STORAGE_DRIVER === 'local' || env.ENABLE_R2_SYNC;
+};
+
+let driver: StorageDriver | undefined;
+
+export const getStorageDriver = (): StorageDriver => {
+    if (driver) return driver;
+    driver = env.STORAGE_DRIVER === 'local'
+        ? new LocalStorageDriver()
+        : new S3StorageDriver();
+    return driver;
+};
+
+let privateDriver: StorageDriver | null | undefined;
+
+/**
+ * Store for untouched originals that must never be served: R2_PRIVATE_BUCKET on R2, the `_private`
+ * folder of the local root (the static route refuses it). Null when R2 has no private bucket.
+ */
+export const getPrivateStorageDriver = (): StorageDriver | null => {
+    if (privateDriver !== undefined) return privateDriver;
+    if (env.STORAGE_DRIVER === 'local') {
+        privateDriver = getStorageDriver();
+    } else {
+        privateDriver = env.R2_PRIVATE_BUCKET ? new S3StorageDriver(env.R2_PRIVATE_BUCKET) : null;
+    }
+    return privateDriver;
+};
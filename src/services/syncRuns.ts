@@ -0,0 +1,92 @@
+import { Prisma } from '@prisma/client';
+import { env } from '../config/env';
+import { prisma } from '../utils/prisma';
+
+export type SyncTrigger = 'cron' | 'manual' | 'webhook';
+
+export interface SyncRunCounts {
+    scannedCount?: number;
+    newCount?: number;
+    updatedCount?: number;
+    deactivatedCount?: number;
+    reactivatedCount?: number;
+    complete?: boolean;
+}
+
+// Per-run cap on stored key entries; totals are always counted
+const MAX_KEY_ENTRIES = 200;
+
+/**
+ * Records one sync pass in the `sync_runs` table: start a row up front, collect per-key
+ * problems while working, then finish it with counts and duration.
+ */
+export class SyncRunRecorder {
+    private errors: { key: string; message: string }[] = [];
+    private skipped: { key: string; reason: string }[] = [];
+    private errorCount = 0;
+    private skippedCount = 0;
+
+    private constructor(readonly id: number, private readonly startedAt: Date) { }
+
+    static async start(trigger: SyncTrigger): Promise<SyncRunRecorder> {
+        const run = await prisma.syncRun.create({ data: { trigger } });
+        return new SyncRunRecorder(run.id, run.startedAt);
+    }
+
+    error(key: string, err: unknown) {
+        this.errorCount++;
+        if (this.errors.length < MAX_KEY_ENTRIES) {
+            const message = err instanceof Error ? err.message : String(err);
+            this.errors.push({ key, message: message.slice(0, 500) });
+        }
+    }
+
+    skip(key: string, reason: string) {
+        this.skippedCount++;
+        if (this.skipped.length < MAX_KEY_ENTRIES) {
+            this.skipped.push({ key, reason });
+        }
+    }
+
+    /** Best-effort progress snapshot so other callers can see how far an in-flight run got. */
+    async progress(counts: SyncRunCounts) {
+        await prisma.syncRun.update({
+            where: { id: this.id },
+            data: { ...counts, errorCount: this.errorCount, skippedCount: this.skippedCount },
+        }).catch(() => undefined);
+    }
+
+    async finish(counts: SyncRunCounts, failure?: unknown) {
+        const finishedAt = new Date();
+        await prisma.syncRun.update({
+            where: { id: this.id },
+            data: {
+                ...counts,
+                status: failure ? 'error' : 'ok',
+                message: failure ? String(failure instanceof Error ? failure.message : failure).slice(0, 500) : null,
+                finishedAt,
+                durationMs: finishedAt.getTime() - this.startedAt.getTime(),
+                errorCount: this.errorCount,
+                skippedCount: this.skippedCount,
+                errors: this.errors.length ? this.errors : Prisma.DbNull,
+                skipped: this.skipped.length ? this.skipped : Prisma.DbNull,
+            },
+        }).catch((err) => {
+            console.error(`Failed to record sync run ${this.id}:`, err);
+        });
+        await SyncRunRecorder.prune();
+    }
+
+    /** Close out a run whose process died (its lease expired without being released). */
+    static async markAbandoned(runId: number) {
+        await prisma.syncRun.updateMany({
+            where: { id: runId, status: 'running' },
+            data: { status: 'error', message: 'Abandoned: the instance running it stopped responding', finishedAt: new Date() },
+        });
+    }
+
+    private static async prune() {
+        const cutoff = new Date(Date.now() - env.SYNC_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+        await prisma.syncRun.deleteMany({ where: { startedAt: { lt: cutoff } } }).catch(() => undefined);
+    }
+}
@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { pipeline } from 'stream/promises';
+import { env } from '../config/env';
+import { prisma } from '../utils/prisma';
+import { runTool, withTempDir } from '../utils/exec';
+import { PrivacyService } from './privacy';
+import { R2Service, DERIVATIVES_DIR } from './r2';
+
+export type RenditionFormat = 'mp4' | 'webm';
+
+const CONTENT_TYPES: Record<RenditionFormat, string> = {
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+};
+
+// Transcoding runs at roughly real time on small instances; allow for long clips
+const PROBE_TIMEOUT_MS = 60_000;
+const TRANSCODE_TIMEOUT_MS = 60 * 60 * 1000;
+
+interface VideoProbe {
+    width?: number;
+    height?: number;
+    durationSec?: number;
+}
+
+/** Cap the shorter side (portrait and landscape alike), never upscale, keep even dimensions. */
+const scaleFilter = (size: number) => {
+    return `scale='if(gt(iw,ih),-2,min(${size},iw))':'if(gt(iw,ih),min(${size},ih),-2)'`;
+};
+
+const encoderArgs = (format: RenditionFormat, kbps: number): string[] => {
+    const rate = ['-maxrate', `${kbps}k`, '-bufsize', `${kbps * 2}k`];
+    if (format === 'webm') {
+        return [
+            '-c:v', 'libvpx-vp9', '-crf', '33', '-b:v', `${kbps}k`, ...rate,
+            '-deadline', 'good', '-cpu-used', '4', '-row-mt', '1',
+            '-c:a', 'libopus', '-b:a', '96k',
+        ];
+    }
+    return [
+        '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', ...rate,
+        '-profile:v', 'high', '-pix_fmt', 'yuv420p',
+        '-c:a', 'aac', '-b:a', '128k', '-ac', '2',
+        // moov up front so playback starts before the whole file is downloaded
+        '-movflags', '+faststart',
+    ];
+};
+
+export class VideoRenditionService {
+    static formats(): RenditionFormat[] {
+        return env.VIDEO_WEBM ? ['mp4', 'webm'] : ['mp4'];
+    }
+
+    static renditionKey(image: { id: string; mediaToken: string | null }, format: RenditionFormat): string {
+        return R2Service.mediaKey(DERIVATIVES_DIR, image, `video.${format}`);
+    }
+
+    static posterKey(image: { id: string; mediaToken: string | null }): string {
+        return R2Service.mediaKey(DERIVATIVES_DIR, image, 'poster.jpg');
+    }
+
+    /** Dimensions (after rotation) and duration via ffprobe. */
+    static async probe(file: string): Promise<VideoProbe> {
+        const output = await runTool('ffprobe', [
+            '-v', 'error', '-select_streams', 'v:0',
+            '-show_entries', 'stream=width,height:stream_side_data=rotation:format=duration',
+            '-of', 'json', file,
+        ], PROBE_TIMEOUT_MS);
+        const info = JSON.parse(output.toString('utf8'));
+        const stream = info.streams?.[0] ?? {};
+        const rotation = Math.abs(Number(stream.side_data_list?.find((d: any) => d.rotation !== undefined)?.rotation ?? 0));
+        const sideways = rotation === 90 || rotation === 270;
+        const duration = parseFloat(info.format?.duration);
+        return {
+            width: sideways ? stream.height : stream.width,
+            height: sideways ? stream.width : stream.height,
+            durationSec: Number.isFinite(duration) ? duration : undefined,
+        };
+    }
+
+    /**
+     * Extract a poster frame and transcode web renditions (H.264/MP4, plus VP9/WebM when VIDEO_WEBM
+     * is set) of a video's original, recording them on the record. Safe to re-run; files are overwritten.
+     */
+    static async generateForVideo(imageId: string) {
+        const image = await prisma.image.findUnique({ where: { id: imageId } });
+        if (!image) {
+            throw new Error(`Image ${imageId} not found`);
+        }
+        if (image.mediaType !== 'VIDEO') return [];
+
+        const r2 = new R2Service();
+        return withTempDir(async (dir) => {
+            // Videos can be gigabytes: go through disk, never memory (hashing for duplicate detection on the way)
+            const input = path.join(dir, `original${path.posix.extname(image.originalKey).toLowerCase()}`);
+            const hash = crypto.createHash('sha256');
+            const hashing = new PassThrough().on('data', (chunk: Buffer) => hash.update(chunk));
+            await pipeline(await PrivacyService.openOriginal(image), hashing, fs.createWriteStream(input));
+            const source = await this.probe(input);
+
+            // A frame a second in (or mid-clip for very short ones) is rarely the black/fading first frame
+            const posterAt = Math.min(1, (source.durationSec ?? 0) / 2);
+            const posterFile = path.join(dir, 'poster.jpg');
+            await runTool('ffmpeg', [
+                '-v', 'error', '-ss', posterAt.toFixed(2), '-i', input,
+                '-frames:v', '1', '-vf', scaleFilter(env.VIDEO_RENDITION_SIZE), '-q:v', '3', '-y', posterFile,
+            ], PROBE_TIMEOUT_MS);
+            const posterKey = this.posterKey(image);
+            await r2.putObjectStream(posterKey, fs.createReadStream(posterFile), 'image/jpeg');
+
+            const previous = await prisma.videoRendition.findMany({ where: { imageId: image.id }, select: { key: true } });
+            const renditions = [];
+            for (const format of this.formats()) {
+                const output = path.join(dir, `rendition.${format}`);
+                await runTool('ffmpeg', [
+                    '-v', 'error', '-i', input,
+                    '-map', '0:v:0', '-map', '0:a:0?',
+                    '-vf', scaleFilter(env.VIDEO_RENDITION_SIZE),
+                    ...encoderArgs(format, env.VIDEO_MAX_BITRATE_KBPS),
+                    '-y', output,
+                ], TRANSCODE_TIMEOUT_MS);
+                const rendered = await this.probe(output);
+
+                const key = this.renditionKey(image, format);
+                const stored = await r2.putObjectStream(key, fs.createReadStream(output), CONTENT_TYPES[format]);
+                const renditionData = {
+                    key,
+                    url: r2.getPublicUrl(key),
+                    width: rendered.width ?? 0,
+                    height: rendered.height ?? 0,
+                    bitrateKbps: rendered.durationSec
+                        ? Math.round(stored.size * 8 / 1000 / rendered.durationSec)
+                        : env.VIDEO_MAX_BITRATE_KBPS,
+                    sizeBytes: stored.size,
+                };
+                renditions.push(await prisma.videoRendition.upsert({
+                    where: { imageId_format: { imageId: image.id, format } },
+                    update: renditionData,
+                    create: { imageId: image.id, format, ...renditionData },
+                }));
+                await fs.promises.rm(output, { force: true });
+            }
+
+            // Drop files the record no longer uses: formats the config stopped producing, keys under a replaced media token
+            const kept = new Set(renditions.map(r => r.key));
+            for (const { key } of previous) {
+                if (!kept.has(key)) await r2.deleteObject(key);
+            }
+            await prisma.videoRendition.deleteMany({ where: { imageId: image.id, id: { notIn: renditions.map(r => r.id) } } });
+
+            await prisma.image.update({
+                where: { id: image.id },
+                data: {
+                    posterKey,
+                    posterUrl: r2.getPublicUrl(posterKey),
+                    sha256: hash.digest('hex'),
+                    // ffprobe reads every container, including WebM which the metadata step can't
+                    durationSec: source.durationSec ?? image.durationSec,
+                    width: image.width ?? source.width,
+                    height: image.height ?? source.height,
+                },
+            });
+            if (image.posterKey && image.posterKey !== posterKey) {
+                await r2.deleteObject(image.posterKey);
+            }
+            return renditions;
+        });
+    }
+
+    /** Remove the poster and rendition files for a video (DB rows cascade with the Image). */
+    static async deleteForVideo(imageId: string) {
+        const image = await prisma.image.findUnique({
+            where: { id: imageId },
+            select: { posterKey: true, renditions: { select: { key: true } } },
+        });
+        if (!image) return;
+        const r2 = new R2Service();
+        if (image.posterKey) await r2.deleteObject(image.posterKey);
+        for (const rendition of image.renditions) {
+            await r2.deleteObject(rendition.key);
+        }
+    }
+}
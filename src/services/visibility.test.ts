@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { VisibilityService } from './visibility';
+
+const record = { id: '00042', accessVersion: 3 };
+
+const listed = {
+    isActive: true,
+    mediaType: 'IMAGE' as const,
+    privacyCheckedAt: new Date('2026-01-01T00:00:00Z'),
+    publishAt: null,
+    expireAt: null,
+    visibility: 'PUBLIC' as const,
+};
+
+describe('VisibilityService.grants', () => {
+    it('accepts claims issued for the record as it is now', () => {
+        assert.equal(VisibilityService.grants(VisibilityService.claimsFor(record), record), true);
+    });
+
+    it('rejects claims from before access was revoked', () => {
+        const claims = VisibilityService.claimsFor(record);
+        assert.equal(VisibilityService.grants(claims, { ...record, accessVersion: 4 }), false);
+        // Versions only grow, but an older record must not honour a newer token either
+        assert.equal(VisibilityService.grants(claims, { ...record, accessVersion: 2 }), false);
+    });
+
+    it('rejects claims for a different record', () => {
+        assert.equal(VisibilityService.grants(VisibilityService.claimsFor({ id: '00043', accessVersion: 3 }), record), false);
+    });
+
+    it('rejects missing, expired or non-viewer tokens', () => {
+        // An expired or forged token fails verification, which leaves no claims (see routes/public.ts)
+        assert.equal(VisibilityService.grants(null, record), false);
+        assert.equal(VisibilityService.grants({}, record), false);
+        assert.equal(VisibilityService.grants({ imageId: '00042', v: 3 }, record), false);
+        assert.equal(VisibilityService.grants({ role: 'admin' } as any, record), false);
+        assert.equal(VisibilityService.grants({ role: 'viewer', imageId: '00042', v: '3' } as any, record), false);
+    });
+});
+
+describe('VisibilityService.isHidden / isListed', () => {
+    const now = new Date('2026-05-01T12:00:00Z');
+
+    it('lists PUBLIC records and hides nothing about them', () => {
+        assert.equal(VisibilityService.isListed(listed, now), true);
+        assert.equal(VisibilityService.isHidden(listed, now), false);
+    });
+
+    it('keeps UNLISTED and PROTECTED records out of listings and under hidden keys', () => {
+        for (const visibility of ['UNLISTED', 'PROTECTED'] as const) {
+            assert.equal(VisibilityService.isListed({ ...listed, visibility }, now), false, visibility);
+            assert.equal(VisibilityService.isHidden({ ...listed, visibility }, now), true, visibility);
+        }
+    });
+
+    it('hides a PUBLIC record until it is published', () => {
+        const scheduled = { ...listed, publishAt: new Date('2026-06-01T00:00:00Z') };
+        assert.equal(VisibilityService.isHidden(scheduled, now), true);
+        assert.equal(VisibilityService.isListed(scheduled, now), false);
+        assert.equal(VisibilityService.isHidden(scheduled, new Date('2026-06-02T00:00:00Z')), false);
+    });
+
+    it('does not list an image before the privacy step', () => {
+        assert.equal(VisibilityService.isListed({ ...listed, privacyCheckedAt: null }, now), false);
+        assert.equal(VisibilityService.isListed({ ...listed, mediaType: 'VIDEO', privacyCheckedAt: null }, now), true);
+    });
+});
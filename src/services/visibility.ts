@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { MediaType, Prisma, Visibility } from '@prisma/client';
+import { ScheduleService } from './schedule';
+
+/** Claims of a viewer token: an unlock by passphrase or a signed link an admin handed out. */
+export interface ViewerClaims {
+    role: 'viewer';
+    imageId: string;
+    /** accessVersion of the record when the token was issued */
+    v: number;
+}
+
+type ListedFields = {
+    isActive: boolean;
+    mediaType: MediaType;
+    privacyCheckedAt: Date | null;
+    publishAt: Date | null;
+    expireAt: Date | null;
+    visibility: Visibility;
+};
+
+/**
+ * Per-record visibility. PUBLIC records are listed and played in rotation; UNLISTED ones only open
+ * by their ID; PROTECTED ones open by ID for a viewer holding a token for that record, obtained
+ * with the passphrase or from a signed link. Tokens are JWTs with the `viewer` role, so they are
+ * never accepted by the admin API. The files of hidden records sit under keys the ID doesn't reveal
+ * (see isHidden), which change whenever access is revoked.
+ */
+export class VisibilityService {
+    /** Filter for records that may appear in listings, playlists and random picks. */
+    static listedWhere(now = new Date()): Prisma.ImageWhereInput {
+        return {
+            ...ScheduleService.publicWhere(now),
+            visibility: 'PUBLIC',
+            // Until the privacy step has run, an image's URL may still point at an original with GPS data
+            OR: [{ mediaType: 'VIDEO' }, { privacyCheckedAt: { not: null } }],
+        };
+    }
+
+    /** Same test as listedWhere, for a record that's already loaded. */
+    static isListed(image: ListedFields, now = new Date()): boolean {
+        return image.visibility === 'PUBLIC' && this.isSanitized(image) && ScheduleService.isVisible(image, now);
+    }
+
+    /** Whether the public may be handed the record's URL at all (see listedWhere). */
+    static isSanitized(image: { mediaType: MediaType; privacyCheckedAt: Date | null }): boolean {
+        return image.mediaType === 'VIDEO' || image.privacyCheckedAt !== null;
+    }
+
+    /**
+     * Records whose files must not be reachable by anyone who merely knows the ID or an old URL:
+     * unlisted, protected, or not published yet. They are served from copies under the media token.
+     */
+    static isHidden(image: { visibility: Visibility; publishAt: Date | null }, now = new Date()): boolean {
+        return image.visibility !== 'PUBLIC' || Boolean(image.publishAt && image.publishAt > now);
+    }
+
+    /** Random segment for a record's storage keys (see R2Service.mediaKey). */
+    static newMediaToken(): string {
+        return crypto.randomBytes(16).toString('base64url');
+    }
+
+    /**
+     * Update that takes back everything handed out for a record so far: viewer tokens and signed links
+     * (accessVersion) and its file URLs (a new media token). Withdraw the old files and enqueue the
+     * record for ingest afterwards; it regenerates the files under the new token.
+     */
+    static revokeAccess(): Prisma.ImageUpdateManyMutationInput {
+        return {
+            accessVersion: { increment: 1 },
+            mediaToken: this.newMediaToken(),
+            processedAt: null,
+            processingError: null,
+            processingAttempts: 0,
+        };
+    }
+
+    static hashPassphrase(passphrase: string): Promise<string> {
+        return bcrypt.hash(passphrase, 10);
+    }
+
+    static checkPassphrase(passphrase: string, hash: string): Promise<boolean> {
+        return bcrypt.compare(passphrase, hash);
+    }
+
+    static claimsFor(image: { id: string; accessVersion: number }): ViewerClaims {
+        return { role: 'viewer', imageId: image.id, v: image.accessVersion };
+    }
+
+    /** Whether verified token claims grant access to this record as it is now. */
+    static grants(claims: Partial<ViewerClaims> | null, image: { id: string; accessVersion: number }): boolean {
+        return claims?.role === 'viewer' && claims.imageId === image.id && claims.v === image.accessVersion;
+    }
+}
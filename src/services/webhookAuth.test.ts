@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { Prisma } from '@prisma/client';
+import { env } from '../config/env';
+import { WebhookAuth } from './webhookAuth';
+
+const body = JSON.stringify({ key: 'photos/a.jpg', eventType: 'PutObject' });
+const now = () => Math.floor(Date.now() / 1000);
+
+const signed = (secret: string, id = 'delivery-1', timestamp: number | string = now(), rawBody = body) => ({
+    'x-webhook-id': id,
+    'x-webhook-timestamp': String(timestamp),
+    'x-webhook-signature': `v1=${WebhookAuth.sign(secret, id, timestamp, rawBody)}`,
+});
+
+const original = { ...env };
+
+describe('WebhookAuth.verify', () => {
+    afterEach(() => {
+        env.WEBHOOK_SECRET = original.WEBHOOK_SECRET;
+        env.WEBHOOK_SECRET_PREVIOUS = original.WEBHOOK_SECRET_PREVIOUS;
+        env.WEBHOOK_AUTH_MODE = original.WEBHOOK_AUTH_MODE;
+    });
+
+    it('accepts a delivery signed with the current secret and returns its nonce', async () => {
+        assert.deepEqual(await WebhookAuth.verify(signed(env.WEBHOOK_SECRET), body), { ok: true, method: 'signature', nonce: 'delivery-1' });
+    });
+
+    it('rejects a bad signature', async () => {
+        assert.deepEqual(await WebhookAuth.verify(signed('not-the-secret'), body), { ok: false, status: 401, error: 'Invalid signature' });
+        // Right secret, but the body was changed after signing
+        const result = await WebhookAuth.verify(signed(env.WEBHOOK_SECRET), body.replace('a.jpg', 'b.jpg'));
+        assert.equal(result.ok, false);
+    });
+
+    it('rejects a timestamp outside the tolerance window, either way', async () => {
+        for (const timestamp of [now() - env.WEBHOOK_TOLERANCE_SEC - 5, now() + env.WEBHOOK_TOLERANCE_SEC + 5]) {
+            assert.deepEqual(await WebhookAuth.verify(signed(env.WEBHOOK_SECRET, 'delivery-1', timestamp), body), { ok: false, status: 401, error: 'Timestamp outside tolerance window' });
+        }
+    });
+
+    it('rejects a missing id or malformed timestamp', async () => {
+        const { 'x-webhook-id': _, ...withoutId } = signed(env.WEBHOOK_SECRET);
+        assert.equal((await WebhookAuth.verify(withoutId, body)).ok, false);
+        assert.equal((await WebhookAuth.verify({ ...signed(env.WEBHOOK_SECRET), 'x-webhook-timestamp': '12e9' }, body)).ok, false);
+    });
+
+    it('accepts the previous secret during rotation, and only then', async () => {
+        const headers = signed('old-secret');
+        assert.equal((await WebhookAuth.verify(headers, body)).ok, false);
+        env.WEBHOOK_SECRET_PREVIOUS = 'old-secret';
+        assert.equal((await WebhookAuth.verify(headers, body)).ok, true);
+        // A sender listing signatures for both secrets passes too
+        const both = { ...signed(env.WEBHOOK_SECRET), 'x-webhook-signature': `${headers['x-webhook-signature']} v1=${WebhookAuth.sign(env.WEBHOOK_SECRET, 'delivery-1', headers['x-webhook-timestamp'], body)}` };
+        assert.equal((await WebhookAuth.verify(both, body)).ok, true);
+    });
+
+    it('requires a signature unless the static secret is opted in', async () => {
+        const unsigned = { 'x-webhook-secret': env.WEBHOOK_SECRET };
+        assert.deepEqual(await WebhookAuth.verify(unsigned, body), { ok: false, status: 401, error: 'Signature required' });
+
+        env.WEBHOOK_AUTH_MODE = 'either';
+        assert.deepEqual(await WebhookAuth.verify(unsigned, body), { ok: true, method: 'static' });
+        assert.deepEqual(await WebhookAuth.verify({ 'x-webhook-secret': 'wrong' }, body), { ok: false, status: 403, error: 'Invalid secret' });
+        assert.deepEqual(await WebhookAuth.verify({}, body), { ok: false, status: 403, error: 'Invalid secret' });
+    });
+});
+
+describe('WebhookAuth.isReplay', () => {
+    it('recognises a reused nonce by its unique-constraint error', () => {
+        const duplicate = new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: Prisma.prismaVersion.client });
+        const other = new Prisma.PrismaClientKnownRequestError('Record not found', { code: 'P2025', clientVersion: Prisma.prismaVersion.client });
+        assert.equal(WebhookAuth.isReplay(duplicate), true);
+        assert.equal(WebhookAuth.isReplay(other), false);
+        assert.equal(WebhookAuth.isReplay(new Error('P2002')), false);
+    });
+});
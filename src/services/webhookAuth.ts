@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { env } from '../config/env';
+import { prisma } from '../utils/prisma';
+
+export type WebhookAuthResult =
+    | { ok: true; method: 'signature'; nonce: string }
+    | { ok: true; method: 'static' }
+    | { ok: false; status: number; error: string };
+
+type HeaderValue = string | string[] | undefined;
+
+const header = (headers: Record<string, HeaderValue>, name: string): string | undefined => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+};
+
+/** Constant-time string comparison (lengths are compared first, which leaks only the length). */
+const safeEqual = (a: string, b: string): boolean => {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+const activeSecrets = (): string[] => {
+    return [env.WEBHOOK_SECRET, env.WEBHOOK_SECRET_PREVIOUS].filter((s): s is string => Boolean(s));
+};
+
+/**
+ * Verifies storage webhook deliveries.
+ *
+ * Signed deliveries carry:
+ *   X-Webhook-Id:        unique delivery id (nonce)
+ *   X-Webhook-Timestamp: unix seconds
+ *   X-Webhook-Signature: `v1=<hex hmac-sha256>` (several may be listed, space-separated)
+ * where the HMAC key is WEBHOOK_SECRET (or WEBHOOK_SECRET_PREVIOUS during rotation) and the
+ * signed content is `${id}.${timestamp}.${rawBody}`.
+ */
+export class WebhookAuth {
+    static sign(secret: string, id: string, timestamp: number | string, rawBody: string): string {
+        return crypto.createHmac('sha256', secret).update(`${id}.${timestamp}.${rawBody}`).digest('hex');
+    }
+
+    /** Checks credentials only; a signed delivery counts as seen once enqueueWebhookEvent has stored its nonce. */
+    static async verify(headers: Record<string, HeaderValue>, rawBody: string): Promise<WebhookAuthResult> {
+        const signature = header(headers, 'x-webhook-signature');
+        if (!signature) {
+            return this.verifyStatic(headers);
+        }
+
+        const id = header(headers, 'x-webhook-id');
+        const timestamp = header(headers, 'x-webhook-timestamp');
+        if (!id || !timestamp || !/^\d+$/.test(timestamp)) {
+            return { ok: false, status: 400, error: 'Missing webhook id or timestamp' };
+        }
+
+        const skew = Math.abs(Date.now() / 1000 - Number(timestamp));
+        if (skew > env.WEBHOOK_TOLERANCE_SEC) {
+            return { ok: false, status: 401, error: 'Timestamp outside tolerance window' };
+        }
+
+        const provided = signature.split(/\s+/)
+            .filter(part => part.startsWith('v1='))
+            .map(part => part.slice(3).toLowerCase());
+        const valid = activeSecrets().some((secret) => {
+            const expected = this.sign(secret, id, timestamp, rawBody);
+            return provided.some(candidate => safeEqual(candidate, expected));
+        });
+        if (!valid) {
+            return { ok: false, status: 401, error: 'Invalid signature' };
+        }
+
+        return { ok: true, method: 'signature', nonce: id };
+    }
+
+    /** Whether persisting a delivery failed because its nonce was already recorded. */
+    static isReplay(err: unknown): boolean {
+        return err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002';
+    }
+
+    private static verifyStatic(headers: Record<string, HeaderValue>): WebhookAuthResult {
+        if (env.WEBHOOK_AUTH_MODE !== 'either') {
+            return { ok: false, status: 401, error: 'Signature required' };
+        }
+        const secret = header(headers, 'x-webhook-secret');
+        if (!secret || !activeSecrets().some(active => safeEqual(secret, active))) {
+            return { ok: false, status: 403, error: 'Invalid secret' };
+        }
+        return { ok: true, method: 'static' };
+    }
+
+    /** Nonces only need to outlive the tolerance window (older timestamps are rejected anyway). */
+    static async pruneNonces() {
+        const cutoff = new Date(Date.now() - 2 * env.WEBHOOK_TOLERANCE_SEC * 1000);
+        await prisma.webhookNonce.deleteMany({ where: { receivedAt: { lt: cutoff } } });
+    }
+}
@@ -0,0 +1,14 @@
+// Loaded before every test file (see the "test" script): fixed values so config/env.ts validates
+// the same way everywhere, whatever .env the developer has.
+Object.assign(process.env, {
+    DATABASE_URL: 'postgresql://test@localhost:5432/test',
+    ADMIN_PASSWORD: 'test-admin',
+    JWT_SECRET: 'test-jwt-secret',
+    WEBHOOK_SECRET: 'test-webhook-secret',
+    WEBHOOK_AUTH_MODE: 'signed',
+    WEBHOOK_TOLERANCE_SEC: '300',
+    ENABLE_R2_SYNC: 'false',
+    STORAGE_DRIVER: 'local',
+    LOCAL_STORAGE_DIR: './storage',
+});
+delete process.env.WEBHOOK_SECRET_PREVIOUS;
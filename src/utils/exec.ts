@@ -0,0 +1,37 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+const MAX_OUTPUT_BYTES = 512 * 1024 * 1024;
+
+/**
+ * Run an external media tool (ffmpeg, heif-convert, ...) and return its stdout. A missing binary
+ * gets a clearer error than ENOENT; `timeoutMs` kills a stuck process.
+ */
+export const runTool = async (bin: string, args: string[], timeoutMs: number): Promise<Buffer> => {
+    try {
+        const { stdout } = await execFileAsync(bin, args, { encoding: 'buffer', maxBuffer: MAX_OUTPUT_BYTES, timeout: timeoutMs });
+        return stdout;
+    } catch (err: any) {
+        if (err?.code === 'ENOENT') {
+            throw new Error(`${bin} is not installed`);
+        }
+        // execFile errors carry the whole command line; stderr's last line says what went wrong
+        const detail = Buffer.isBuffer(err?.stderr) ? err.stderr.toString('utf8').trim().split('\n').pop() : undefined;
+        throw new Error(`${bin} failed${detail ? `: ${detail}` : ''}`);
+    }
+};
+
+/** Run `fn` with a fresh scratch directory that is always removed afterwards. */
+export const withTempDir = async <T>(fn: (dir: string) => Promise<T>): Promise<T> => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'media-'));
+    try {
+        return await fn(dir);
+    } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+    }
+};
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Readable } from 'stream';
+import { probeMp4 } from './mp4';
+
+// Seconds between the QuickTime epoch (1904-01-01) and the Unix epoch
+const QT_EPOCH_OFFSET = 2082844800;
+
+const box = (type: string, ...children: Buffer[]): Buffer => {
+    const body = Buffer.concat(children);
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(8 + body.length, 0);
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([header, body]);
+};
+
+const ftyp = (major = 'isom') => box('ftyp', Buffer.from(`${major}\0\0\0\0isommp41`, 'latin1'));
+
+const mvhd = (createdAt: Date, timescale: number, duration: number) => {
+    const body = Buffer.alloc(100);
+    body.writeUInt32BE(Math.floor(createdAt.getTime() / 1000) + QT_EPOCH_OFFSET, 4);
+    body.writeUInt32BE(timescale, 12);
+    body.writeUInt32BE(duration, 16);
+    return box('mvhd', body);
+};
+
+/** Version 0 track header; `rotated` applies the 90° display matrix phones write for portrait video. */
+const tkhd = (width: number, height: number, rotated = false) => {
+    const body = Buffer.alloc(84);
+    const [a, b, c, d] = rotated ? [0, 1, -1, 0] : [1, 0, 0, 1];
+    body.writeInt32BE(a * 65536, 40);
+    body.writeInt32BE(b * 65536, 44);
+    body.writeInt32BE(c * 65536, 52);
+    body.writeInt32BE(d * 65536, 56);
+    body.writeUInt32BE(0x40000000, 72);
+    body.writeUInt32BE(width * 65536, 76);
+    body.writeUInt32BE(height * 65536, 80);
+    return box('tkhd', body);
+};
+
+const createdAt = new Date('2025-07-14T09:30:00Z');
+const moov = (rotated = false) => box('moov', mvhd(createdAt, 1000, 12_500), box('trak', tkhd(1920, 1080, rotated)));
+const mdat = box('mdat', Buffer.alloc(200_000, 0xab));
+
+/** Stream a buffer in small chunks, so box headers and bodies straddle chunk boundaries. */
+const chunked = (buf: Buffer, size = 1000) => {
+    const chunks: Buffer[] = [];
+    for (let offset = 0; offset < buf.length; offset += size) chunks.push(buf.subarray(offset, offset + size));
+    return Readable.from(chunks);
+};
+
+describe('probeMp4', () => {
+    it('reads duration, size and creation time with moov after the media data', async () => {
+        assert.deepEqual(await probeMp4(chunked(Buffer.concat([ftyp(), mdat, moov()]))), {
+            createdAt,
+            durationSec: 12.5,
+            width: 1920,
+            height: 1080,
+        });
+    });
+
+    it('reads a fast-start file (moov first) in one chunk', async () => {
+        const info = await probeMp4(Readable.from([Buffer.concat([ftyp(), moov(), mdat])]));
+        assert.equal(info?.durationSec, 12.5);
+    });
+
+    it('swaps width and height for rotated (portrait) video', async () => {
+        const info = await probeMp4(chunked(Buffer.concat([ftyp(), moov(true), mdat])));
+        assert.equal(info?.width, 1080);
+        assert.equal(info?.height, 1920);
+    });
+
+    it('returns null for a truncated file', async () => {
+        const whole = Buffer.concat([ftyp(), mdat, moov()]);
+        // Cut inside the moov box, then inside the media data before moov was ever reached
+        assert.equal(await probeMp4(chunked(whole.subarray(0, whole.length - 20))), null);
+        assert.equal(await probeMp4(chunked(whole.subarray(0, 50_000))), null);
+    });
+
+    it('returns null without a moov box or for something that is not ISO-BMFF', async () => {
+        assert.equal(await probeMp4(chunked(Buffer.concat([ftyp(), mdat]))), null);
+        assert.equal(await probeMp4(Readable.from([Buffer.from('<html><body>not a video</body></html>')])), null);
+        assert.equal(await probeMp4(Readable.from([Buffer.alloc(0)])), null);
+    });
+});
@@ -0,0 +1,149 @@
+import { Readable } from 'stream';
+
+export interface Mp4Info {
+    durationSec?: number;
+    width?: number;
+    height?: number;
+    createdAt?: Date;
+}
+
+// Seconds between the QuickTime epoch (1904-01-01) and the Unix epoch
+const QT_EPOCH_OFFSET = 2082844800;
+
+const readUint64 = (buf: Buffer, offset: number): number => {
+    return Number(buf.readBigUInt64BE(offset));
+};
+
+const qtDate = (seconds: number): Date | undefined => {
+    if (!seconds) return undefined;
+    const ms = (seconds - QT_EPOCH_OFFSET) * 1000;
+    return ms > 0 ? new Date(ms) : undefined;
+};
+
+/** Iterate child boxes of an ISO-BMFF container held fully in memory. */
+function* boxes(buf: Buffer, start = 0, end = buf.length): Generator<{ type: string; body: Buffer }> {
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = buf.readUInt32BE(offset);
+        const type = buf.toString('latin1', offset + 4, offset + 8);
+        let header = 8;
+        if (size === 1) {
+            if (offset + 16 > end) return;
+            size = readUint64(buf, offset + 8);
+            header = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < header || offset + size > end) return;
+        yield { type, body: buf.subarray(offset + header, offset + size) };
+        offset += size;
+    }
+}
+
+const parseMoov = (moov: Buffer): Mp4Info => {
+    const info: Mp4Info = {};
+
+    for (const box of boxes(moov)) {
+        if (box.type === 'mvhd') {
+            const version = box.body[0];
+            if (version === 1) {
+                info.createdAt = qtDate(readUint64(box.body, 4));
+                const timescale = box.body.readUInt32BE(20);
+                const duration = readUint64(box.body, 24);
+                if (timescale) info.durationSec = duration / timescale;
+            } else {
+                info.createdAt = qtDate(box.body.readUInt32BE(4));
+                const timescale = box.body.readUInt32BE(12);
+                const duration = box.body.readUInt32BE(16);
+                if (timescale) info.durationSec = duration / timescale;
+            }
+        } else if (box.type === 'trak' && info.width === undefined) {
+            for (const child of boxes(box.body)) {
+                if (child.type !== 'tkhd') continue;
+                // tkhd: matrix and 16.16 width/height sit at the end of the box for both versions
+                const body = child.body;
+                const matrixOffset = body.length - 44;
+                if (matrixOffset < 0) continue;
+                const width = body.readUInt32BE(body.length - 8) / 65536;
+                const height = body.readUInt32BE(body.length - 4) / 65536;
+                if (!width || !height) continue;
+                const a = body.readInt32BE(matrixOffset) / 65536;
+                const b = body.readInt32BE(matrixOffset + 4) / 65536;
+                const rotation = Math.round(Math.atan2(b, a) * 180 / Math.PI);
+                const rotated = Math.abs(rotation) === 90 || Math.abs(rotation) === 270;
+                info.width = Math.round(rotated ? height : width);
+                info.height = Math.round(rotated ? width : height);
+            }
+        }
+    }
+
+    return info;
+};
+
+/**
+ * Read duration, display size and creation time from an MP4/MOV stream.
+ * Only the `moov` box is buffered; media data is skipped as it streams past.
+ * Returns null when the stream isn't an ISO-BMFF file or has no `moov`.
+ */
+export const probeMp4 = async (stream: Readable): Promise<Mp4Info | null> => {
+    let pending: Buffer = Buffer.alloc(0);
+    let skip = 0;
+    let moovSize = 0;
+    let first = true;
+
+    try {
+        for await (const raw of stream) {
+            let chunk: Buffer = Buffer.isBuffer(raw) ? raw : Buffer.from(raw);
+
+            if (skip > 0) {
+                if (chunk.length <= skip) {
+                    skip -= chunk.length;
+                    continue;
+                }
+                chunk = chunk.subarray(skip);
+                skip = 0;
+            }
+            pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+
+            while (true) {
+                if (moovSize) {
+                    if (pending.length < moovSize) break;
+                    return parseMoov(pending.subarray(0, moovSize));
+                }
+                if (pending.length < 16) break;
+
+                let size = pending.readUInt32BE(0);
+                const type = pending.toString('latin1', 4, 8);
+                let header = 8;
+                if (size === 1) {
+                    size = readUint64(pending, 8);
+                    header = 16;
+                }
+                if (first) {
+                    first = false;
+                    if (type !== 'ftyp' && type !== 'moov' && type !== 'wide' && type !== 'mdat') return null;
+                }
+                if (size === 0) return null; // box runs to EOF and it isn't moov; nothing left to find
+                if (size < header) return null;
+
+                if (type === 'moov') {
+                    moovSize = size - header;
+                    pending = pending.subarray(header);
+                    continue;
+                }
+
+                if (pending.length >= size) {
+                    pending = pending.subarray(size);
+                } else {
+                    skip = size - pending.length;
+                    pending = Buffer.alloc(0);
+                    break;
+                }
+            }
+        }
+    } finally {
+        stream.destroy();
+    }
+
+    return null;
+};
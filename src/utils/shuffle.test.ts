@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { playlistSlice, ShuffleEntry, Weighting } from './shuffle';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const entriesOf = (count: number, featured = (_i: number) => false): ShuffleEntry[] =>
+    Array.from({ length: count }, (_, i) => ({
+        id: String(10000 + i),
+        createdAt: new Date(Date.UTC(2024, 0, 1) + i * DAY_MS),
+        featured: featured(i),
+    }));
+
+const weightings: Weighting[] = [
+    { weight: 'none', boost: 3, halfLifeDays: 30 },
+    { weight: 'featured', boost: 3, halfLifeDays: 30 },
+    { weight: 'recent', boost: 3, halfLifeDays: 30 },
+];
+
+describe('playlistSlice', () => {
+    it('shows every item exactly once per pass', () => {
+        for (const weighting of weightings) {
+            for (const count of [1, 2, 3, 7, 50]) {
+                const entries = entriesOf(count, i => i % 4 === 0);
+                const ids = playlistSlice(entries, 'seed', weighting, 0, count * 5);
+                for (let cycle = 0; cycle < 5; cycle++) {
+                    const pass = ids.slice(cycle * count, (cycle + 1) * count);
+                    assert.deepEqual([...pass].sort(), entries.map(entry => entry.id).sort(), `${weighting.weight}, ${count} items, pass ${cycle}`);
+                }
+            }
+        }
+    });
+
+    it('never repeats an item back to back, including across passes', () => {
+        for (const weighting of weightings) {
+            for (const count of [2, 3, 4, 10]) {
+                for (let s = 0; s < 50; s++) {
+                    const ids = playlistSlice(entriesOf(count, i => i === 0), `seed-${s}`, weighting, 0, count * 6);
+                    ids.forEach((id, position) => {
+                        if (position) assert.notEqual(id, ids[position - 1], `${weighting.weight}, ${count} items, seed-${s}, position ${position}`);
+                    });
+                }
+            }
+        }
+    });
+
+    it('returns the same positions whatever page they are fetched in', () => {
+        const entries = entriesOf(12);
+        const whole = playlistSlice(entries, 'shared', weightings[0], 0, 40);
+        const paged = [0, 7, 14, 21, 28, 35].flatMap(offset => playlistSlice(entries, 'shared', weightings[0], offset, Math.min(7, 40 - offset)));
+        assert.deepEqual(paged, whole);
+    });
+
+    it('gives different seeds different orders', () => {
+        const entries = entriesOf(20);
+        assert.notDeepEqual(playlistSlice(entries, 'a', weightings[0], 0, 20), playlistSlice(entries, 'b', weightings[0], 0, 20));
+    });
+
+    it('moves featured items towards the start of a pass', () => {
+        const entries = entriesOf(40, i => i < 4);
+        const featured = new Set(entries.slice(0, 4).map(entry => entry.id));
+        const meanPosition = (weighting: Weighting) => {
+            let sum = 0;
+            for (let s = 0; s < 200; s++) {
+                playlistSlice(entries, `seed-${s}`, weighting, 0, 40).forEach((id, position) => {
+                    if (featured.has(id)) sum += position;
+                });
+            }
+            return sum / (200 * featured.size);
+        };
+        assert.ok(meanPosition({ weight: 'featured', boost: 5, halfLifeDays: 30 }) < meanPosition(weightings[0]));
+    });
+
+    it('returns nothing for an empty archive', () => {
+        assert.deepEqual(playlistSlice([], 'seed', weightings[0], 0, 10), []);
+    });
+});
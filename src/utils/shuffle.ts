@@ -0,0 +1,92 @@
+export type PlaylistWeight = 'none' | 'recent' | 'featured';
+
+export interface ShuffleEntry {
+    id: string;
+    createdAt: Date;
+    featured: boolean;
+}
+
+export interface Weighting {
+    weight: PlaylistWeight;
+    // How much likelier a featured (or brand-new) item is to come early in a pass
+    boost: number;
+    // Age at which a 'recent' boost has halved
+    halfLifeDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Uniform value in (0, 1) from a string: FNV-1a, then the murmur3 finalizer so inputs that differ
+ * only in their last characters (sequential IDs) still land far apart.
+ */
+const hashUnit = (text: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+    return ((h >>> 0) + 0.5) / 4294967296;
+};
+
+const weigher = ({ weight, boost, halfLifeDays }: Weighting, entries: ShuffleEntry[]): ((entry: ShuffleEntry) => number) => {
+    if (weight === 'featured') {
+        return entry => (entry.featured ? boost : 1);
+    }
+    if (weight === 'recent') {
+        // Age relative to the newest item, so a seed keeps its order until something new is added
+        const newest = entries.reduce((max, entry) => Math.max(max, entry.createdAt.getTime()), 0);
+        return (entry) => {
+            const ageDays = (newest - entry.createdAt.getTime()) / DAY_MS;
+            return 1 + (boost - 1) * Math.pow(0.5, ageDays / halfLifeDays);
+        };
+    }
+    return () => 1;
+};
+
+const shuffle = (entries: ShuffleEntry[], salt: string, weightOf: (entry: ShuffleEntry) => number): string[] => {
+    // log(u) / w orders the same as u^(1/w) without underflow for large weights
+    return entries
+        .map(entry => ({ id: entry.id, key: Math.log(hashUnit(`${salt}:${entry.id}`)) / weightOf(entry) }))
+        .sort((a, b) => b.key - a.key || (a.id < b.id ? -1 : 1))
+        .map(entry => entry.id);
+};
+
+/**
+ * IDs at positions [offset, offset + limit) of the endless seeded shuffle of `entries` (see
+ * PlaylistService). Pass `k` covers positions [k * total, (k + 1) * total).
+ */
+export const playlistSlice = (entries: ShuffleEntry[], seed: string, weighting: Weighting, offset: number, limit: number): string[] => {
+    const total = entries.length;
+    if (!total) return [];
+
+    const weightOf = weigher(weighting, entries);
+    const cycles = new Map<number, string[]>();
+    const cycleOrder = (cycle: number): string[] => {
+        // With one or two items, repeating the first pass is the only order without back-to-back repeats
+        if (total <= 2) cycle = 0;
+        let order = cycles.get(cycle);
+        if (!order) {
+            order = shuffle(entries, `${seed}:${cycle}`, weightOf);
+            // Never show the same item twice in a row across the pass boundary. The swap only
+            // touches the first two positions, so the previous pass's last item is its unswapped one.
+            const previousLast = cycle > 0 ? shuffle(entries, `${seed}:${cycle - 1}`, weightOf)[total - 1] : null;
+            if (order[0] === previousLast) {
+                [order[0], order[1]] = [order[1], order[0]];
+            }
+            cycles.set(cycle, order);
+        }
+        return order;
+    };
+
+    const ids: string[] = [];
+    for (let position = offset; position < offset + limit; position++) {
+        ids.push(cycleOrder(Math.floor(position / total))[position % total]);
+    }
+    return ids;
+};
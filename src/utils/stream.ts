@@ -0,0 +1,71 @@
+import { Readable } from 'stream';
+
+export const streamToBuffer = async (stream: Readable): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+};
+
+/** Re-chunk a stream into buffers of exactly `size` bytes (the last one may be shorter). */
+export async function* readChunks(stream: Readable, size: number): AsyncGenerator<Buffer> {
+    let pending: Buffer[] = [];
+    let length = 0;
+    for await (const raw of stream) {
+        let chunk: Buffer = Buffer.isBuffer(raw) ? raw : Buffer.from(raw);
+        while (length + chunk.length >= size) {
+            const take = size - length;
+            pending.push(chunk.subarray(0, take));
+            yield Buffer.concat(pending);
+            pending = [];
+            length = 0;
+            chunk = chunk.subarray(take);
+        }
+        if (chunk.length) {
+            pending.push(chunk);
+            length += chunk.length;
+        }
+    }
+    if (length) {
+        yield Buffer.concat(pending);
+    }
+}
+
+/**
+ * Read the first `size` bytes of a stream without losing them: returns that head plus a stream
+ * that replays it followed by the rest.
+ */
+export const peekStream = async (source: Readable, size: number): Promise<{ head: Buffer; stream: Readable }> => {
+    const iterator = source[Symbol.asyncIterator]();
+    const chunks: Buffer[] = [];
+    let length = 0;
+    let ended = false;
+    while (length < size) {
+        const next = await iterator.next();
+        if (next.done) {
+            ended = true;
+            break;
+        }
+        const chunk: Buffer = Buffer.isBuffer(next.value) ? next.value : Buffer.from(next.value);
+        chunks.push(chunk);
+        length += chunk.length;
+    }
+    const buffered = Buffer.concat(chunks);
+
+    async function* replay() {
+        if (buffered.length) yield buffered;
+        if (ended) return;
+        while (true) {
+            const next = await iterator.next();
+            if (next.done) return;
+            yield next.value as Buffer;
+        }
+    }
+    const stream = Readable.from(replay(), { objectMode: false });
+    // Destroying the replay (e.g. after a rejected header) also releases the source
+    stream.once('close', () => {
+        if (!source.destroyed && !source.readableEnded) source.destroy();
+    });
+    return { head: buffered.subarray(0, size), stream };
+};
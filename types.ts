@@ -3,16 +3,163 @@ export interface AppSettings {
   crop: number; // 0.25 (tight) to 1.0 (full)
 }
 
+export interface ImageVariant {
+  url: string;
+  width: number;
+  height?: number; // Omitted in paginated (compact) list responses
+  format: string; // 'avif' | 'webp' | 'jpeg'
+}
+
+export interface VideoRendition {
+  url: string;
+  width?: number; // Dimensions are omitted in paginated (compact) list responses
+  height?: number;
+  format: string; // 'mp4' | 'webm'
+}
+
 export interface ImageRecord {
   id: string;
   url: string;
   mediaType: 'IMAGE' | 'VIDEO';
+  variants?: ImageVariant[]; // Resized renditions, ascending width (may be empty while processing)
+  posterUrl?: string | null; // Videos: still frame to show before playback
+  renditions?: VideoRendition[]; // Videos: web-playable transcodes (may be empty while processing)
+}
+
+/** GET /api/images/:id of a protected record without a valid key */
+export interface LockedRecord {
+  locked: true;
+  passphrase: boolean; // False when only a signed link opens it
+}
+
+export type Visibility = 'PUBLIC' | 'UNLISTED' | 'PROTECTED';
+
+/** One page of GET /api/images?limit=… */
+export interface ImagePage {
+  items: ImageRecord[];
+  nextCursor: string | null; // Pass back as `cursor`; null on the last page
+}
+
+export type PlaylistWeight = 'none' | 'recent' | 'featured';
+
+/** One page of GET /api/playlist: positions [offset, nextOffset) of a seeded endless shuffle */
+export interface PlaylistPage {
+  seed: string; // Share to reproduce the same order
+  weight: PlaylistWeight;
+  total: number; // Items in one full pass
+  offset: number;
+  nextOffset: number;
+  items: ImageRecord[];
+}
+
+/** A curated series played on its own at /c/:slug */
+export interface Collection {
+  slug: string;
+  title: string;
+  description?: string | null;
+  cover?: ImageRecord | null; // Explicit cover, else the first item
+  images: ImageRecord[]; // Active members in display order
 }
 
 export interface AdminImageRecord extends ImageRecord {
   isActive: boolean;
   createdAt: string;
   originalKey: string;
+  width?: number | null;
+  height?: number | null;
+  sizeBytes?: number | null;
+  contentType?: string | null;
+  caption?: string | null;
+  tags?: string[]; // Lowercase, dash-joined words
+  featured?: boolean; // Favoured by weight=featured playlists
+  publishAt?: string | null; // Hidden from the public until then
+  expireAt?: string | null; // Gone (410) from then on
+  visibility?: Visibility; // UNLISTED/PROTECTED records are left out of listings and rotation
+  hasPassphrase?: boolean;
+  orientation?: number | null;
+  cameraMake?: string | null;
+  cameraModel?: string | null;
+  lensModel?: string | null;
+  capturedAt?: string | null;
+  durationSec?: number | null;
+  exif?: Record<string, unknown> | null;
+  strippedFields?: string[];
+  privacyCheckedAt?: string | null;
+  processedAt?: string | null;
+  processingError?: string | null;
+}
+
+/** Admin search filters; all optional, combined with AND */
+export interface AdminSearchParams {
+  q?: string;
+  mediaType?: 'IMAGE' | 'VIDEO';
+  active?: boolean;
+  from?: string; // ISO date; compared to the capture date, else the upload date
+  to?: string;
+  tags?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface IdCapacity {
+  scheme: string; // "<alphabet>:<length>"
+  total: number;
+  used: number;
+  reserved: number;
+  remaining: number;
+  percentUsed: number;
+  warning: boolean; // true once usage crosses ID_CAPACITY_WARN_PERCENT
+}
+
+export interface ReservedId {
+  id: string;
+  reason?: string | null;
+  createdAt: string;
+}
+
+export interface AdminCollection {
+  id: number;
+  slug: string;
+  title: string;
+  description?: string | null;
+  coverImageId?: string | null;
+  imageIds: string[]; // Display order, including inactive records
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SyncRun {
+  id: number;
+  trigger: 'cron' | 'manual' | 'webhook';
+  status: 'running' | 'ok' | 'error';
+  startedAt: string;
+  finishedAt?: string | null;
+  durationMs?: number | null;
+  scannedCount: number;
+  newCount: number;
+  updatedCount: number;
+  deactivatedCount: number;
+  reactivatedCount: number;
+  errorCount: number;
+  skippedCount: number;
+  complete?: boolean | null;
+  message?: string | null;
+}
+
+/** Snapshot of an in-flight sync, returned when a refresh is coalesced into it */
+export interface SyncRunProgress {
+  id: number;
+  trigger: string;
+  startedAt: string;
+  scannedCount: number;
+  newCount: number;
+  updatedCount: number;
+  errorCount: number;
+}
+
+export interface SyncRunDetail extends SyncRun {
+  errors?: { key: string; message: string }[] | null;
+  skipped?: { key: string; reason: string }[] | null;
 }
 
 export const DEFAULT_SETTINGS: AppSettings = {